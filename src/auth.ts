@@ -0,0 +1,243 @@
+/**
+ * API key authentication and rate limiting
+ *
+ * Design:
+ *  - Optional: authentication is only enforced when keys are configured,
+ *    either in the `API_KEYS` secret or in the `API_KEYS_KV` namespace.
+ *  - Keys are read from `Authorization: Bearer <key>` or `X-API-Key`.
+ *  - Limits: each key has its own requests-per-minute and tokens-per-day
+ *    budget, falling back to the defaults in `config.ts`.
+ *  - Counters live in a `RateLimiter` Durable Object (one instance per key),
+ *    so they are consistent across isolates and locations.
+ */
+
+import { DurableObject } from 'cloudflare:workers';
+import { defaultRequestsPerMinute, defaultTokensPerDay } from './config';
+
+/** Limits configured for a single key */
+interface KeyLimits {
+  name?: string;
+  rpm?: number;
+  /** Workers AI tokens per day; `0` means unlimited, absent means `RATE_LIMIT_TOKENS_PER_DAY` */
+  tokensPerDay?: number;
+}
+
+/** An authenticated API key with its resolved limits */
+export interface ApiKey {
+  /** Stable identifier (hash of the key) used to address the rate limiter */
+  id: string;
+  /** Human-readable name, if configured */
+  name?: string;
+  rpm: number;
+  /** `0` means unlimited */
+  tokensPerDay: number;
+}
+
+/** Outcome of a rate-limit check */
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Which budget was exhausted, when not allowed */
+  reason?: 'requests' | 'tokens';
+  limit: number;
+  remaining: number;
+  /** Unix time (seconds) when the request window resets */
+  reset: number;
+  /** Seconds until the exhausted budget resets */
+  retryAfter: number;
+  tokensLimit: number;
+  tokensRemaining: number;
+}
+
+/** Request accumulator so handlers can report tokens spent */
+export interface Usage {
+  tokens: number;
+  /** Settles once a streamed response has finished spending tokens */
+  settled?: Promise<void>;
+}
+
+// ---------------------------------------------------------------------------
+// Key lookup
+// ---------------------------------------------------------------------------
+
+/** Read the API key from `Authorization: Bearer` or `X-API-Key` */
+export function extractApiKey(request: Request): string | null {
+  const auth = request.headers.get('authorization');
+  const bearer = auth?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+  return bearer || request.headers.get('x-api-key')?.trim() || null;
+}
+
+/** Hex-encoded SHA-256 digest of a key */
+async function hashKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Parse the `API_KEYS` secret.
+ *
+ * Accepts a JSON object (`{ "key": { "name": "...", "rpm": 60, "tokensPerDay": 100000 } }`)
+ * or a comma-separated list of keys that all use the default limits.
+ */
+function parseKeySecret(raw: string): Record<string, KeyLimits> {
+  const trimmed = raw.trim();
+  if (trimmed.startsWith('{')) {
+    try {
+      return JSON.parse(trimmed) as Record<string, KeyLimits>;
+    } catch {
+      console.log('API_KEYS is not valid JSON; no keys loaded');
+      return {};
+    }
+  }
+  return Object.fromEntries(
+    trimmed
+      .split(',')
+      .map((s) => s.trim())
+      .filter(Boolean)
+      .map((key) => [key, {}]),
+  );
+}
+
+/** Find the limits configured for a key, or `null` if the key is unknown */
+async function lookupKey(key: string, env: Env): Promise<KeyLimits | null> {
+  if (env.API_KEYS) {
+    const keys = parseKeySecret(env.API_KEYS);
+    if (Object.hasOwn(keys, key)) return keys[key] ?? {};
+  }
+
+  if (env.API_KEYS_KV) {
+    const value = await env.API_KEYS_KV.get(key);
+    if (value !== null) {
+      try {
+        return value ? (JSON.parse(value) as KeyLimits) : {};
+      } catch {
+        return {};
+      }
+    }
+  }
+
+  return null;
+}
+
+/** A key's daily token budget: an explicit `0` is kept (unlimited); missing or invalid values use the default */
+function keyTokensPerDay(limits: KeyLimits, env: Env): number {
+  if (limits.tokensPerDay === undefined || limits.tokensPerDay === null) return defaultTokensPerDay(env);
+  const tokens = Number(limits.tokensPerDay);
+  return Number.isFinite(tokens) && tokens >= 0 ? tokens : defaultTokensPerDay(env);
+}
+
+/**
+ * Authenticate a request.
+ *
+ * Returns the resolved key, or `null` when the key is missing or unknown.
+ */
+export async function authenticate(request: Request, env: Env): Promise<ApiKey | null> {
+  const key = extractApiKey(request);
+  if (!key) return null;
+
+  const limits = await lookupKey(key, env);
+  if (!limits) return null;
+
+  return {
+    id: await hashKey(key),
+    name: limits.name,
+    rpm: Number(limits.rpm) || defaultRequestsPerMinute(env),
+    tokensPerDay: keyTokensPerDay(limits, env),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Rate limiting
+// ---------------------------------------------------------------------------
+
+/** Count a request against the key's budgets */
+export function checkRateLimit(key: ApiKey, env: Env): Promise<RateLimitResult> {
+  return env.RATE_LIMITER.getByName(key.id).check(key.rpm, key.tokensPerDay);
+}
+
+/** Record Workers AI tokens spent by a key */
+export async function recordTokens(key: Pick<ApiKey, 'id'>, tokens: number, env: Env): Promise<void> {
+  if (tokens > 0) await env.RATE_LIMITER.getByName(key.id).addTokens(tokens);
+}
+
+/** Build `X-RateLimit-*` (and, when limited, `Retry-After`) headers */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(result.reset),
+  };
+  if (result.tokensLimit > 0) {
+    headers['X-RateLimit-Tokens-Limit'] = String(result.tokensLimit);
+    headers['X-RateLimit-Tokens-Remaining'] = String(result.tokensRemaining);
+  }
+  if (!result.allowed) {
+    headers['Retry-After'] = String(result.retryAfter);
+  }
+  return headers;
+}
+
+/** Counter state stored by the rate limiter */
+interface Counters {
+  /** Current minute window (ms since epoch, floored to the minute) */
+  minute: number;
+  requests: number;
+  /** Current day window (UTC date, `YYYY-MM-DD`) */
+  day: string;
+  tokens: number;
+}
+
+/**
+ * Durable Object holding the counters for one API key.
+ *
+ * Uses fixed windows: requests per calendar minute and tokens per UTC day.
+ */
+export class RateLimiter extends DurableObject<Env> {
+  /** Load counters, resetting any window that has rolled over */
+  private async load(now: number): Promise<Counters> {
+    const minute = now - (now % 60_000);
+    const day = new Date(now).toISOString().slice(0, 10);
+    const stored = await this.ctx.storage.get<Counters>('counters');
+
+    return {
+      minute,
+      requests: stored?.minute === minute ? stored.requests : 0,
+      day,
+      tokens: stored?.day === day ? stored.tokens : 0,
+    };
+  }
+
+  /** Check both budgets and count the request if it is allowed */
+  async check(rpm: number, tokensPerDay: number): Promise<RateLimitResult> {
+    const now = Date.now();
+    const counters = await this.load(now);
+
+    const reset = Math.ceil((counters.minute + 60_000) / 1000);
+    const dayReset = Date.parse(`${counters.day}T00:00:00Z`) + 86_400_000;
+    const tokensExhausted = tokensPerDay > 0 && counters.tokens >= tokensPerDay;
+    const requestsExhausted = counters.requests >= rpm;
+
+    const allowed = !tokensExhausted && !requestsExhausted;
+    if (allowed) {
+      counters.requests++;
+      await this.ctx.storage.put('counters', counters);
+    }
+
+    return {
+      allowed,
+      reason: tokensExhausted ? 'tokens' : requestsExhausted ? 'requests' : undefined,
+      limit: rpm,
+      remaining: Math.max(0, rpm - counters.requests),
+      reset,
+      retryAfter: Math.max(1, Math.ceil(((tokensExhausted ? dayReset : reset * 1000) - now) / 1000)),
+      tokensLimit: tokensPerDay,
+      tokensRemaining: Math.max(0, tokensPerDay - counters.tokens),
+    };
+  }
+
+  /** Add tokens to today's usage */
+  async addTokens(tokens: number): Promise<void> {
+    const counters = await this.load(Date.now());
+    counters.tokens += tokens;
+    await this.ctx.storage.put('counters', counters);
+  }
+}
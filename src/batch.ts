@@ -0,0 +1,300 @@
+/**
+ * Batch conversion
+ *
+ * Handles `POST /batch`: converts many URLs and content items in one call.
+ *
+ * Design:
+ *  - Bounded concurrency: URLs are fetched through `robustFetch` a few at a
+ *    time so a large batch does not open hundreds of connections at once.
+ *  - Chunked conversion: prepared documents are sent to `toMarkdown` in
+ *    chunks, since the binding already accepts an array of inputs. Items
+ *    are grouped by their `converter` mode first.
+ *  - Per-item results: every item gets its own `success` flag, so one bad
+ *    URL or failed conversion doesn't fail the whole batch.
+ *  - Per-item fetch settings: `headers`, `cookies`, `userAgent`, `referer`,
+ *    `timeout` and `maxAttempts` apply to that item's URL only.
+ */
+
+import type { Usage } from './auth';
+import { type Chunk, chunkMarkdown, parseChunkOptions, parseOutputMode } from './chunk';
+import { batchChunkSize, batchFetchConcurrency, batchMaxItems } from './config';
+import { type Conversion, type ConverterMode, type ConverterName, convertDocuments, parseConverterMode } from './converters';
+import { errorResponse, jsonResponse } from './cors';
+import { errorMessage, HttpError } from './errors';
+import { parseFetchOverrides } from './fetch';
+import { parseImageMode } from './images';
+import { type PageMetadata, withFrontmatter } from './metadata';
+import { type LoadStrategy, loadFromContent, loadFromUrl, processImages, type SourceDocument, stripFrontmatter } from './pipeline';
+import { cleanMarkdown, parseCleanSteps } from './postprocess';
+import type { UploadResult } from './r2';
+import { parseExtractMode } from './readability';
+import { parseRenderParam } from './render';
+import { loadFromBase64 } from './upload';
+
+/** A single batch input — either a URL or direct content */
+export interface BatchItem {
+  url?: string;
+  content?: string;
+  html?: string;
+  contentType?: string;
+  fileName?: string;
+  /** `base64` when `content` holds base64-encoded bytes */
+  encoding?: string;
+  /** Content selection mode (`main` enables readability extraction) */
+  extract?: string;
+  /** Conversion backend: `auto` (default), `ai` or `local` */
+  converter?: string;
+  /** Load URLs in a headless browser (JavaScript-heavy pages); `false` also skips the SPA shell fallback */
+  render?: boolean;
+  /** With `render`, a CSS selector to wait for instead of network idle */
+  waitFor?: string;
+  /** Markdown post-processing: `true` for the default steps, or a comma-separated list */
+  clean?: boolean | string;
+  /** Prepend the page metadata as YAML frontmatter */
+  frontmatter?: boolean;
+  /** Image proxy mode (`sync` waits for uploads and adds a report) */
+  images?: string;
+  /** `chunks` returns the Markdown split into chunks instead of `markdown` */
+  output?: string;
+  /** Token budget per chunk (defaults to `CHUNK_MAX_TOKENS`) */
+  chunkTokens?: number;
+  /** Tokens repeated between consecutive chunks of a section */
+  chunkOverlap?: number;
+  /** Extra request headers for `url`: an object or `Name: value` strings (see `parseFetchOverrides`) */
+  headers?: Record<string, string> | string[];
+  /** The `Cookie` header for `url`: a string or a name/value object */
+  cookies?: string | Record<string, string>;
+  userAgent?: string;
+  /** Absolute http(s) URL replacing the default `Referer` */
+  referer?: string;
+  /** Fetch timeout (ms), capped by `FETCH_TIMEOUT_LIMIT_MS` */
+  timeout?: number;
+  /** Fetch attempts, capped by `FETCH_ATTEMPTS_LIMIT` */
+  maxAttempts?: number;
+}
+
+/** Per-item outcome, in the same order as the request items */
+export type BatchResult =
+  | {
+      success: true;
+      index: number;
+      url?: string;
+      name: string;
+      mimeType: string;
+      tokens: number;
+      /** Backend that produced the Markdown */
+      converter: ConverterName;
+      extractor: string | null;
+      /** Charset the HTML was decoded from (`null` for non-HTML documents) */
+      charset: string | null;
+      /** How the HTML was obtained (`null` for non-HTML documents) */
+      strategy: LoadStrategy | null;
+      metadata: PageMetadata;
+      images?: UploadResult;
+      markdown?: string;
+      chunks?: Chunk[];
+    }
+  | { success: false; index: number; url?: string; error: string; code?: string };
+
+/** Batch outcome, as returned by `POST /batch` */
+export interface BatchSummary {
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: BatchResult[];
+}
+
+/** A loaded item awaiting conversion */
+interface PendingItem {
+  doc: SourceDocument;
+  index: number;
+}
+
+/** Load one batch item into a source document */
+async function loadItem(item: BatchItem, env: Env): Promise<SourceDocument> {
+  const extract = parseExtractMode(item.extract);
+
+  if (item.url) {
+    try {
+      new URL(item.url);
+    } catch {
+      throw new Error('Invalid URL provided.');
+    }
+    return loadFromUrl(item.url, env, {
+      extract,
+      render: parseRenderParam(item.render),
+      waitFor: item.waitFor,
+      fetch: parseFetchOverrides(item, env),
+    });
+  }
+
+  const content = item.content ?? item.html;
+  if (!content) throw new Error('Item must have a "url" or "content".');
+  return item.encoding === 'base64'
+    ? loadFromBase64(content, item.contentType, item.fileName, { extract })
+    : loadFromContent(content, item.contentType, item.fileName, { extract });
+}
+
+/**
+ * Run `fn` over `items` with at most `limit` calls in flight.
+ * Results are returned in input order.
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Convert a list of batch items.
+ *
+ * Loading failures and conversion failures are reported per item; only
+ * unexpected errors outside a single item propagate to the caller.
+ *
+ * @param load - Loads one item into a source document (default: by its URL or content)
+ */
+export async function convertBatch(
+  items: BatchItem[],
+  env: Env,
+  ctx: ExecutionContext,
+  load: (item: BatchItem, index: number) => Promise<SourceDocument> = (item) => loadItem(item, env),
+): Promise<BatchResult[]> {
+  const results = new Array<BatchResult>(items.length);
+
+  // Step 1: Fetch / prepare all items with bounded concurrency
+  const loaded = await mapWithConcurrency(items, batchFetchConcurrency(env), async (item, index) => {
+    try {
+      return await load(item, index);
+    } catch (err) {
+      const code = err instanceof HttpError ? err.code : undefined;
+      results[index] = { success: false, index, url: item.url, error: errorMessage(err), code };
+      return null;
+    }
+  });
+
+  // Group loaded items by converter mode, keeping request order within each group
+  const groups = new Map<ConverterMode, PendingItem[]>();
+  for (const [index, doc] of loaded.entries()) {
+    if (!doc) continue;
+    const mode = parseConverterMode(items[index].converter);
+    groups.set(mode, [...(groups.get(mode) ?? []), { doc, index }]);
+  }
+
+  // Step 2: Convert in chunks of items sharing a converter mode
+  const chunkSize = batchChunkSize(env);
+  const chunks: { mode: ConverterMode; chunk: PendingItem[] }[] = [];
+  for (const [mode, group] of groups) {
+    for (let i = 0; i < group.length; i += chunkSize) chunks.push({ mode, chunk: group.slice(i, i + chunkSize) });
+  }
+
+  for (const { mode, chunk } of chunks) {
+    let responses: Conversion[];
+    try {
+      responses = await convertDocuments(
+        env,
+        chunk.map((p) => p.doc),
+        mode,
+      );
+    } catch (err) {
+      for (const { index } of chunk) {
+        results[index] = { success: false, index, url: items[index].url, error: `Conversion failed: ${errorMessage(err)}` };
+      }
+      continue;
+    }
+
+    for (const [j, { doc, index }] of chunk.entries()) {
+      const url = items[index].url;
+      const result = responses[j];
+
+      if (!result) {
+        results[index] = { success: false, index, url, error: 'Conversion failed: no result returned' };
+      } else if (result.format === 'error') {
+        results[index] = { success: false, index, url, error: `Conversion failed: ${result.error}` };
+      } else {
+        const metadata = doc.metadata ?? {};
+        const cleaned = cleanMarkdown(stripFrontmatter(result.data ?? ''), parseCleanSteps(items[index].clean), url ?? null);
+        const proxied = await processImages(cleaned, doc.html, url ?? null, env, ctx, parseImageMode(items[index].images));
+        results[index] = {
+          success: true,
+          index,
+          url,
+          name: result.name,
+          mimeType: result.mimeType,
+          tokens: result.tokens,
+          converter: result.converter,
+          extractor: doc.extractor ?? null,
+          charset: doc.charset ?? null,
+          strategy: doc.strategy ?? null,
+          metadata,
+          ...(proxied.images && { images: proxied.images }),
+          ...(parseOutputMode(items[index].output) === 'chunks'
+            ? {
+                chunks: chunkMarkdown(
+                  proxied.markdown,
+                  parseChunkOptions(env, items[index].chunkTokens, items[index].chunkOverlap),
+                  url ?? null,
+                ),
+              }
+            : { markdown: items[index].frontmatter ? withFrontmatter(proxied.markdown, metadata, url ?? null) : proxied.markdown }),
+        };
+      }
+    }
+  }
+
+  return results;
+}
+
+/** Count the successes and failures of a batch */
+export function summarizeBatch(results: BatchResult[]): BatchSummary {
+  const succeeded = results.filter((r) => r.success).length;
+  return { total: results.length, succeeded, failed: results.length - succeeded, results };
+}
+
+/** Workers AI tokens spent on a batch */
+export function batchTokens(results: BatchResult[]): number {
+  return results.reduce((sum, r) => sum + (r.success ? r.tokens : 0), 0);
+}
+
+/** Handle a `POST /batch` request */
+export async function handleBatch(request: Request, env: Env, ctx: ExecutionContext, usage: Usage): Promise<Response> {
+  if (request.method !== 'POST') {
+    return errorResponse(env, 'Method not allowed. Use POST for /batch.', 405);
+  }
+
+  let items: BatchItem[];
+  try {
+    const body = (await request.json()) as { items?: BatchItem[] };
+    if (!Array.isArray(body.items) || body.items.some((item) => !item || typeof item !== 'object')) {
+      throw new Error('Invalid items');
+    }
+    items = body.items;
+  } catch {
+    return errorResponse(env, 'Invalid JSON body. Expected: { "items": [{ "url": "https://..." }, { "content": "..." }] }');
+  }
+
+  if (items.length === 0) {
+    return errorResponse(env, 'No items provided.');
+  }
+
+  const maxItems = batchMaxItems(env);
+  if (items.length > maxItems) {
+    return errorResponse(env, `Too many items: ${items.length} (max ${maxItems}).`, 413);
+  }
+
+  try {
+    const results = await convertBatch(items, env, ctx);
+    usage.tokens += batchTokens(results);
+    return jsonResponse(env, { success: true, ...summarizeBatch(results) });
+  } catch (err: unknown) {
+    return errorResponse(env, `Internal error: ${errorMessage(err)}`, 500);
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Conversion cache
+ *
+ * Stores converted Markdown so repeated requests for the same document
+ * skip the upstream fetch and the Workers AI call.
+ *
+ * Design:
+ *  - Backends: a KV namespace (`CACHE_KV`) or the R2 bucket under the
+ *    `cache/` prefix, selected in `config.ts`.
+ *  - Keys: SHA-256 of the normalised URL plus processing options, or of the
+ *    direct content itself.
+ *  - Revalidation: entries are fresh for `CACHE_TTL_HOURS`; after that they
+ *    are kept for another TTL period and revalidated with the upstream
+ *    `ETag` / `Last-Modified` validators before being served again.
+ *  - Markdown is stored before R2 image rewriting, so proxied images are
+ *    re-uploaded when their (shorter) image TTL has expired.
+ */
+
+import { cacheBackend, cacheTtlSeconds } from './config';
+import type { ConverterName } from './converters';
+import { errorMessage } from './errors';
+import type { Validators } from './fetch';
+import type { PageMetadata } from './metadata';
+import type { LoadStrategy } from './pipeline';
+
+/** A cached conversion result */
+export interface CachedConversion {
+  name: string;
+  mimeType: string;
+  tokens: number;
+  /** Backend that produced the Markdown (entries without one came from Workers AI) */
+  converter?: ConverterName;
+  /** Site-specific extractor applied before conversion, if any */
+  extractor?: string;
+  /** Charset the source HTML was decoded from */
+  charset?: string;
+  /** How the source HTML was obtained (`static`, `embedded` or `render`) */
+  strategy?: LoadStrategy;
+  /** Page metadata extracted from the source HTML */
+  metadata?: PageMetadata;
+  /** Markdown before image proxying */
+  markdown: string;
+  /** When the document was converted (ms since epoch) */
+  createdAt: number;
+  /** When the entry was last confirmed fresh (ms since epoch) */
+  validatedAt: number;
+  /** Upstream validators for conditional revalidation */
+  validators?: Validators;
+}
+
+/** Per-request cache behaviour */
+export type CacheMode = 'default' | 'bypass' | 'refresh';
+
+/** Storage abstraction over KV and R2 */
+export interface ConversionCache {
+  get(key: string): Promise<CachedConversion | null>;
+  put(key: string, entry: CachedConversion): Promise<void>;
+}
+
+/** Key prefix for cache objects stored in R2 */
+const R2_PREFIX = 'cache/';
+
+// ---------------------------------------------------------------------------
+// Keys
+// ---------------------------------------------------------------------------
+
+/** Parse the `cache` request parameter */
+export function parseCacheMode(value: string | null | undefined): CacheMode {
+  return value === 'bypass' || value === 'refresh' ? value : 'default';
+}
+
+/** Hex-encoded SHA-256 digest */
+async function sha256(data: string | ArrayBuffer): Promise<string> {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** Serialise options in a stable order, skipping empty values */
+function serializeOptions(options: Record<string, string | undefined>): string {
+  return Object.entries(options)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+}
+
+/**
+ * Normalise a URL for use in a cache key.
+ *
+ * Drops the fragment and sorts query parameters; `new URL` already
+ * lowercases the host and removes default ports.
+ */
+export function normalizeUrl(url: string): string {
+  const parsed = new URL(url);
+  parsed.hash = '';
+  parsed.searchParams.sort();
+  return parsed.toString();
+}
+
+/** Cache key for a URL conversion */
+export async function urlCacheKey(url: string, options: Record<string, string | undefined> = {}): Promise<string> {
+  return `url:${await sha256(`${normalizeUrl(url)}\n${serializeOptions(options)}`)}`;
+}
+
+/** Cache key for a direct-content conversion */
+export async function contentCacheKey(content: string, options: Record<string, string | undefined> = {}): Promise<string> {
+  return `content:${await sha256(`${serializeOptions(options)}\n${content}`)}`;
+}
+
+// ---------------------------------------------------------------------------
+// Freshness
+// ---------------------------------------------------------------------------
+
+/** Whether an entry can be served without revalidation */
+export function isFresh(entry: CachedConversion, env: Env): boolean {
+  return Date.now() - entry.validatedAt < cacheTtlSeconds(env) * 1000;
+}
+
+/** Age of a cached conversion in whole seconds */
+export function cacheAge(entry: CachedConversion): number {
+  return Math.max(0, Math.floor((Date.now() - entry.createdAt) / 1000));
+}
+
+// ---------------------------------------------------------------------------
+// Backends
+// ---------------------------------------------------------------------------
+
+/** KV-backed cache; entries expire after two TTL periods to allow revalidation */
+function kvCache(kv: KVNamespace, ttl: number): ConversionCache {
+  return {
+    get: (key) => kv.get<CachedConversion>(key, 'json'),
+    put: (key, entry) => kv.put(key, JSON.stringify(entry), { expirationTtl: ttl * 2 }),
+  };
+}
+
+/** R2-backed cache; entries carry `expiresAt` metadata like proxied images */
+function r2Cache(bucket: R2Bucket, ttl: number): ConversionCache {
+  return {
+    async get(key) {
+      const object = await bucket.get(`${R2_PREFIX}${key}`);
+      return object ? object.json<CachedConversion>() : null;
+    },
+    async put(key, entry) {
+      await bucket.put(`${R2_PREFIX}${key}`, JSON.stringify(entry), {
+        httpMetadata: { contentType: 'application/json' },
+        customMetadata: { expiresAt: new Date(Date.now() + ttl * 2 * 1000).toISOString() },
+      });
+    },
+  };
+}
+
+/** Wrap a backend so storage errors degrade to cache misses instead of failing the request */
+function resilient(cache: ConversionCache): ConversionCache {
+  return {
+    get: (key) =>
+      cache.get(key).catch((err) => {
+        console.log(`Cache read failed: ${errorMessage(err)}`);
+        return null;
+      }),
+    put: (key, entry) =>
+      cache.put(key, entry).catch((err) => {
+        console.log(`Cache write failed: ${errorMessage(err)}`);
+      }),
+  };
+}
+
+/** Get the configured conversion cache, or `null` when caching is disabled */
+export function getConversionCache(env: Env): ConversionCache | null {
+  const ttl = cacheTtlSeconds(env);
+  switch (cacheBackend(env)) {
+    case 'kv':
+      return env.CACHE_KV ? resilient(kvCache(env.CACHE_KV, ttl)) : null;
+    case 'r2':
+      return env.IMAGES_BUCKET ? resilient(r2Cache(env.IMAGES_BUCKET, ttl)) : null;
+    default:
+      return null;
+  }
+}
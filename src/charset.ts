@@ -0,0 +1,182 @@
+/**
+ * Charset detection
+ *
+ * Decodes fetched and uploaded HTML with its real character encoding, so
+ * GBK, Shift_JIS, EUC-KR, Big5 and Windows-1252 pages don't turn into
+ * mojibake before they reach the extractors and `toMarkdown`.
+ *
+ * Detection order:
+ *  1. `charset` parameter of the `Content-Type` header
+ *  2. Byte order mark
+ *  3. `<meta charset>` / `<meta http-equiv="Content-Type">` in the first 1024 bytes
+ *  4. Heuristic: valid UTF-8, else the legacy encoding whose decoding looks
+ *     most like real text
+ *
+ * Labels are resolved through `TextDecoder`, so aliases such as `gb2312`
+ * or `x-sjis` report their canonical name (`gbk`, `shift_jis`).
+ */
+
+/** Where the charset was found */
+export type CharsetSource = 'header' | 'bom' | 'meta' | 'heuristic';
+
+/** Detected charset (canonical `TextDecoder` encoding name) */
+export interface DetectedCharset {
+  charset: string;
+  source: CharsetSource;
+}
+
+/** Byte order marks, longest first */
+const BOMS: [number[], string][] = [
+  [[0xef, 0xbb, 0xbf], 'utf-8'],
+  [[0xfe, 0xff], 'utf-16be'],
+  [[0xff, 0xfe], 'utf-16le'],
+];
+
+/** Classes of non-ASCII characters seen in CJK text */
+type CharClass = 'ideograph' | 'kana' | 'hangul' | 'punctuation' | 'other';
+
+/**
+ * Legacy multi-byte encodings tried by the heuristic, most common first
+ * (ties go to the earlier one), with the weight of each character class in
+ * a correct decoding. Classes not listed count -1: Japanese text is mostly
+ * kana, Korean mostly hangul, while the wrong table yields stray symbols,
+ * half-width katakana or the wrong script.
+ */
+const CJK_CANDIDATES: [string, Partial<Record<CharClass, number>>][] = [
+  ['gbk', { ideograph: 1, punctuation: 1 }],
+  ['shift_jis', { kana: 2, ideograph: 1, punctuation: 1 }],
+  ['euc-kr', { hangul: 2, punctuation: 1 }],
+  ['big5', { ideograph: 1, punctuation: 1 }],
+];
+
+/** Bytes examined by the heuristic */
+const HEURISTIC_SAMPLE_BYTES = 64 * 1024;
+
+/** Bytes scanned for a `<meta>` charset declaration (as in the HTML prescan) */
+const META_SCAN_BYTES = 1024;
+
+/** Charset declared in a `<meta charset>` or `http-equiv` content attribute */
+const META_CHARSET_RE = /<meta\b[^>]*?\bcharset\s*=\s*["']?\s*([\w.:-]+)/i;
+
+/** Resolve a charset label to its canonical encoding name, or `null` when unsupported */
+function resolveLabel(label: string | null | undefined): string | null {
+  if (!label) return null;
+  try {
+    return new TextDecoder(label.trim()).encoding;
+  } catch {
+    return null;
+  }
+}
+
+function fromHeader(contentType: string | null): string | null {
+  const label = contentType?.match(/;\s*charset\s*=\s*["']?([^"';\s]+)/i)?.[1];
+  return resolveLabel(label);
+}
+
+function fromBom(bytes: Uint8Array): string | null {
+  const bom = BOMS.find(([signature]) => signature.every((byte, i) => bytes[i] === byte));
+  return bom ? bom[1] : null;
+}
+
+function fromMeta(bytes: Uint8Array): string | null {
+  // The prescan reads bytes as ASCII; any ASCII-compatible encoding works
+  const head = String.fromCharCode(...bytes.subarray(0, META_SCAN_BYTES));
+  const charset = resolveLabel(head.match(META_CHARSET_RE)?.[1]);
+  // A UTF-16 declaration in an ASCII-compatible document is wrong by definition
+  return charset?.startsWith('utf-16') ? 'utf-8' : charset;
+}
+
+/** Decode strictly, returning `null` on any invalid sequence */
+function tryDecode(bytes: Uint8Array, charset: string): string | null {
+  try {
+    return new TextDecoder(charset, { fatal: true, ignoreBOM: false }).decode(bytes);
+  } catch {
+    return null;
+  }
+}
+
+function charClass(code: number): CharClass {
+  if (code >= 0x4e00 && code <= 0x9fff) return 'ideograph';
+  if (code >= 0x3040 && code <= 0x30ff) return 'kana';
+  if (code >= 0xac00 && code <= 0xd7af) return 'hangul';
+  // CJK symbols and full-width forms (not half-width katakana)
+  if ((code >= 0x3000 && code <= 0x303f) || (code >= 0xff01 && code <= 0xff5e)) return 'punctuation';
+  return 'other';
+}
+
+/** Score a CJK decoding with the candidate's character class weights */
+function scoreCjk(text: string, weights: Partial<Record<CharClass, number>>): number {
+  let score = 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (code >= 0x80) score += weights[charClass(code)] ?? -1;
+  }
+  return score;
+}
+
+/**
+ * Score a single-byte (Windows-1252) decoding: accented letters and
+ * punctuation next to ASCII letters are plausible; long runs of non-ASCII
+ * characters are a multi-byte encoding read byte by byte.
+ */
+function scoreLatin(text: string): number {
+  let score = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) < 0x80) continue;
+    score += /[a-z]/i.test(text[i - 1] ?? '') || /[a-z]/i.test(text[i + 1] ?? '') ? 1 : -1;
+  }
+  return score;
+}
+
+/** Guess the charset of undeclared bytes */
+function guess(bytes: Uint8Array): string {
+  const sample = bytes.subarray(0, HEURISTIC_SAMPLE_BYTES);
+  // Cutting the sample may split a multi-byte character; drop a few trailing bytes before the strict decode
+  const strict = sample.length < bytes.length ? sample.subarray(0, sample.length - 4) : sample;
+
+  if (!strict.some((byte) => byte >= 0x80)) return 'utf-8';
+  if (tryDecode(strict, 'utf-8') !== null) return 'utf-8';
+
+  let best = 'windows-1252';
+  let bestScore = scoreLatin(new TextDecoder('windows-1252').decode(sample));
+  for (const [charset, weights] of CJK_CANDIDATES) {
+    const text = tryDecode(strict, charset);
+    if (text === null) continue;
+    const score = scoreCjk(text, weights);
+    if (score > bestScore) {
+      best = charset;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Detect the charset of an HTML document.
+ *
+ * @param contentType - `Content-Type` header of the response, if any
+ */
+export function detectCharset(data: ArrayBuffer | Uint8Array, contentType: string | null = null): DetectedCharset {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+
+  const header = fromHeader(contentType);
+  if (header) return { charset: header, source: 'header' };
+
+  const bom = fromBom(bytes);
+  if (bom) return { charset: bom, source: 'bom' };
+
+  const meta = fromMeta(bytes);
+  if (meta) return { charset: meta, source: 'meta' };
+
+  return { charset: guess(bytes), source: 'heuristic' };
+}
+
+/**
+ * Decode an HTML document with its detected charset.
+ *
+ * @returns The text (without a BOM) and the charset used
+ */
+export function decodeHtml(data: ArrayBuffer | Uint8Array, contentType: string | null = null): { text: string; charset: string } {
+  const { charset } = detectCharset(data, contentType);
+  return { text: new TextDecoder(charset).decode(data), charset };
+}
@@ -0,0 +1,270 @@
+/**
+ * Chunked output
+ *
+ * Splits converted Markdown into retrieval-sized chunks for RAG ingestion
+ * (`output=chunks`).
+ *
+ * Design:
+ *  - Sections are cut at ATX headings (outside fenced code); each section
+ *    that fits the token budget becomes one chunk
+ *  - Oversized sections fall back to paragraphs, then sentences, then a hard
+ *    split; the pieces are packed greedily back up to the budget
+ *  - Fenced code blocks are kept whole unless they alone exceed the budget
+ *  - Overlap repeats the tail of the previous chunk, only between chunks of
+ *    the same section; it counts towards the budget
+ *  - Offsets are character offsets into the (post-processed) Markdown body,
+ *    without frontmatter: `markdown.slice(start, end) === text`
+ */
+
+import { chunkMaxTokens } from './config';
+import { FENCE_RE } from './postprocess';
+
+export type OutputMode = 'markdown' | 'chunks';
+
+/** Smallest and largest accepted `chunkTokens` values */
+const MIN_CHUNK_TOKENS = 32;
+const MAX_CHUNK_TOKENS = 8192;
+
+/** ATX heading line: level and text (trailing `#`s removed) */
+const HEADING_RE = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+
+/** Sentence terminators: Latin punctuation before whitespace, CJK punctuation, or a line break */
+const SENTENCE_END_RE = /[.!?]+["'”’)\]]*(?=\s)|[。！？；]+["'”’」』)\]]*|\n/g;
+
+/** Chunking options */
+export interface ChunkOptions {
+  /** Token budget per chunk */
+  maxTokens: number;
+  /** Tokens repeated from the previous chunk of the same section */
+  overlap: number;
+}
+
+/** A chunk of the converted Markdown */
+export interface Chunk {
+  index: number;
+  /** Headings leading to this chunk, outermost first */
+  headings: string[];
+  /** Start offset in the Markdown (inclusive) */
+  start: number;
+  /** End offset in the Markdown (exclusive) */
+  end: number;
+  /** Approximate token count */
+  tokens: number;
+  /** Source URL (`null` for direct content and uploads) */
+  url: string | null;
+  text: string;
+}
+
+interface Range {
+  start: number;
+  end: number;
+}
+
+/** Parse the `output` request parameter */
+export function parseOutputMode(value: string | null | undefined): OutputMode {
+  return value === 'chunks' ? 'chunks' : 'markdown';
+}
+
+/**
+ * Parse the `chunkTokens` / `chunkOverlap` request parameters.
+ *
+ * The budget defaults to `CHUNK_MAX_TOKENS`; overlap is capped at half the budget.
+ */
+export function parseChunkOptions(env: Env, maxTokens: unknown, overlap: unknown): ChunkOptions {
+  const max = Math.min(Math.max(Math.floor(Number(maxTokens)) || chunkMaxTokens(env), MIN_CHUNK_TOKENS), MAX_CHUNK_TOKENS);
+  return { maxTokens: max, overlap: Math.min(Math.max(Math.floor(Number(overlap)) || 0, 0), Math.floor(max / 2)) };
+}
+
+// ---------------------------------------------------------------------------
+// Token estimation
+// ---------------------------------------------------------------------------
+
+/** Approximate tokens for one character: CJK characters count as one, other text as ~4 characters per token */
+function charTokens(code: number): number {
+  const cjk =
+    (code >= 0x3000 && code <= 0x9fff) ||
+    (code >= 0xac00 && code <= 0xd7af) ||
+    (code >= 0xf900 && code <= 0xfaff) ||
+    (code >= 0xff00 && code <= 0xffef);
+  return cjk ? 1 : 0.25;
+}
+
+/** Approximate token count of a piece of text */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (let i = 0; i < text.length; i++) tokens += charTokens(text.charCodeAt(i));
+  return Math.ceil(tokens);
+}
+
+// ---------------------------------------------------------------------------
+// Splitting
+// ---------------------------------------------------------------------------
+
+/** Shrink a range to exclude surrounding whitespace (`null` if nothing is left) */
+function trimRange(markdown: string, start: number, end: number): Range | null {
+  while (start < end && /\s/.test(markdown[start])) start++;
+  while (end > start && /\s/.test(markdown[end - 1])) end--;
+  return start < end ? { start, end } : null;
+}
+
+/** Split Markdown into heading sections, each with its heading path */
+function splitSections(markdown: string): (Range & { headings: string[]; body: boolean })[] {
+  const sections: (Range & { headings: string[]; body: boolean })[] = [];
+  const stack: { level: number; text: string }[] = [];
+  let current = { start: 0, headings: [] as string[], body: false };
+  let fence: string | null = null;
+  let offset = 0;
+
+  const close = (end: number) => {
+    const range = trimRange(markdown, current.start, end);
+    if (range) sections.push({ ...range, headings: current.headings, body: current.body });
+  };
+
+  for (const line of markdown.split('\n')) {
+    const marker = line.match(FENCE_RE)?.[1];
+    const heading = fence === null && !marker ? line.match(HEADING_RE) : null;
+
+    if (heading) {
+      close(offset);
+      const level = heading[1].length;
+      while (stack.length > 0 && stack[stack.length - 1].level >= level) stack.pop();
+      stack.push({ level, text: (heading[2] ?? '').trim() });
+      current = { start: offset, headings: stack.map((h) => h.text).filter(Boolean), body: false };
+    } else {
+      if (fence === null && marker) fence = marker;
+      else if (fence !== null && marker && marker[0] === fence[0] && marker.length >= fence.length && line.trim() === marker) fence = null;
+      if (line.trim()) current.body = true;
+    }
+    offset += line.length + 1;
+  }
+  close(markdown.length);
+
+  return sections;
+}
+
+/** Split a range into paragraphs at blank lines, keeping fenced code blocks whole */
+function splitParagraphs(markdown: string, range: Range): Range[] {
+  const paragraphs: Range[] = [];
+  let start = range.start;
+  let fence: string | null = null;
+  let offset = range.start;
+
+  for (const line of markdown.slice(range.start, range.end).split('\n')) {
+    const marker = line.match(FENCE_RE)?.[1];
+    if (fence === null && marker) fence = marker;
+    else if (fence !== null && marker && marker[0] === fence[0] && marker.length >= fence.length && line.trim() === marker) fence = null;
+    else if (fence === null && !line.trim()) {
+      const paragraph = trimRange(markdown, start, offset);
+      if (paragraph) paragraphs.push(paragraph);
+      start = offset;
+    }
+    offset += line.length + 1;
+  }
+  const last = trimRange(markdown, start, range.end);
+  if (last) paragraphs.push(last);
+
+  return paragraphs;
+}
+
+/** Split a range into sentences */
+function splitSentences(markdown: string, range: Range): Range[] {
+  const sentences: Range[] = [];
+  const text = markdown.slice(range.start, range.end);
+  let start = 0;
+
+  for (const m of text.matchAll(SENTENCE_END_RE)) {
+    const end = (m.index ?? 0) + m[0].length;
+    const sentence = trimRange(markdown, range.start + start, range.start + end);
+    if (sentence) sentences.push(sentence);
+    start = end;
+  }
+  const last = trimRange(markdown, range.start + start, range.end);
+  if (last) sentences.push(last);
+
+  return sentences;
+}
+
+/** Split a range into pieces of at most `maxTokens`, preferring to break at whitespace */
+function splitHard(markdown: string, range: Range, maxTokens: number): Range[] {
+  const pieces: Range[] = [];
+  let start = range.start;
+  let tokens = 0;
+  let lastSpace = -1;
+
+  for (let i = range.start; i < range.end; i++) {
+    tokens += charTokens(markdown.charCodeAt(i));
+    if (/\s/.test(markdown[i])) lastSpace = i;
+    if (tokens > maxTokens) {
+      const cut = lastSpace > start ? lastSpace : i;
+      const piece = trimRange(markdown, start, cut);
+      if (piece) pieces.push(piece);
+      start = cut;
+      i = cut - 1;
+      tokens = 0;
+      lastSpace = -1;
+    }
+  }
+  const last = trimRange(markdown, start, range.end);
+  if (last) pieces.push(last);
+
+  return pieces;
+}
+
+/** Split a range to fit the budget: paragraphs, then sentences, then a hard split */
+function splitRange(markdown: string, range: Range, maxTokens: number, depth = 0): Range[] {
+  if (estimateTokens(markdown.slice(range.start, range.end)) <= maxTokens) return [range];
+  if (depth >= 2) return splitHard(markdown, range, maxTokens);
+
+  const parts = depth === 0 ? splitParagraphs(markdown, range) : splitSentences(markdown, range);
+  // A paragraph that doesn't split further moves straight on to the next strategy
+  if (parts.length <= 1) return splitRange(markdown, range, maxTokens, depth + 1);
+
+  const pieces = parts.flatMap((part) => splitRange(markdown, part, maxTokens, depth + 1));
+
+  // Pack consecutive pieces back together up to the budget
+  const packed: Range[] = [];
+  for (const piece of pieces) {
+    const previous = packed[packed.length - 1];
+    if (previous && estimateTokens(markdown.slice(previous.start, piece.end)) <= maxTokens) previous.end = piece.end;
+    else packed.push({ ...piece });
+  }
+  return packed;
+}
+
+/** Move a chunk start back to include about `overlap` tokens, not crossing `floor` or splitting a word */
+function withOverlap(markdown: string, start: number, overlap: number, floor: number): number {
+  let tokens = 0;
+  let i = start;
+  while (i > floor && tokens < overlap) tokens += charTokens(markdown.charCodeAt(--i));
+  while (i < start && i > floor && !/\s/.test(markdown[i - 1]) && charTokens(markdown.charCodeAt(i)) < 1) i++;
+  return trimRange(markdown, i, start)?.start ?? start;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Split Markdown into chunks under a token budget.
+ *
+ * @param url - Source URL recorded on every chunk
+ */
+export function chunkMarkdown(markdown: string, opts: ChunkOptions, url: string | null = null): Chunk[] {
+  const chunks: Chunk[] = [];
+
+  for (const section of splitSections(markdown)) {
+    // A heading directly followed by a subheading only contributes to the breadcrumbs
+    if (!section.body) continue;
+
+    // Leave room for the overlap when the section has to be split
+    const fits = estimateTokens(markdown.slice(section.start, section.end)) <= opts.maxTokens;
+    const pieces = splitRange(markdown, section, fits ? opts.maxTokens : opts.maxTokens - opts.overlap);
+    for (const [i, piece] of pieces.entries()) {
+      const start = i > 0 && opts.overlap > 0 ? withOverlap(markdown, piece.start, opts.overlap, pieces[i - 1].start) : piece.start;
+      const text = markdown.slice(start, piece.end);
+      chunks.push({ index: chunks.length, headings: section.headings, start, end: piece.end, tokens: estimateTokens(text), url, text });
+    }
+  }
+
+  return chunks;
+}
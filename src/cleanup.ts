@@ -0,0 +1,115 @@
+/**
+ * R2 cleanup
+ *
+ * Deletes objects whose `expiresAt` custom metadata has passed: mirrored
+ * images (see `r2.ts`) and, with the R2 cache backend, cached conversions.
+ *
+ * Runs on the worker's cron trigger and can be started manually (or as a
+ * dry run) through `POST /admin/cleanup`, protected by the `ADMIN_TOKEN`
+ * secret.
+ */
+
+import { errorResponse, jsonResponse } from './cors';
+import { errorMessage } from './errors';
+
+/** Objects listed (and deleted) per round trip; R2 caps both at 1000 */
+const PAGE_SIZE = 1000;
+
+/** Cleanup statistics, in the same shape as the upload stats */
+export interface CleanupStats {
+  /** Expired objects deleted (or, in a dry run, that would be deleted) */
+  deleted: number;
+  /** Objects that have not expired or carry no `expiresAt` */
+  skipped: number;
+  /** Expired objects that could not be deleted */
+  failed: number;
+}
+
+/**
+ * Page through a bucket and delete expired objects in batches.
+ *
+ * @param dryRun - Count expired objects without deleting them
+ */
+export async function sweepExpiredObjects(bucket: R2Bucket, dryRun = false): Promise<CleanupStats> {
+  const stats: CleanupStats = { deleted: 0, skipped: 0, failed: 0 };
+  const now = Date.now();
+  let cursor: string | undefined;
+
+  do {
+    const page = await bucket.list({ limit: PAGE_SIZE, cursor, include: ['customMetadata'] });
+
+    const expired: string[] = [];
+    for (const object of page.objects) {
+      const expiresAt = Date.parse(object.customMetadata?.expiresAt ?? '');
+      if (Number.isNaN(expiresAt) || expiresAt > now) stats.skipped++;
+      else expired.push(object.key);
+    }
+
+    if (expired.length > 0) {
+      if (dryRun) {
+        stats.deleted += expired.length;
+      } else {
+        try {
+          await bucket.delete(expired);
+          stats.deleted += expired.length;
+        } catch (err) {
+          console.log(`R2 delete failed: ${errorMessage(err)}`);
+          stats.failed += expired.length;
+        }
+      }
+    }
+
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+
+  console.log(
+    `R2 cleanup ${dryRun ? '(dry run) ' : ''}complete — deleted: ${stats.deleted}, skipped: ${stats.skipped}, failed: ${stats.failed}`,
+  );
+  return stats;
+}
+
+/** Constant-time comparison of two secrets (via their digests, so lengths don't leak) */
+async function secretsEqual(a: string, b: string): Promise<boolean> {
+  const encoder = new TextEncoder();
+  const [da, db] = await Promise.all([
+    crypto.subtle.digest('SHA-256', encoder.encode(a)),
+    crypto.subtle.digest('SHA-256', encoder.encode(b)),
+  ]);
+  return crypto.subtle.timingSafeEqual(da, db);
+}
+
+/**
+ * Handle `POST /admin/cleanup[?dryRun=true]`.
+ *
+ * Requires `Authorization: Bearer <ADMIN_TOKEN>`; the route does not exist
+ * when `ADMIN_TOKEN` is not configured.
+ */
+export async function handleAdminCleanup(request: Request, env: Env): Promise<Response> {
+  if (!env.ADMIN_TOKEN) {
+    return errorResponse(env, 'Not found.', 404);
+  }
+
+  const token = request.headers
+    .get('authorization')
+    ?.match(/^Bearer\s+(.+)$/i)?.[1]
+    .trim();
+  if (!token || !(await secretsEqual(token, env.ADMIN_TOKEN))) {
+    return errorResponse(env, 'Missing or invalid admin token.', 401);
+  }
+
+  if (request.method !== 'POST') {
+    return errorResponse(env, 'Method not allowed. Use POST for /admin/cleanup.', 405);
+  }
+
+  if (!env.IMAGES_BUCKET) {
+    return errorResponse(env, 'No R2 bucket configured.', 501);
+  }
+
+  const dryRun = new URL(request.url).searchParams.get('dryRun') === 'true';
+  try {
+    const stats = await sweepExpiredObjects(env.IMAGES_BUCKET, dryRun);
+    return jsonResponse(env, { success: true, dryRun, ...stats });
+  } catch (err: unknown) {
+    return errorResponse(env, `Internal error: ${errorMessage(err)}`, 500);
+  }
+}
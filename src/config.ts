@@ -12,7 +12,7 @@
 // Image proxy
 // ---------------------------------------------------------------------------
 
-/** Hostname suffixes allowed for image proxying (comma-separated in env) */
+/** Host patterns allowed for image proxying (comma-separated in env) */
 export function allowedImageHosts(env: Env): string[] {
   const raw = env.IMAGE_PROXY_HOSTS;
   return raw
@@ -20,7 +20,38 @@ export function allowedImageHosts(env: Env): string[] {
         .split(',')
         .map((s) => s.trim())
         .filter(Boolean)
-    : ['qpic.cn'];
+    : ['qpic.cn', 'zhimg.com', 'jianshu.io', 'csdnimg.cn'];
+}
+
+/** Request rules for downloading images from a host */
+export interface ImageHostRule {
+  /** Referer to send; `"page"` uses the source page URL, `""` sends none */
+  referer?: string;
+  /** Extra request headers */
+  headers?: Record<string, string>;
+}
+
+/** Built-in rules for hotlink-protected image hosts */
+const DEFAULT_IMAGE_HOST_RULES: Record<string, ImageHostRule> = {
+  'qpic.cn': { referer: 'https://mp.weixin.qq.com/' },
+  'zhimg.com': { referer: 'https://www.zhihu.com/' },
+  'jianshu.io': { referer: 'https://www.jianshu.com/' },
+  'csdnimg.cn': { referer: 'https://blog.csdn.net/' },
+};
+
+/**
+ * Per-host image download rules, keyed by host pattern.
+ * `IMAGE_HOST_RULES` (JSON) is merged over the built-in rules; hosts without
+ * a rule are requested with the source page as Referer.
+ */
+export function imageHostRules(env: Env): Record<string, ImageHostRule> {
+  if (!env.IMAGE_HOST_RULES) return DEFAULT_IMAGE_HOST_RULES;
+  try {
+    return { ...DEFAULT_IMAGE_HOST_RULES, ...(JSON.parse(env.IMAGE_HOST_RULES) as Record<string, ImageHostRule>) };
+  } catch {
+    console.log('Invalid IMAGE_HOST_RULES JSON; using built-in rules');
+    return DEFAULT_IMAGE_HOST_RULES;
+  }
 }
 
 /** TTL for cached images in milliseconds */
@@ -34,6 +65,33 @@ export function imageUploadConcurrency(env: Env): number {
   return Number(env.IMAGE_UPLOAD_CONCURRENCY) || 5;
 }
 
+/** How long `images=proxy` waits for image downloads before responding (ms) */
+export function imageProxyWaitMs(env: Env): number {
+  return Number(env.IMAGE_PROXY_WAIT_MS) || 2000;
+}
+
+/** Max size of a single image embedded with `images=inline` (bytes) */
+export function imageInlineMaxBytes(env: Env): number {
+  const kb = Number(env.IMAGE_INLINE_MAX_KB) || 512;
+  return kb * 1024;
+}
+
+/** Max total size of the images embedded into one document with `images=inline` (bytes) */
+export function imageInlineMaxTotalBytes(env: Env): number {
+  const kb = Number(env.IMAGE_INLINE_MAX_TOTAL_KB) || 2048;
+  return kb * 1024;
+}
+
+/** Max number of images embedded into one document with `images=inline` */
+export function imageInlineMaxCount(env: Env): number {
+  return Number(env.IMAGE_INLINE_MAX_COUNT) || 20;
+}
+
+/** Default token budget per chunk for `output=chunks` */
+export function chunkMaxTokens(env: Env): number {
+  return Number(env.CHUNK_MAX_TOKENS) || 512;
+}
+
 /** Cache-Control max-age for R2 objects (seconds) */
 export function imageCacheMaxAge(env: Env): number {
   const hours = Number(env.IMAGE_TTL_HOURS) || 8;
@@ -54,6 +112,206 @@ export function fetchMaxAttempts(env: Env): number {
   return Number(env.FETCH_MAX_ATTEMPTS) || 3;
 }
 
+/** Max redirects followed per fetch; every hop is checked against the URL policy */
+export function fetchMaxRedirects(env: Env): number {
+  return Number(env.FETCH_MAX_REDIRECTS) || 5;
+}
+
+/** Max response body size in bytes; larger responses are aborted */
+export function fetchMaxBytes(env: Env): number {
+  const mb = Number(env.FETCH_MAX_MB) || 20;
+  return mb * 1024 * 1024;
+}
+
+/** Upper bound for a caller-supplied `timeout` (ms) */
+export function fetchTimeoutLimit(env: Env): number {
+  return Number(env.FETCH_TIMEOUT_LIMIT_MS) || 60_000;
+}
+
+/** Upper bound for a caller-supplied `maxAttempts` */
+export function fetchAttemptsLimit(env: Env): number {
+  return Number(env.FETCH_ATTEMPTS_LIMIT) || 5;
+}
+
+/**
+ * Request headers callers can never set, lowercased; `prefix-*` entries match a prefix.
+ * Hop-by-hop, routing and conditional headers are always denied; `FETCH_DENY_HEADERS` adds to them.
+ */
+export function fetchDenyHeaders(env: Env): string[] {
+  return [
+    'host',
+    'connection',
+    'keep-alive',
+    'upgrade',
+    'te',
+    'trailer',
+    'transfer-encoding',
+    'content-length',
+    'expect',
+    'accept-encoding',
+    'range',
+    'if-*',
+    'forwarded',
+    'via',
+    'x-real-ip',
+    'true-client-ip',
+    'cdn-loop',
+    'x-forwarded-*',
+    'proxy-*',
+    'cf-*',
+    ...list(env.FETCH_DENY_HEADERS),
+  ];
+}
+
+/** Whether pages can be loaded in a browser: explicitly (`render=true`) or as the SPA shell fallback */
+export function renderEnabled(env: Env): boolean {
+  return Boolean(env.BROWSER);
+}
+
+/** Time budget for loading a page in the browser (`render=true`), in milliseconds */
+export function renderTimeout(env: Env): number {
+  return Number(env.RENDER_TIMEOUT_MS) || 30_000;
+}
+
+// ---------------------------------------------------------------------------
+// URL policy
+// ---------------------------------------------------------------------------
+
+/** Split a comma-separated env var into trimmed, non-empty entries */
+function list(raw: string | undefined): string[] {
+  return raw
+    ? raw
+        .split(',')
+        .map((s) => s.trim().toLowerCase())
+        .filter(Boolean)
+    : [];
+}
+
+/** URL schemes allowed for outbound fetches (without the trailing colon) */
+export function urlAllowedSchemes(env: Env): string[] {
+  const schemes = list(env.URL_ALLOWED_SCHEMES);
+  return schemes.length > 0 ? schemes : ['http', 'https'];
+}
+
+/** Host patterns allowed for outbound fetches (empty = any host not denied) */
+export function urlAllowHosts(env: Env): string[] {
+  return list(env.URL_ALLOW_HOSTS);
+}
+
+/** Host patterns that are never fetched */
+export function urlDenyHosts(env: Env): string[] {
+  const raw = env.URL_DENY_HOSTS;
+  return raw === undefined ? ['localhost', '*.localhost', '*.local', '*.internal'] : list(raw);
+}
+
+/** Whether private, loopback and link-local IP literals are blocked (default: true) */
+export function urlBlockPrivateIps(env: Env): boolean {
+  return String(env.URL_BLOCK_PRIVATE_IPS).toLowerCase() !== 'false';
+}
+
+// ---------------------------------------------------------------------------
+// Batch
+// ---------------------------------------------------------------------------
+
+/** Max number of items accepted by a single batch request */
+export function batchMaxItems(env: Env): number {
+  return Number(env.BATCH_MAX_ITEMS) || 50;
+}
+
+/** Max parallel URL fetches per batch request */
+export function batchFetchConcurrency(env: Env): number {
+  return Number(env.BATCH_FETCH_CONCURRENCY) || 5;
+}
+
+/** Number of documents sent to toMarkdown in one call */
+export function batchChunkSize(env: Env): number {
+  return Number(env.BATCH_CHUNK_SIZE) || 10;
+}
+
+// ---------------------------------------------------------------------------
+// Crawl
+// ---------------------------------------------------------------------------
+
+/** Max pages converted by one crawl */
+export function crawlMaxPages(env: Env): number {
+  return Number(env.CRAWL_MAX_PAGES) || 100;
+}
+
+/** Max link depth followed from the seed page */
+export function crawlMaxDepth(env: Env): number {
+  return Number(env.CRAWL_MAX_DEPTH) || 5;
+}
+
+/** Crawls with more pages than this run as background jobs */
+export function crawlSyncMaxPages(env: Env): number {
+  return Number(env.CRAWL_SYNC_MAX_PAGES) || 10;
+}
+
+// ---------------------------------------------------------------------------
+// Feeds
+// ---------------------------------------------------------------------------
+
+/** Max linked entries converted by one `expand=true` feed request */
+export function feedMaxItems(env: Env): number {
+  return Number(env.FEED_MAX_ITEMS) || 20;
+}
+
+// ---------------------------------------------------------------------------
+// Jobs
+// ---------------------------------------------------------------------------
+
+/** Whether the asynchronous job API is enabled (needs the `JOBS_QUEUE` binding and the R2 bucket) */
+export function jobsEnabled(env: Env): boolean {
+  return Boolean(env.JOBS_QUEUE && env.IMAGES_BUCKET);
+}
+
+/** How long job state, input and results are kept after submission (seconds) */
+export function jobTtlSeconds(env: Env): number {
+  const hours = Number(env.JOB_TTL_HOURS) || 24;
+  return hours * 60 * 60;
+}
+
+// ---------------------------------------------------------------------------
+// Conversion cache
+// ---------------------------------------------------------------------------
+
+/**
+ * Storage backend for cached conversions.
+ *
+ * `CACHE_BACKEND` may be "kv", "r2" or "none"; when unset, the cache is
+ * enabled automatically if a `CACHE_KV` namespace is bound.
+ */
+export function cacheBackend(env: Env): 'kv' | 'r2' | 'none' {
+  const raw = env.CACHE_BACKEND?.trim().toLowerCase();
+  if (raw === 'kv' || raw === 'r2' || raw === 'none') return raw;
+  return env.CACHE_KV ? 'kv' : 'none';
+}
+
+/** How long a cached conversion is served without revalidation (seconds) */
+export function cacheTtlSeconds(env: Env): number {
+  const hours = Number(env.CACHE_TTL_HOURS) || 24;
+  return hours * 60 * 60;
+}
+
+// ---------------------------------------------------------------------------
+// Authentication & rate limiting
+// ---------------------------------------------------------------------------
+
+/** Whether API-key authentication is enabled (keys configured via secret or KV) */
+export function authEnabled(env: Env): boolean {
+  return Boolean(env.API_KEYS || env.API_KEYS_KV);
+}
+
+/** Default requests per minute for keys without their own limit */
+export function defaultRequestsPerMinute(env: Env): number {
+  return Number(env.RATE_LIMIT_RPM) || 60;
+}
+
+/** Default Workers AI tokens per day for keys without their own limit (0 = unlimited) */
+export function defaultTokensPerDay(env: Env): number {
+  return Number(env.RATE_LIMIT_TOKENS_PER_DAY) || 0;
+}
+
 // ---------------------------------------------------------------------------
 // CORS
 // ---------------------------------------------------------------------------
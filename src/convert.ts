@@ -0,0 +1,525 @@
+/**
+ * Single conversion
+ *
+ * Handles the main `GET /` and `POST /` API: one URL, one piece of direct
+ * content (text or base64), or one or more uploaded files. Sitemaps and
+ * feeds are answered with their entries (see `feeds.ts`).
+ */
+
+import type { Usage } from './auth';
+import { type CachedConversion, cacheAge, contentCacheKey, getConversionCache, isFresh, parseCacheMode, urlCacheKey } from './cache';
+import { type ChunkOptions, chunkMarkdown, type OutputMode, parseChunkOptions, parseOutputMode } from './chunk';
+import { convertDocuments, parseConverterMode } from './converters';
+import { errorResponse, jsonResponse, ndjsonResponse, textResponse } from './cors';
+import { errorMessage, HttpError } from './errors';
+import { type Feed, type FeedSelection, feedDigest, parseFeedLimit, parseFeedMode, selectEntries } from './feeds';
+import { type FetchOverrideInput, hasRequestIdentity, parseFetchOverrides } from './fetch';
+import { parseResponseFormat, type ResponseFormat, renderMarkdown } from './formats';
+import { type ImageMode, parseImageMode } from './images';
+import { withFrontmatter } from './metadata';
+import { loadFromContent, loadFromUrl, processImages, revalidateUrl, type SourceDocument, stripFrontmatter } from './pipeline';
+import { assertUrlAllowed } from './policy';
+import { type CleanStep, cleanMarkdown, parseCleanSteps } from './postprocess';
+import { parseExtractMode } from './readability';
+import { parseRenderParam } from './render';
+import { type ProgressListener, parseStreamMode, streamResponse } from './stream';
+import { isUploadRequest, loadFromBase64, readParameters, readUploads } from './upload';
+
+/**
+ * Build the response for a single converted document.
+ *
+ * @param cached      - Whether the result came from the cache (`null` when caching is disabled)
+ * @param clean       - Markdown post-processing steps
+ * @param frontmatter - Prepend the metadata as YAML frontmatter
+ * @param images      - Image proxy mode (`sync` adds an upload report)
+ * @param format      - Response format (`json` envelope, or the Markdown rendered as `raw`, `text`, `html` or `mdast`)
+ * @param output      - `chunks` returns the Markdown split into chunks (NDJSON in any non-JSON format)
+ * @param onProgress  - Receives image upload events (`stream=true`)
+ */
+async function conversionResponse(
+  env: Env,
+  ctx: ExecutionContext,
+  conversion: CachedConversion,
+  html: string,
+  opts: {
+    url: string | null;
+    format: ResponseFormat;
+    cached: boolean | null;
+    clean: CleanStep[];
+    frontmatter: boolean;
+    images: ImageMode;
+    output: OutputMode;
+    chunk: ChunkOptions;
+    onProgress?: ProgressListener;
+  },
+): Promise<Response> {
+  const metadata = conversion.metadata ?? {};
+  const cleaned = cleanMarkdown(conversion.markdown, opts.clean, opts.url);
+  const proxied = await processImages(cleaned, html, opts.url, env, ctx, opts.images, opts.onProgress);
+  const age = opts.cached ? cacheAge(conversion) : 0;
+  const headers: Record<string, string> = opts.cached === null ? {} : { 'X-Cache': opts.cached ? 'HIT' : 'MISS', Age: String(age) };
+
+  // Chunks are cut from the Markdown body; metadata stays in the envelope
+  const chunks = opts.output === 'chunks' ? chunkMarkdown(proxied.markdown, opts.chunk, opts.url) : null;
+  const markdown = opts.frontmatter ? withFrontmatter(proxied.markdown, metadata, opts.url) : proxied.markdown;
+
+  // Return the rendered Markdown (or NDJSON chunks) or JSON envelope
+  if (opts.format !== 'json') {
+    if (chunks) return ndjsonResponse(env, chunks, 200, headers);
+    const rendered = renderMarkdown(markdown, opts.format);
+    return textResponse(env, rendered.body, 200, { ...rendered.headers, ...headers });
+  }
+
+  return jsonResponse(env, {
+    success: true,
+    url: opts.url ?? undefined,
+    name: conversion.name,
+    mimeType: conversion.mimeType,
+    tokens: conversion.tokens,
+    converter: conversion.converter ?? 'ai',
+    extractor: conversion.extractor ?? null,
+    charset: conversion.charset ?? null,
+    strategy: conversion.strategy ?? null,
+    metadata,
+    ...(proxied.images && { images: proxied.images }),
+    ...(opts.cached !== null && { cached: opts.cached, cacheAge: age }),
+    ...(chunks ? { chunks } : { markdown }),
+  });
+}
+
+/**
+ * Build the response for a sitemap or feed.
+ *
+ * @param format - Response format; anything but `json` renders the digest
+ * @param digest - Return the digest in the JSON envelope instead of the list of entries
+ */
+function feedResponse(
+  env: Env,
+  feed: Feed,
+  selection: FeedSelection,
+  opts: { url: string | null; format: ResponseFormat; digest: boolean },
+): Response {
+  if (opts.format !== 'json') {
+    const rendered = renderMarkdown(feedDigest(feed, selection.entries), opts.format);
+    return textResponse(env, rendered.body, 200, rendered.headers);
+  }
+
+  return jsonResponse(env, {
+    success: true,
+    url: opts.url ?? undefined,
+    kind: feed.kind,
+    title: feed.title,
+    link: feed.link,
+    total: selection.total,
+    truncated: selection.truncated,
+    tokens: selection.tokens,
+    ...(opts.digest ? { markdown: feedDigest(feed, selection.entries) } : { entries: selection.entries }),
+  });
+}
+
+/** Handle a `GET /` or `POST /` conversion request */
+export async function handleConvert(request: Request, env: Env, ctx: ExecutionContext, usage: Usage): Promise<Response> {
+  // --- Parse request parameters ---
+  let targetUrl: string | null = null;
+  let directContent: string | null = null;
+  let directContentType: string | null = null;
+  let directFileName: string | null = null;
+  let directEncoding: string | null = null;
+  let uploadRequest = false;
+  let formatParam: string | null = null;
+  let cacheParam: string | null = null;
+  let extractParam: string | null = null;
+  let converterParam: string | null = null;
+  let cleanSteps: CleanStep[] = [];
+  let frontmatter = false;
+  let imageMode: ImageMode = 'proxy';
+  let outputMode: OutputMode = 'markdown';
+  let chunkTokens: unknown = null;
+  let chunkOverlap: unknown = null;
+  let streamParam: string | boolean | null = null;
+  let modeParam: string | null = null;
+  let expand = false;
+  let limitParam: unknown = null;
+  let digest = false;
+  let render: boolean | undefined;
+  let waitFor: string | null = null;
+  let fetchInput: FetchOverrideInput = {};
+
+  if (request.method === 'GET') {
+    const params = new URL(request.url).searchParams;
+    targetUrl = params.get('url');
+    formatParam = params.get('format');
+    cacheParam = params.get('cache');
+    extractParam = params.get('extract');
+    converterParam = params.get('converter');
+    cleanSteps = parseCleanSteps(params.get('clean'));
+    frontmatter = params.get('frontmatter') === 'true';
+    imageMode = parseImageMode(params.get('images'));
+    outputMode = parseOutputMode(params.get('output'));
+    chunkTokens = params.get('chunkTokens');
+    chunkOverlap = params.get('chunkOverlap');
+    streamParam = params.get('stream');
+    modeParam = params.get('mode');
+    expand = params.get('expand') === 'true';
+    limitParam = params.get('limit');
+    digest = params.get('digest') === 'true';
+    render = parseRenderParam(params.get('render'));
+    waitFor = params.get('waitFor');
+    fetchInput = {
+      headers: params.getAll('headers'),
+      cookies: params.get('cookies'),
+      userAgent: params.get('userAgent'),
+      referer: params.get('referer'),
+      timeout: params.get('timeout'),
+      maxAttempts: params.get('maxAttempts'),
+    };
+  } else if (request.method === 'POST' && isUploadRequest(request)) {
+    // Multipart or raw binary body — read during conversion below; only query parameters can select streaming
+    uploadRequest = true;
+    streamParam = new URL(request.url).searchParams.get('stream');
+  } else if (request.method === 'POST') {
+    try {
+      const body = (await readParameters(request)) as {
+        url?: string;
+        content?: string;
+        html?: string;
+        contentType?: string;
+        fileName?: string;
+        encoding?: string;
+        format?: string;
+        cache?: string;
+        extract?: string;
+        converter?: string;
+        clean?: boolean | string;
+        frontmatter?: boolean | string;
+        images?: string;
+        output?: string;
+        chunkTokens?: number | string;
+        chunkOverlap?: number | string;
+        stream?: boolean | string;
+        mode?: string;
+        expand?: boolean | string;
+        limit?: number | string;
+        digest?: boolean | string;
+        render?: boolean | string;
+        waitFor?: string;
+      } & FetchOverrideInput;
+      targetUrl = body.url ?? null;
+      // Support both 'content' and 'html' for direct content
+      directContent = body.content ?? body.html ?? null;
+      directContentType = body.contentType ?? null;
+      directFileName = body.fileName ?? null;
+      directEncoding = body.encoding ?? null;
+      formatParam = body.format ?? null;
+      cacheParam = body.cache ?? null;
+      extractParam = body.extract ?? null;
+      converterParam = body.converter ?? null;
+      cleanSteps = parseCleanSteps(body.clean);
+      frontmatter = body.frontmatter === true || body.frontmatter === 'true';
+      imageMode = parseImageMode(body.images);
+      outputMode = parseOutputMode(body.output);
+      chunkTokens = body.chunkTokens;
+      chunkOverlap = body.chunkOverlap;
+      streamParam = body.stream ?? null;
+      modeParam = body.mode ?? null;
+      expand = body.expand === true || body.expand === 'true';
+      limitParam = body.limit;
+      digest = body.digest === true || body.digest === 'true';
+      render = parseRenderParam(body.render);
+      waitFor = body.waitFor ?? null;
+      const { headers, cookies, userAgent, referer, timeout, maxAttempts } = body;
+      fetchInput = { headers, cookies, userAgent, referer, timeout, maxAttempts };
+    } catch (err) {
+      return errorResponse(
+        env,
+        err instanceof HttpError ? err.message : 'Invalid JSON body. Expected: { "url": "https://..." } or { "content": "..." }',
+      );
+    }
+  } else {
+    return errorResponse(env, 'Method not allowed. Use GET or POST.', 405);
+  }
+
+  // No URL or content provided — return usage info
+  if (!targetUrl && !directContent && !uploadRequest) {
+    return jsonResponse(env, {
+      success: true,
+      message: 'Anything-MD API — Convert any URL or content to Markdown',
+      usage: {
+        GET: '/?url=https://example.com',
+        GET_MAIN: '/?url=https://example.com&extract=main',
+        GET_CONVERTER: '/?url=https://example.com&converter=auto|ai|local',
+        GET_RENDER: '/?url=https://example.com&render=true|false&waitFor=%23app',
+        GET_HEADERS: '/?url=https://example.com&headers=Authorization:%20Bearer%20...&cookies=session%3Dabc&userAgent=...&timeout=30000',
+        GET_CLEAN: '/?url=https://example.com&clean=true',
+        GET_FORMAT: '/?url=https://example.com&format=json|raw|text|html|mdast',
+        GET_FRONTMATTER: '/?url=https://example.com&format=raw&frontmatter=true',
+        GET_CHUNKS: '/?url=https://example.com&output=chunks&chunkTokens=512&chunkOverlap=64',
+        GET_STREAM: '/?url=https://example.com&stream=true|sse|ndjson',
+        GET_IMAGES: '/?url=https://example.com&images=proxy|sync|keep|inline|strip',
+        GET_FEED: '/?url=https://example.com/feed.xml&mode=auto|feed|document&expand=true&limit=10&digest=true',
+        POST_URL: '{ "url": "https://example.com" }',
+        POST_CONTENT: '{ "content": "<html>...</html>", "contentType": "text/html", "fileName": "page.html" }',
+        POST_HTML: '{ "html": "<html>...</html>" }',
+        POST_BASE64: '{ "content": "JVBERi0...", "encoding": "base64", "contentType": "application/pdf", "fileName": "doc.pdf" }',
+        POST_UPLOAD: 'multipart/form-data with one or more "file" fields, or a raw body with its Content-Type',
+        POST_BATCH: '/batch { "items": [{ "url": "https://example.com" }, { "content": "<html>...</html>" }] }',
+        POST_CRAWL: '/crawl { "url": "https://example.com/docs/", "maxDepth": 2, "maxPages": 20, "include": ["/docs/"] }',
+        POST_JOB: '/jobs { "url": "https://example.com", "webhook": "https://..." } → GET or DELETE /jobs/:id',
+      },
+    });
+  }
+
+  // Validate URL format if URL is provided
+  if (targetUrl) {
+    try {
+      new URL(targetUrl);
+    } catch {
+      return errorResponse(env, 'Invalid URL provided.');
+    }
+  }
+
+  const extract = parseExtractMode(extractParam);
+  let converter = parseConverterMode(converterParam);
+  const feedMode = parseFeedMode(modeParam);
+  const streamMode = parseStreamMode(streamParam, request.headers.get('accept'));
+  // A stream always ends with the JSON envelope as its `result` event
+  let format: ResponseFormat = streamMode ? 'json' : parseResponseFormat(formatParam, request.headers.get('accept'));
+
+  // The conversion itself, run directly or behind an event stream
+  const run = async (emit: ProgressListener | undefined, ctx: ExecutionContext): Promise<Response> => {
+    try {
+      // Reject disallowed URLs before consulting the cache
+      if (targetUrl) {
+        assertUrlAllowed(targetUrl, env);
+      }
+      const overrides = parseFetchOverrides(fetchInput, env);
+
+      // Look up the conversion cache (URL and direct content only)
+      const cache = uploadRequest ? null : getConversionCache(env);
+      // Pages fetched with caller headers or cookies may be private to the caller: never cached
+      const cacheMode = targetUrl && hasRequestIdentity(overrides) ? 'bypass' : parseCacheMode(cacheParam);
+      let cacheKey: string | null = null;
+      let cached: CachedConversion | null = null;
+
+      if (cache && cacheMode !== 'bypass') {
+        const extractOption = extract === 'auto' ? undefined : extract;
+        // `auto` only caches Workers AI output, so it shares entries with `ai`
+        const converterOption = converter === 'local' ? converter : undefined;
+        // Feeds are never cached, so `auto` only ever finds documents
+        const feedOption = feedMode === 'auto' ? undefined : feedMode;
+        const renderOption = render ? (waitFor ?? 'idle') : render === false ? 'off' : undefined;
+        cacheKey = targetUrl
+          ? await urlCacheKey(targetUrl, { extract: extractOption, converter: converterOption, feed: feedOption, render: renderOption })
+          : await contentCacheKey(directContent ?? '', {
+              contentType: directContentType ?? undefined,
+              fileName: directFileName ?? undefined,
+              encoding: directEncoding ?? undefined,
+              extract: extractOption,
+              converter: converterOption,
+              feed: feedOption,
+            });
+        if (cacheMode === 'default') cached = await cache.get(cacheKey);
+      }
+
+      // Direct content never changes for a given hash; URLs are fresh for the TTL
+      if (cached && (!targetUrl || isFresh(cached, env))) {
+        emit?.({ type: 'cache', hit: true });
+        return conversionResponse(env, ctx, cached, '', {
+          url: targetUrl,
+          format,
+          cached: true,
+          clean: cleanSteps,
+          frontmatter,
+          images: imageMode,
+          output: outputMode,
+          chunk: parseChunkOptions(env, chunkTokens, chunkOverlap),
+          onProgress: emit,
+        });
+      }
+
+      let docs: SourceDocument[];
+
+      // Branch 1: Uploaded files (multipart or raw body)
+      if (uploadRequest) {
+        const upload = await readUploads(request);
+        docs = upload.docs;
+        if (!streamMode) format = parseResponseFormat(upload.params.format, request.headers.get('accept'));
+        converter = parseConverterMode(upload.params.converter);
+        cleanSteps = parseCleanSteps(upload.params.clean);
+        frontmatter = upload.params.frontmatter === 'true';
+        imageMode = parseImageMode(upload.params.images);
+        outputMode = parseOutputMode(upload.params.output);
+        chunkTokens = upload.params.chunkTokens;
+        chunkOverlap = upload.params.chunkOverlap;
+      }
+      // Branch 2: Direct content provided (plain text or base64)
+      else if (directContent) {
+        docs = [
+          directEncoding === 'base64'
+            ? loadFromBase64(directContent, directContentType, directFileName, { extract, feed: feedMode })
+            : loadFromContent(directContent, directContentType, directFileName, { extract, feed: feedMode }),
+        ];
+      }
+      // Branch 3: Fetch from URL, revalidating a stale cache entry if there is one
+      else if (targetUrl) {
+        if (cached?.validators && cache && cacheKey) {
+          const doc = await revalidateUrl(targetUrl, env, cached.validators, {
+            extract,
+            feed: feedMode,
+            fetch: overrides,
+            onProgress: emit,
+          });
+          if (!doc) {
+            emit?.({ type: 'cache', hit: true });
+            cached.validatedAt = Date.now();
+            ctx.waitUntil(cache.put(cacheKey, cached));
+            return conversionResponse(env, ctx, cached, '', {
+              url: targetUrl,
+              format,
+              cached: true,
+              clean: cleanSteps,
+              frontmatter,
+              images: imageMode,
+              output: outputMode,
+              chunk: parseChunkOptions(env, chunkTokens, chunkOverlap),
+              onProgress: emit,
+            });
+          }
+          docs = [doc];
+        } else {
+          docs = [await loadFromUrl(targetUrl, env, { extract, feed: feedMode, render, waitFor, fetch: overrides, onProgress: emit })];
+        }
+      } else {
+        return errorResponse(env, 'No URL or content provided.');
+      }
+
+      // A sitemap or feed: answer with its entries instead of converting the XML
+      const feed = docs.length === 1 ? docs[0].feed : undefined;
+      if (feed) {
+        const selection = await selectEntries(feed, env, ctx, {
+          expand,
+          limit: parseFeedLimit(limitParam, expand, env),
+          page: { extract, converter, clean: cleanSteps.join(','), frontmatter, images: imageMode, render, waitFor: waitFor ?? undefined },
+        });
+        usage.tokens += selection.tokens;
+        return feedResponse(env, feed, selection, { url: targetUrl, format, digest });
+      }
+
+      for (const doc of docs) {
+        emit?.({ type: 'extract', name: doc.fileName, extractor: doc.extractor ?? null });
+      }
+
+      // Convert to Markdown (Workers AI and/or the local converter)
+      emit?.({ type: 'convert', stage: 'start', documents: docs.length });
+      const results = await convertDocuments(env, docs, converter);
+      let tokens = 0;
+      for (const result of results) {
+        if (result.format === 'markdown') tokens += result.tokens;
+      }
+      usage.tokens += tokens;
+      emit?.({ type: 'convert', stage: 'done', tokens });
+
+      // Multiple uploaded files — one result per file
+      if (docs.length > 1) {
+        const chunkOptions = parseChunkOptions(env, chunkTokens, chunkOverlap);
+        const files = await Promise.all(
+          results.map(async (result, i) => {
+            if (result.format === 'error') {
+              return { success: false, name: result.name, error: `Conversion failed: ${result.error}` };
+            }
+
+            const metadata = docs[i].metadata ?? {};
+            const cleaned = cleanMarkdown(stripFrontmatter(result.data ?? ''), cleanSteps);
+            const proxied = await processImages(cleaned, docs[i].html, null, env, ctx, imageMode, emit);
+            return {
+              success: true,
+              name: result.name,
+              mimeType: result.mimeType,
+              tokens: result.tokens,
+              converter: result.converter,
+              extractor: docs[i].extractor ?? null,
+              charset: docs[i].charset ?? null,
+              strategy: docs[i].strategy ?? null,
+              metadata,
+              ...(proxied.images && { images: proxied.images }),
+              ...(outputMode === 'chunks'
+                ? { chunks: chunkMarkdown(proxied.markdown, chunkOptions) }
+                : { markdown: frontmatter ? withFrontmatter(proxied.markdown, metadata) : proxied.markdown }),
+            };
+          }),
+        );
+
+        if (format !== 'json' && outputMode === 'chunks') {
+          // One NDJSON stream for all files, each chunk tagged with its file name
+          const chunks = files.flatMap((f) => ('chunks' in f && f.chunks ? f.chunks.map((chunk) => ({ name: f.name, ...chunk })) : []));
+          if (chunks.length === 0) {
+            return errorResponse(env, 'Conversion failed for all files.', 422);
+          }
+          return ndjsonResponse(env, chunks);
+        }
+
+        if (format !== 'json') {
+          const converted = files.flatMap((f) => ('markdown' in f && f.markdown ? [f.markdown] : []));
+          if (converted.length === 0) {
+            return errorResponse(env, 'Conversion failed for all files.', 422);
+          }
+          const rendered = renderMarkdown(converted.join('\n\n'), format);
+          return textResponse(env, rendered.body, 200, rendered.headers);
+        }
+
+        return jsonResponse(env, { success: true, results: files });
+      }
+
+      const [result] = results;
+
+      if (result.format === 'error') {
+        return errorResponse(env, `Conversion failed: ${result.error}`, 422);
+      }
+
+      const now = Date.now();
+      const conversion: CachedConversion = {
+        name: result.name,
+        mimeType: result.mimeType,
+        tokens: result.tokens,
+        converter: result.converter,
+        extractor: docs[0].extractor,
+        charset: docs[0].charset,
+        strategy: docs[0].strategy,
+        metadata: docs[0].metadata,
+        markdown: stripFrontmatter(result.data ?? ''),
+        createdAt: now,
+        validatedAt: now,
+        validators: docs[0].validators,
+      };
+
+      // A local fallback is not cached, so the next request tries Workers AI again
+      if (cache && cacheKey && (converter !== 'auto' || result.converter === 'ai')) {
+        ctx.waitUntil(cache.put(cacheKey, conversion));
+      }
+
+      return conversionResponse(env, ctx, conversion, docs[0].html, {
+        url: targetUrl,
+        format,
+        cached: cache ? false : null,
+        clean: cleanSteps,
+        frontmatter,
+        images: imageMode,
+        output: outputMode,
+        chunk: parseChunkOptions(env, chunkTokens, chunkOverlap),
+        onProgress: emit,
+      });
+    } catch (err: unknown) {
+      if (err instanceof HttpError) {
+        return errorResponse(env, err.message, err.status, err.code);
+      }
+      return errorResponse(env, `Internal error: ${errorMessage(err)}`, 500);
+    }
+  };
+
+  if (streamMode) {
+    const stream = streamResponse(env, ctx, streamMode, run);
+    usage.settled = stream.done;
+    return stream.response;
+  }
+  return run(undefined, ctx);
+}
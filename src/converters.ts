@@ -0,0 +1,119 @@
+/**
+ * Conversion backends
+ *
+ * Every entry point converts its source documents through a `Converter`,
+ * chosen per request with `converter=auto|ai|local`:
+ *  - `ai`: Workers AI `toMarkdown`, which handles every supported format
+ *  - `local`: the built-in HTML-to-Markdown renderer (`markdown.ts`); HTML
+ *    only, spends no tokens and needs no AI binding
+ *  - `auto` (default): Workers AI, with HTML documents converted locally
+ *    when the AI call fails or returns an error for them
+ *
+ * Design:
+ *  - Results keep the `toMarkdown` shape (one per document, in input order)
+ *    and report the converter that produced them.
+ *  - Backends are looked up in `converters` at call time, so tests can
+ *    swap in a stub for `converters.ai` and run offline.
+ *  - Without HTML documents to fall back on, `auto` behaves like `ai`: an AI
+ *    failure propagates to the caller unchanged.
+ */
+
+import { errorMessage } from './errors';
+import { htmlToMarkdown } from './markdown';
+import type { SourceDocument } from './pipeline';
+import { baseMimeType } from './sniff';
+
+/** A conversion backend */
+export type ConverterName = 'ai' | 'local';
+
+/** Per-request converter selection */
+export type ConverterMode = 'auto' | ConverterName;
+
+/** Converts source documents to Markdown */
+export interface Converter {
+  /** Convert documents, returning one result per document in input order */
+  convert(env: Env, docs: SourceDocument[]): Promise<ConversionResponse[]>;
+}
+
+/** A conversion result tagged with the backend that produced it */
+export type Conversion = ConversionResponse & { converter: ConverterName };
+
+/** Parse the `converter` request parameter */
+export function parseConverterMode(value: string | null | undefined): ConverterMode {
+  return value === 'ai' || value === 'local' ? value : 'auto';
+}
+
+/** Whether a document can be converted by the local backend */
+function isHtml(doc: SourceDocument): boolean {
+  return baseMimeType(doc.contentType) === 'text/html';
+}
+
+/** Workers AI `toMarkdown` */
+const aiConverter: Converter = {
+  convert(env, docs) {
+    if (!env.AI) throw new Error('Workers AI binding is not configured.');
+    return env.AI.toMarkdown(
+      docs.map((doc) => ({
+        name: doc.fileName,
+        blob: new Blob([doc.body], { type: doc.contentType }),
+      })),
+    );
+  },
+};
+
+/** Built-in HTML-to-Markdown renderer; other formats are reported as errors */
+const localConverter: Converter = {
+  async convert(_env, docs) {
+    return docs.map((doc): ConversionResponse => {
+      const mimeType = baseMimeType(doc.contentType);
+      if (!isHtml(doc)) {
+        return { name: doc.fileName, mimeType, format: 'error', error: `The local converter only supports HTML, not ${mimeType}.` };
+      }
+      return { name: doc.fileName, mimeType, format: 'markdown', tokens: 0, data: htmlToMarkdown(doc.html) };
+    });
+  },
+};
+
+/** Registered backends */
+export const converters: Record<ConverterName, Converter> = {
+  ai: aiConverter,
+  local: localConverter,
+};
+
+/** Tag results with their backend */
+function tag(results: ConversionResponse[], converter: ConverterName): Conversion[] {
+  return results.map((result) => ({ ...result, converter }));
+}
+
+/**
+ * Convert a list of source documents, preserving order.
+ *
+ * In `auto` mode an AI failure is logged, and the HTML documents it
+ * affected are converted locally; other documents keep the AI error.
+ */
+export async function convertDocuments(env: Env, docs: SourceDocument[], mode: ConverterMode = 'auto'): Promise<Conversion[]> {
+  if (mode !== 'auto') return tag(await converters[mode].convert(env, docs), mode);
+
+  let results: Conversion[];
+  try {
+    results = tag(await converters.ai.convert(env, docs), 'ai');
+  } catch (err) {
+    if (!docs.some(isHtml)) throw err;
+    const error = errorMessage(err);
+    console.log(`Workers AI conversion failed, using the local converter: ${error}`);
+    results = docs.map((doc) => ({ name: doc.fileName, mimeType: baseMimeType(doc.contentType), format: 'error', error, converter: 'ai' }));
+  }
+
+  const fallback = docs.flatMap((doc, i) => (isHtml(doc) && results[i]?.format !== 'markdown' ? [i] : []));
+  if (fallback.length > 0) {
+    const local = tag(
+      await converters.local.convert(
+        env,
+        fallback.map((i) => docs[i]),
+      ),
+      'local',
+    );
+    for (const [j, i] of fallback.entries()) results[i] = local[j];
+  }
+  return results;
+}
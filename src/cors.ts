@@ -9,8 +9,10 @@ import { corsOrigin } from './config';
 export function getCorsHeaders(env: Env): Record<string, string> {
   return {
     'Access-Control-Allow-Origin': corsOrigin(env),
-    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key',
+    'Access-Control-Expose-Headers':
+      'X-Cache, Age, X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset, X-RateLimit-Tokens-Limit, X-RateLimit-Tokens-Remaining, Retry-After',
     'Access-Control-Max-Age': '86400',
   };
 }
@@ -26,20 +28,44 @@ export function jsonResponse(env: Env, data: unknown, status = 200): Response {
   });
 }
 
-/** Build a plain-text response with CORS headers */
-export function textResponse(env: Env, text: string, status = 200): Response {
+/** Build a text response with CORS headers (Markdown unless `headers` sets another Content-Type) */
+export function textResponse(env: Env, text: string, status = 200, headers: Record<string, string> = {}): Response {
   return new Response(text, {
     status,
     headers: {
       'Content-Type': 'text/markdown; charset=utf-8',
       ...getCorsHeaders(env),
+      ...headers,
     },
   });
 }
 
-/** Shorthand for an error JSON response */
-export function errorResponse(env: Env, message: string, status = 400): Response {
-  return jsonResponse(env, { success: false, error: message }, status);
+/** Build a newline-delimited JSON response (one record per line) with CORS headers */
+export function ndjsonResponse(env: Env, records: unknown[], status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(records.map((record) => `${JSON.stringify(record)}\n`).join(''), {
+    status,
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      ...getCorsHeaders(env),
+      ...headers,
+    },
+  });
+}
+
+/** Shorthand for an error JSON response, with an optional machine-readable reason code */
+export function errorResponse(env: Env, message: string, status = 400, code?: string): Response {
+  return jsonResponse(env, { success: false, error: message, code }, status);
+}
+
+/** Return a copy of a response with extra headers set */
+export function withHeaders(response: Response, headers: Record<string, string>): Response {
+  if (Object.keys(headers).length === 0) return response;
+
+  const copy = new Response(response.body, response);
+  for (const [name, value] of Object.entries(headers)) {
+    copy.headers.set(name, value);
+  }
+  return copy;
 }
 
 /** Handle CORS preflight (OPTIONS) request */
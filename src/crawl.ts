@@ -0,0 +1,293 @@
+/**
+ * Site crawling
+ *
+ * Handles `POST /crawl`: converts a seed page and the same-origin pages it
+ * links to, breadth first, and returns a manifest with every page's
+ * Markdown and the link graph between them.
+ *
+ * Design:
+ *  - Discovery: links are collected from each whole HTML page (before
+ *    extraction), then resolved, stripped of their fragment and normalised
+ *    like cache keys, so every page is converted once
+ *  - Scope: the seed's origin, `maxDepth` link hops and `maxPages` pages
+ *    (capped by `CRAWL_MAX_DEPTH` / `CRAWL_MAX_PAGES`), narrowed by optional
+ *    `include` / `exclude` path patterns in robots.txt syntax; links to
+ *    assets (images, scripts, archives, …) are not followed
+ *  - Politeness: `robots.txt` is honoured unless `robots: false`; fetch
+ *    settings (`headers`, `cookies`, …) apply to pages, not to `robots.txt`.
+ *    Requests identify as `CRAWLER_USER_AGENT` unless `userAgent` (or a
+ *    `User-Agent` header) is given
+ *  - Conversion: each depth level goes through `convertBatch`, so pages get
+ *    the fetch concurrency, chunked conversion, per-page results and
+ *    per-item options of `POST /batch`
+ *  - Background: crawls of more than `CRAWL_SYNC_MAX_PAGES` pages, with
+ *    `async: true` or with a `webhook` run as a job (see `jobs.ts`) and are
+ *    polled with `GET /jobs/:id`
+ */
+
+import type { ApiKey, Usage } from './auth';
+import { type BatchItem, type BatchResult, batchTokens, convertBatch, summarizeBatch } from './batch';
+import { normalizeUrl } from './cache';
+import { crawlMaxDepth, crawlMaxPages, crawlSyncMaxPages, jobsEnabled } from './config';
+import { errorResponse, jsonResponse } from './cors';
+import { errorMessage, HttpError } from './errors';
+import { type FetchOverrides, parseFetchOverrides } from './fetch';
+import { jobView, submitJob } from './jobs';
+import { loadFromUrl } from './pipeline';
+import { assertUrlAllowed } from './policy';
+import { parseExtractMode } from './readability';
+import { parseRenderParam } from './render';
+import { CRAWLER_USER_AGENT, fetchRobots, matchesPathPattern } from './robots';
+
+/** Conversion options applied to every crawled page, as for a batch item */
+type CrawlPageOptions = Omit<BatchItem, 'url' | 'content' | 'html' | 'contentType' | 'fileName' | 'encoding'>;
+
+/** Body of `POST /crawl` */
+export interface CrawlRequest extends CrawlPageOptions {
+  /** Seed URL; only pages of its origin are crawled */
+  url: string;
+  /** Link hops followed from the seed (default: 2) */
+  maxDepth?: number;
+  /** Pages converted, including the seed (default: 20) */
+  maxPages?: number;
+  /** Path patterns a linked page must match one of */
+  include?: string[];
+  /** Path patterns excluding linked pages */
+  exclude?: string[];
+  /** Honour `robots.txt` (default: true) */
+  robots?: boolean;
+  /** Run as a background job regardless of size */
+  async?: boolean;
+  /** URL notified when a background crawl finishes */
+  webhook?: string;
+}
+
+/** A crawled page: its batch result plus its link depth from the seed */
+export type CrawlPage = BatchResult & { depth: number };
+
+/** Crawl outcome */
+export interface CrawlManifest {
+  seed: string;
+  total: number;
+  succeeded: number;
+  failed: number;
+  /** Workers AI tokens spent */
+  tokens: number;
+  /** Whether `maxPages` stopped the crawl with in-scope pages left */
+  truncated: boolean;
+  /** In-scope URLs skipped because `robots.txt` disallows them */
+  blocked: string[];
+  /** Converted pages, in crawl order */
+  pages: CrawlPage[];
+  /** Link graph: each crawled HTML page → the in-scope URLs it links to */
+  links: Record<string, string[]>;
+}
+
+const DEFAULT_MAX_DEPTH = 2;
+const DEFAULT_MAX_PAGES = 20;
+
+/** Links to these are never followed: they are assets, not pages */
+const ASSET_EXTENSION_RE =
+  /\.(?:avif|bmp|css|gif|ico|jpe?g|js|mjs|png|svg|webp|woff2?|ttf|otf|eot|mp3|mp4|m4a|ogg|wav|webm|mov|avi|zip|gz|tgz|bz2|xz|7z|rar|tar|dmg|exe|msi|apk|iso)$/i;
+
+/** Clamp an optional integer option into `[min, max]` */
+function clampInt(value: unknown, fallback: number, min: number, max: number): number {
+  const n = Number(value ?? fallback);
+  return Number.isFinite(n) ? Math.min(Math.max(Math.floor(n), min), max) : Math.min(fallback, max);
+}
+
+/** Validate a list of path patterns */
+function parsePatterns(value: unknown, name: string): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some((p) => typeof p !== 'string')) {
+    throw new HttpError(`Invalid "${name}": expected an array of path patterns.`);
+  }
+  return value.filter(Boolean);
+}
+
+/**
+ * Validate a `POST /crawl` body and fill in its limits.
+ *
+ * @throws {HttpError} 400 when the body is not a valid crawl
+ * @throws {PolicyError} 403 when the seed URL is not allowed
+ */
+export function parseCrawlRequest(body: CrawlRequest, env: Env): CrawlRequest & { maxDepth: number; maxPages: number } {
+  let seed: URL;
+  try {
+    seed = new URL(body.url);
+  } catch {
+    throw new HttpError('Invalid URL provided.');
+  }
+  assertUrlAllowed(seed.toString(), env);
+  // Reject invalid fetch settings up front rather than on every page
+  parseFetchOverrides(body, env);
+
+  return {
+    ...body,
+    url: normalizeUrl(seed.toString()),
+    maxDepth: clampInt(body.maxDepth, DEFAULT_MAX_DEPTH, 0, crawlMaxDepth(env)),
+    maxPages: clampInt(body.maxPages, DEFAULT_MAX_PAGES, 1, crawlMaxPages(env)),
+    include: parsePatterns(body.include, 'include'),
+    exclude: parsePatterns(body.exclude, 'exclude'),
+  };
+}
+
+/** Path and query of a URL, as matched by robots.txt and crawl patterns */
+function pathOf(url: URL): string {
+  return `${url.pathname}${url.search}`;
+}
+
+/** Identify as the crawler robots.txt rules are matched for, unless the caller chose a `User-Agent` */
+function withCrawlerAgent(overrides: FetchOverrides): FetchOverrides {
+  if (Object.keys(overrides.headers ?? {}).some((name) => name.toLowerCase() === 'user-agent')) return overrides;
+  return { ...overrides, headers: { ...overrides.headers, 'User-Agent': CRAWLER_USER_AGENT } };
+}
+
+/**
+ * Crawl a site and convert its pages.
+ *
+ * @param crawl       - A request validated by `parseCrawlRequest`
+ * @param isCancelled - Checked before each depth level; stops the crawl early when it resolves to true
+ */
+export async function crawlSite(
+  crawl: CrawlRequest,
+  env: Env,
+  ctx: ExecutionContext,
+  isCancelled?: () => Promise<boolean>,
+): Promise<CrawlManifest> {
+  const {
+    url: seed,
+    maxDepth = DEFAULT_MAX_DEPTH,
+    maxPages = DEFAULT_MAX_PAGES,
+    include = [],
+    exclude = [],
+    robots: honourRobots = true,
+    async: _async,
+    webhook: _webhook,
+    ...options
+  } = crawl;
+  const origin = new URL(seed).origin;
+  const robots = honourRobots ? await fetchRobots(origin, env) : null;
+
+  /** Normalise a discovered link, or `null` when it is out of scope or malformed */
+  const inScope = (link: string): string | null => {
+    let url: URL;
+    try {
+      url = new URL(link);
+    } catch {
+      return null;
+    }
+    if (url.origin !== origin || ASSET_EXTENSION_RE.test(url.pathname)) return null;
+    const path = pathOf(url);
+    if (include.length > 0 && !include.some((pattern) => matchesPathPattern(pattern, path))) return null;
+    if (exclude.some((pattern) => matchesPathPattern(pattern, path))) return null;
+    return normalizeUrl(link);
+  };
+
+  const extract = parseExtractMode(options.extract);
+  const overrides = withCrawlerAgent(parseFetchOverrides(options, env));
+  const seen = new Set([seed]);
+  const pages: CrawlPage[] = [];
+  const links: Record<string, string[]> = {};
+  const blocked: string[] = [];
+  let truncated = false;
+  let frontier = [seed];
+
+  for (let depth = 0; frontier.length > 0 && !(await isCancelled?.()); depth++) {
+    const allowed = frontier.filter((url) => {
+      if (!robots || robots.isAllowed(pathOf(new URL(url)))) return true;
+      blocked.push(url);
+      return false;
+    });
+
+    const level = allowed.slice(0, maxPages - pages.length);
+    if (level.length < allowed.length) truncated = true;
+
+    // Convert the level, keeping each page's links
+    const found: string[][] = [];
+    const results = await convertBatch(
+      level.map((url) => ({ ...options, url })),
+      env,
+      ctx,
+      async (item, index) => {
+        const doc = await loadFromUrl(item.url as string, env, {
+          extract,
+          links: true,
+          render: parseRenderParam(item.render),
+          waitFor: item.waitFor,
+          fetch: overrides,
+        });
+        found[index] = doc.links ?? [];
+        return doc;
+      },
+    );
+    for (const result of results) pages.push({ ...result, index: pages.length, depth });
+
+    const next: string[] = [];
+    for (const [i, url] of level.entries()) {
+      if (!found[i]) continue;
+      links[url] = [...new Set(found[i].map(inScope).filter((link): link is string => link !== null))];
+      if (depth >= maxDepth) continue;
+      for (const link of links[url]) {
+        if (seen.has(link)) continue;
+        seen.add(link);
+        next.push(link);
+      }
+    }
+
+    if (pages.length >= maxPages) {
+      truncated ||= next.length > 0;
+      break;
+    }
+    frontier = next;
+  }
+
+  const { total, succeeded, failed } = summarizeBatch(pages);
+  return { seed, total, succeeded, failed, tokens: batchTokens(pages), truncated, blocked, pages, links };
+}
+
+/** Handle a `POST /crawl` request */
+export async function handleCrawl(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  usage: Usage,
+  apiKey: ApiKey | null,
+): Promise<Response> {
+  if (request.method !== 'POST') {
+    return errorResponse(env, 'Method not allowed. Use POST for /crawl.', 405);
+  }
+
+  let body: CrawlRequest;
+  try {
+    body = (await request.json()) as CrawlRequest;
+    if (!body || typeof body !== 'object' || typeof body.url !== 'string') throw new Error('Invalid body');
+  } catch {
+    return errorResponse(env, 'Invalid JSON body. Expected: { "url": "https://...", "maxDepth": 2, "maxPages": 20 }');
+  }
+
+  try {
+    const crawl = parseCrawlRequest(body, env);
+
+    if (crawl.async || crawl.webhook || crawl.maxPages > crawlSyncMaxPages(env)) {
+      if (!jobsEnabled(env)) {
+        return errorResponse(
+          env,
+          `Crawls of more than ${crawlSyncMaxPages(env)} pages (or with "async" or "webhook") run as jobs, which are not enabled.`,
+          501,
+        );
+      }
+      const job = await submitJob(env, apiKey, { crawl }, { batch: false, webhook: crawl.webhook });
+      return jsonResponse(env, jobView(job), 202);
+    }
+
+    const manifest = await crawlSite(crawl, env, ctx);
+    usage.tokens += manifest.tokens;
+    return jsonResponse(env, { success: true, ...manifest });
+  } catch (err: unknown) {
+    if (err instanceof HttpError) {
+      return errorResponse(env, err.message, err.status, err.code);
+    }
+    return errorResponse(env, `Internal error: ${errorMessage(err)}`, 500);
+  }
+}
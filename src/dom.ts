@@ -0,0 +1,269 @@
+/**
+ * Lightweight HTML parser
+ *
+ * Builds a small DOM-like tree from an HTML string so content can be scored
+ * and re-serialised without a browser. It is forgiving rather than
+ * spec-complete: void and raw-text elements are handled, unknown closing
+ * tags are ignored, and common implicitly-closed elements (`p`, `li`, …)
+ * are closed when a sibling opens.
+ */
+
+/** An element node */
+export interface ElementNode {
+  type: 'element';
+  tag: string;
+  attrs: Record<string, string>;
+  children: DomNode[];
+  parent: ElementNode | null;
+}
+
+/** A text node (entity-decoded) */
+export interface TextNode {
+  type: 'text';
+  text: string;
+  parent: ElementNode | null;
+}
+
+export type DomNode = ElementNode | TextNode;
+
+/** Elements that never have content or a closing tag */
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+/** Elements whose content is raw text, not markup */
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title']);
+
+/** Opening one of these closes an open element of the mapped tags */
+const IMPLICIT_CLOSE: Record<string, string[]> = {
+  p: ['p'],
+  li: ['li'],
+  dt: ['dt', 'dd'],
+  dd: ['dt', 'dd'],
+  tr: ['tr', 'td', 'th'],
+  td: ['td', 'th'],
+  th: ['td', 'th'],
+  option: ['option'],
+};
+
+/** Block-level tags that implicitly close an open `<p>` */
+const CLOSES_P = new Set([
+  'address',
+  'article',
+  'aside',
+  'blockquote',
+  'div',
+  'dl',
+  'fieldset',
+  'figure',
+  'footer',
+  'form',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'header',
+  'hr',
+  'main',
+  'nav',
+  'ol',
+  'pre',
+  'section',
+  'table',
+  'ul',
+]);
+
+/** Named entities common in page content */
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  tab: '\t',
+  newline: '\n',
+  copy: '©',
+  reg: '®',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  middot: '·',
+  times: '×',
+};
+
+/** Decode HTML character references */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, ref: string) => {
+    if (ref[0] === '#') {
+      const code = ref[1] === 'x' || ref[1] === 'X' ? Number.parseInt(ref.slice(2), 16) : Number.parseInt(ref.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[ref.toLowerCase()] ?? match;
+  });
+}
+
+/** Parse the attribute portion of a start tag */
+export function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const re = /([^\s"'<>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+  for (const m of source.matchAll(re)) {
+    const name = m[1].toLowerCase();
+    if (!(name in attrs)) attrs[name] = decodeEntities(m[2] ?? m[3] ?? m[4] ?? '');
+  }
+  return attrs;
+}
+
+/** Create an element node */
+export function createElement(tag: string, attrs: Record<string, string> = {}, parent: ElementNode | null = null): ElementNode {
+  return { type: 'element', tag, attrs, children: [], parent };
+}
+
+/**
+ * Parse an HTML string into a tree.
+ *
+ * The returned root is a synthetic `#root` element whose children are the
+ * top-level nodes of the document.
+ */
+export function parseHtml(html: string): ElementNode {
+  const root = createElement('#root');
+  const stack: ElementNode[] = [root];
+  const current = () => stack[stack.length - 1];
+
+  const appendText = (text: string) => {
+    if (text) current().children.push({ type: 'text', text: decodeEntities(text), parent: current() });
+  };
+
+  const closeTag = (tag: string) => {
+    for (let i = stack.length - 1; i > 0; i--) {
+      if (stack[i].tag === tag) {
+        stack.length = i;
+        return;
+      }
+    }
+  };
+
+  const tagRe =
+    /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<\/([a-zA-Z][\w:-]*)\s*>|<([a-zA-Z][\w:-]*)((?:\s+[^\s"'<>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/g;
+  let last = 0;
+
+  for (let m = tagRe.exec(html); m; m = tagRe.exec(html)) {
+    appendText(html.slice(last, m.index));
+    last = tagRe.lastIndex;
+
+    // Closing tag
+    if (m[1]) {
+      closeTag(m[1].toLowerCase());
+      continue;
+    }
+
+    // Comment, doctype or CDATA
+    if (!m[2]) continue;
+
+    const tag = m[2].toLowerCase();
+
+    // Implicitly close elements that cannot contain this one
+    if (CLOSES_P.has(tag) && stack.some((el) => el.tag === 'p')) closeTag('p');
+    const implicit = IMPLICIT_CLOSE[tag];
+    if (implicit?.includes(current().tag)) stack.pop();
+
+    const el = createElement(tag, parseAttributes(m[3] ?? ''), current());
+    current().children.push(el);
+
+    if (VOID_ELEMENTS.has(tag) || m[4]) continue;
+
+    if (RAW_TEXT_ELEMENTS.has(tag)) {
+      const end = html.toLowerCase().indexOf(`</${tag}`, last);
+      const stop = end === -1 ? html.length : end;
+      const text = html.slice(last, stop);
+      if (text) el.children.push({ type: 'text', text: tag === 'title' || tag === 'textarea' ? decodeEntities(text) : text, parent: el });
+      const close = end === -1 ? html.length : html.indexOf('>', end) + 1 || html.length;
+      last = close;
+      tagRe.lastIndex = close;
+      continue;
+    }
+
+    stack.push(el);
+  }
+
+  appendText(html.slice(last));
+  return root;
+}
+
+// ---------------------------------------------------------------------------
+// Traversal
+// ---------------------------------------------------------------------------
+
+/** Depth-first iteration over all element descendants */
+export function* descendants(node: ElementNode): Generator<ElementNode> {
+  for (const child of node.children) {
+    if (child.type === 'element') {
+      yield child;
+      yield* descendants(child);
+    }
+  }
+}
+
+/** Find the first descendant element matching a predicate */
+export function findFirst(node: ElementNode, predicate: (el: ElementNode) => boolean): ElementNode | null {
+  for (const el of descendants(node)) {
+    if (predicate(el)) return el;
+  }
+  return null;
+}
+
+/** Find all descendant elements matching a predicate */
+export function findAll(node: ElementNode, predicate: (el: ElementNode) => boolean): ElementNode[] {
+  return [...descendants(node)].filter(predicate);
+}
+
+/** Concatenated text content of a node */
+export function textContent(node: DomNode): string {
+  if (node.type === 'text') return node.text;
+  if (node.tag === 'script' || node.tag === 'style') return '';
+  return node.children.map(textContent).join('');
+}
+
+/** Detach a node from its parent */
+export function removeNode(node: DomNode): void {
+  if (!node.parent) return;
+  const siblings = node.parent.children;
+  const index = siblings.indexOf(node);
+  if (index !== -1) siblings.splice(index, 1);
+  node.parent = null;
+}
+
+// ---------------------------------------------------------------------------
+// Serialisation
+// ---------------------------------------------------------------------------
+
+/** Escape text for HTML output */
+function escapeText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/** Escape an attribute value for double-quoted output */
+function escapeAttr(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+}
+
+/** Serialise a node (and its subtree) back to HTML */
+export function serialize(node: DomNode): string {
+  if (node.type === 'text') {
+    return node.parent && RAW_TEXT_ELEMENTS.has(node.parent.tag) && node.parent.tag !== 'title' ? node.text : escapeText(node.text);
+  }
+
+  const inner = node.children.map(serialize).join('');
+  if (node.tag === '#root') return inner;
+
+  const attrs = Object.entries(node.attrs)
+    .map(([name, value]) => (value === '' ? ` ${name}` : ` ${name}="${escapeAttr(value)}"`))
+    .join('');
+
+  if (VOID_ELEMENTS.has(node.tag)) return `<${node.tag}${attrs}>`;
+  return `<${node.tag}${attrs}>${inner}</${node.tag}>`;
+}
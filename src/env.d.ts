@@ -0,0 +1,30 @@
+/**
+ * Optional bindings and variables
+ *
+ * These are not declared in wrangler.jsonc by default, so `wrangler types`
+ * does not generate them. Features that depend on them are disabled when
+ * they are absent.
+ */
+
+declare namespace Cloudflare {
+  interface Env {
+    /** KV namespace for cached conversions */
+    CACHE_KV?: KVNamespace;
+    /** Conversion cache backend: "kv", "r2" or "none" */
+    CACHE_BACKEND?: string;
+    /** API keys (secret): JSON map of key → limits, or a comma-separated list */
+    API_KEYS?: string;
+    /** KV namespace mapping API keys to their limits */
+    API_KEYS_KV?: KVNamespace;
+    /** Per-host image download rules (JSON): host pattern → { referer, headers } */
+    IMAGE_HOST_RULES?: string;
+    /** Admin token (secret) for `/admin/*` routes; the routes are disabled when unset */
+    ADMIN_TOKEN?: string;
+    /** Queue for asynchronous jobs; `/jobs` is disabled when unbound */
+    JOBS_QUEUE?: Queue<import('./jobs').JobMessage>;
+    /** Secret (HMAC-SHA256 key) for signing job webhooks; webhooks are rejected when unset */
+    JOBS_WEBHOOK_SECRET?: string;
+    /** Browser Rendering binding; `render=true` is disabled when unbound */
+    BROWSER?: Fetcher;
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Error types
+ * Errors that carry an HTTP status so pipeline steps can fail with the
+ * right response code without knowing how the response is built.
+ */
+
+/** An error that maps directly to an HTTP error response */
+export class HttpError extends Error {
+  /**
+   * @param message - Human-readable error message
+   * @param status  - HTTP status code for the response
+   * @param code    - Optional machine-readable reason code
+   */
+  constructor(
+    message: string,
+    readonly status = 400,
+    readonly code?: string,
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/** Extract a human-readable message from an unknown thrown value */
+export function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : 'Unknown error';
+}
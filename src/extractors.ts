@@ -0,0 +1,141 @@
+/**
+ * Site-specific content extractors
+ *
+ * Many sites wrap the article body in navigation, comment threads and
+ * promotional widgets that pollute the converted Markdown. An extractor
+ * recognises a site (by URL and/or HTML) and narrows the page down to the
+ * main content before conversion.
+ *
+ * Design:
+ *  - Registry: extractors are tried in registration order; the first whose
+ *    `match` returns true and that finds content is used.
+ *    `registerExtractor` adds new ones.
+ *  - Fallback: when no extractor finds content, the full page is converted
+ *    as before and no extractor is reported.
+ *  - Matching works without a URL too (direct content), so extractors
+ *    should also recognise their site from the HTML where possible.
+ */
+
+import { type ElementSelector, extractWeChatContent, findElement, isWeChatArticle, removeElements, wrapHtml } from './html';
+
+/** A site-specific extractor */
+export interface Extractor {
+  /** Identifier reported in responses */
+  name: string;
+  /** Whether this extractor handles the page (`url` is `null` for direct content) */
+  match(url: URL | null, html: string): boolean;
+  /** Select the main content and strip site chrome; `null` falls back to the full page */
+  extract(html: string): string | null;
+}
+
+/** Check whether a URL's host is `domain` or one of its subdomains */
+function onHost(url: URL | null, domain: string): boolean {
+  return !!url && (url.hostname === domain || url.hostname.endsWith(`.${domain}`));
+}
+
+/**
+ * Build an extractor from declarative selectors.
+ *
+ * The first `content` selector that matches is kept; `remove` selectors are
+ * then stripped from inside it.
+ */
+function selectorExtractor(name: string, match: Extractor['match'], content: ElementSelector[], remove: ElementSelector[] = []): Extractor {
+  return {
+    name,
+    match,
+    extract(html) {
+      for (const selector of content) {
+        const el = findElement(html, selector);
+        if (el?.inner.trim()) return wrapHtml(removeElements(el.inner, remove));
+      }
+      return null;
+    },
+  };
+}
+
+/** Chrome that is noise on every site */
+const COMMON_NOISE: ElementSelector[] = [{ tag: 'script' }, { tag: 'style' }, { tag: 'noscript' }, { tag: 'button' }];
+
+const wechat: Extractor = {
+  name: 'wechat',
+  match: (_url, html) => isWeChatArticle(html),
+  extract(html) {
+    const extracted = extractWeChatContent(html);
+    return extracted === html ? null : extracted;
+  },
+};
+
+const zhihu = selectorExtractor(
+  'zhihu',
+  (url, html) => onHost(url, 'zhihu.com') || html.includes('static.zhihu.com'),
+  [{ className: 'Post-RichText' }, { className: 'RichContent-inner' }, { className: 'RichText' }],
+  [...COMMON_NOISE, { className: 'ContentItem-actions' }, { className: 'Comments-container' }],
+);
+
+const juejin = selectorExtractor(
+  'juejin',
+  (url, html) => onHost(url, 'juejin.cn') || html.includes('juejin.cn/post/'),
+  [{ id: 'article-root' }, { className: 'article-viewer' }, { className: 'markdown-body' }],
+  [...COMMON_NOISE, { className: 'copy-code-btn' }],
+);
+
+const csdn = selectorExtractor(
+  'csdn',
+  (url, html) => onHost(url, 'csdn.net') || html.includes('csdnimg.cn/release/blogv2'),
+  [{ id: 'content_views' }, { id: 'article_content' }],
+  [...COMMON_NOISE, { className: 'hide-article-box' }, { className: 'more-toolbox' }, { className: 'pre-numbering' }],
+);
+
+const medium = selectorExtractor(
+  'medium',
+  (url, html) => onHost(url, 'medium.com') || /<meta[^>]+content=["']Medium["']/i.test(html),
+  [{ tag: 'article' }],
+  [...COMMON_NOISE, { className: 'speechify-ignore' }, { tag: 'aside' }],
+);
+
+const github = selectorExtractor(
+  'github',
+  (url) => onHost(url, 'github.com'),
+  [{ tag: 'article', className: 'markdown-body' }, { className: 'markdown-body' }],
+  [...COMMON_NOISE, { className: 'anchor' }],
+);
+
+const substack = selectorExtractor(
+  'substack',
+  (url, html) => onHost(url, 'substack.com') || html.includes('substackcdn.com'),
+  [{ className: 'available-content' }, { className: 'markup' }, { tag: 'article' }],
+  [...COMMON_NOISE, { className: 'subscription-widget-wrap' }, { className: 'captioned-button-wrap' }, { className: 'post-footer' }],
+);
+
+/** Registered extractors, tried in order */
+const registry: Extractor[] = [wechat, zhihu, juejin, csdn, medium, github, substack];
+
+/** Register an extractor; it is tried before the built-in ones */
+export function registerExtractor(extractor: Extractor): void {
+  registry.unshift(extractor);
+}
+
+/**
+ * Run the first matching extractor over a page.
+ *
+ * @param html - Raw page HTML
+ * @param url  - Page URL, or `null` for direct content
+ * @returns The (possibly narrowed) HTML and the name of the extractor used
+ */
+export function runExtractors(html: string, url: string | null): { html: string; extractor: string | null } {
+  let parsed: URL | null = null;
+  try {
+    parsed = url ? new URL(url) : null;
+  } catch {
+    parsed = null;
+  }
+
+  for (const extractor of registry) {
+    if (!extractor.match(parsed, html)) continue;
+
+    const extracted = extractor.extract(html);
+    if (extracted) return { html: extracted, extractor: extractor.name };
+  }
+
+  return { html, extractor: null };
+}
@@ -0,0 +1,339 @@
+/**
+ * Sitemaps and feeds
+ *
+ * Recognises sitemaps, sitemap indexes, RSS (2.0 and 1.0/RDF) and Atom
+ * documents and parses their entries, so `GET /` and `POST /` can return a
+ * feed's items instead of converting its XML.
+ *
+ * Design:
+ *  - Detection: by root element, for documents typed as XML (`text/xml`,
+ *    `application/rss+xml`, … or sniffed). `mode=feed` parses any document
+ *    and fails when it is not a feed; `mode=document` turns detection off.
+ *  - Parsing: a tolerant scan of the raw XML — namespace prefixes are
+ *    ignored, CDATA sections unwrapped and entities decoded. HTML summaries
+ *    are rendered with the local Markdown renderer; dates become ISO 8601.
+ *  - Expansion: `expand=true` converts the pages the entries link to through
+ *    `convertBatch`, at most `FEED_MAX_ITEMS` of them. The entries of a
+ *    sitemap index are sitemaps, so they are fetched and flattened first.
+ *  - Output: the entries as a list, or one Markdown digest with a heading
+ *    per entry (`digest=true`, and every non-JSON format).
+ */
+
+import { type BatchItem, type BatchResult, batchTokens, convertBatch } from './batch';
+import { feedMaxItems } from './config';
+import { decodeEntities, parseAttributes } from './dom';
+import { errorMessage } from './errors';
+import { destination, escapeMarkdown, htmlToMarkdown } from './markdown';
+import { loadFromUrl } from './pipeline';
+import { demoteHeadings } from './postprocess';
+
+/** Kind of feed, by root element */
+export type FeedKind = 'sitemap' | 'sitemapindex' | 'rss' | 'atom';
+
+/** Per-request feed detection: `auto` (XML documents), `feed` (required) or `document` (off) */
+export type FeedMode = 'auto' | 'feed' | 'document';
+
+/** A sitemap URL, RSS item or Atom entry */
+export interface FeedEntry {
+  title: string | null;
+  /** Absolute URL of the entry (a sitemap, for a sitemap index) */
+  link: string | null;
+  /** Last modification, publication or update date as ISO 8601; kept as written when unparseable */
+  date: string | null;
+  /** Summary or description, as Markdown */
+  summary: string | null;
+}
+
+/** A parsed sitemap or feed */
+export interface Feed {
+  kind: FeedKind;
+  /** Channel or feed title (`null` for sitemaps) */
+  title: string | null;
+  /** Website of the channel or feed (`null` for sitemaps) */
+  link: string | null;
+  entries: FeedEntry[];
+}
+
+/** An entry, with the conversion of its linked page when expanded */
+export type FeedItem = FeedEntry & { result?: BatchResult };
+
+/** Conversion options applied to every linked page, as for a batch item */
+export type FeedPageOptions = Omit<BatchItem, 'url' | 'content' | 'html' | 'contentType' | 'fileName' | 'encoding'>;
+
+/** Entries selected for a response */
+export interface FeedSelection {
+  /** Entries in the feed (in the sitemaps fetched, for an expanded index) */
+  total: number;
+  /** Whether `limit` left entries out */
+  truncated: boolean;
+  /** Workers AI tokens spent on expansion */
+  tokens: number;
+  entries: FeedItem[];
+}
+
+/** Root elements of each kind (local names, lower case) */
+const ROOT_KINDS: Record<string, FeedKind> = {
+  urlset: 'sitemap',
+  sitemapindex: 'sitemapindex',
+  rss: 'rss',
+  rdf: 'rss',
+  feed: 'atom',
+};
+
+/** Parse the `mode` request parameter */
+export function parseFeedMode(value: string | null | undefined): FeedMode {
+  return value === 'feed' || value === 'document' ? value : 'auto';
+}
+
+/**
+ * Parse the `limit` request parameter.
+ *
+ * Without expansion every entry is listed by default; expansion is capped
+ * by `FEED_MAX_ITEMS`, which is also its default.
+ */
+export function parseFeedLimit(value: unknown, expand: boolean, env: Env): number {
+  const max = expand ? feedMaxItems(env) : Number.POSITIVE_INFINITY;
+  const n = Number(value);
+  if (value === null || value === undefined || value === '' || !Number.isFinite(n)) return max;
+  return Math.min(Math.max(Math.floor(n), 1), max);
+}
+
+// ---------------------------------------------------------------------------
+// XML scanning
+// ---------------------------------------------------------------------------
+
+/** An element found in the raw XML */
+interface XmlElement {
+  attrs: Record<string, string>;
+  /** Raw content between the tags (empty for self-closing elements) */
+  inner: string;
+}
+
+/** Escape text taken out of a CDATA section, so it reads like any other element content */
+function escapeCdata(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/** Elements with a local name, in any namespace and in document order (same-name nesting is not supported) */
+function elements(xml: string, name: string): XmlElement[] {
+  const tag = `(?:[\\w.-]+:)?${name}`;
+  const re = new RegExp(`<${tag}(?=[\\s/>])([^>]*?)(?:/>|>([\\s\\S]*?)</${tag}\\s*>)`, 'gi');
+  return [...xml.matchAll(re)].map((m) => ({ attrs: parseAttributes(m[1]), inner: m[2] ?? '' }));
+}
+
+/** First element with a local name, or `null` */
+function first(xml: string, name: string): XmlElement | null {
+  return elements(xml, name)[0] ?? null;
+}
+
+/** Plain text of an element: markup removed, entities decoded, whitespace collapsed */
+function text(el: XmlElement | null): string | null {
+  if (!el) return null;
+  // Atom `type="html"` text is escaped markup
+  const markup = el.attrs.type === 'html' ? decodeEntities(el.inner) : el.inner;
+  return (
+    decodeEntities(markup.replace(/<[^>]*>/g, ''))
+      .replace(/\s+/g, ' ')
+      .trim() || null
+  );
+}
+
+/** A summary element as Markdown: escaped or inline (`xhtml`) HTML is rendered, plain text kept */
+function summary(el: XmlElement | null): string | null {
+  if (!el) return null;
+  const type = el.attrs.type?.toLowerCase();
+  const html = type === 'xhtml' ? el.inner : decodeEntities(el.inner);
+  if (type === 'text' || !/<[a-z][^>]*>/i.test(html)) return html.replace(/\s+/g, ' ').trim() || null;
+  return htmlToMarkdown(html).trim() || null;
+}
+
+/** A date as ISO 8601, or as written when it does not parse */
+function parseDate(value: string | null): string | null {
+  if (!value) return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? value : new Date(time).toISOString();
+}
+
+/** Resolve a link against the feed URL; invalid links are kept as written */
+function resolveLink(link: string | null | undefined, base: string | null): string | null {
+  if (!link) return null;
+  try {
+    return new URL(link, base ?? undefined).href;
+  } catch {
+    return link;
+  }
+}
+
+/** The `alternate` link of an Atom feed or entry */
+function atomLink(xml: string): string | null {
+  const links = elements(xml, 'link');
+  const alternate = links.find((link) => !link.attrs.rel || link.attrs.rel === 'alternate') ?? links[0];
+  return alternate?.attrs.href || null;
+}
+
+/** The link of an RSS item: `<link>`, else a permalink `<guid>`, else the RSS 1.0 `rdf:about` */
+function rssLink(item: XmlElement): string | null {
+  const link = elements(item.inner, 'link').map(text).find(Boolean);
+  if (link) return link;
+  const guid = first(item.inner, 'guid');
+  if (guid && guid.attrs.ispermalink !== 'false') return text(guid);
+  return item.attrs['rdf:about'] || null;
+}
+
+/** Content of a feed before its first entry, where the channel or feed fields are */
+function headOf(xml: string, entry: string): string {
+  return xml.split(new RegExp(`<(?:[\\w.-]+:)?${entry}(?=[\\s/>])`, 'i'))[0];
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/** Detect the kind of feed from the root element of an XML document */
+export function detectFeed(xml: string): FeedKind | null {
+  const head = xml.slice(0, 4096).replace(/<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<!doctype[^>[]*(?:\[[\s\S]*?\])?\s*>/gi, '');
+  const root = head.match(/<(?:[\w.-]+:)?([\w.-]+)/);
+  return root ? (ROOT_KINDS[root[1].toLowerCase()] ?? null) : null;
+}
+
+/**
+ * Parse a sitemap, sitemap index, RSS or Atom document.
+ *
+ * @param baseUrl - URL of the document, to resolve relative links
+ * @returns The feed, or `null` when the document is not one
+ */
+export function parseFeed(xml: string, baseUrl: string | null = null): Feed | null {
+  const kind = detectFeed(xml);
+  if (!kind) return null;
+
+  const doc = xml.replace(/<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>/g, (_match, data?: string) =>
+    data === undefined ? '' : escapeCdata(data),
+  );
+
+  switch (kind) {
+    case 'sitemap':
+    case 'sitemapindex': {
+      const entries = elements(doc, kind === 'sitemap' ? 'url' : 'sitemap').map(
+        (el): FeedEntry => ({
+          title: null,
+          link: resolveLink(text(first(el.inner, 'loc')), baseUrl),
+          date: parseDate(text(first(el.inner, 'lastmod'))),
+          summary: null,
+        }),
+      );
+      return { kind, title: null, link: null, entries };
+    }
+    case 'rss': {
+      const head = headOf(first(doc, 'channel')?.inner ?? '', 'item');
+      const entries = elements(doc, 'item').map(
+        (el): FeedEntry => ({
+          title: text(first(el.inner, 'title')),
+          link: resolveLink(rssLink(el), baseUrl),
+          date: parseDate(text(first(el.inner, 'pubDate') ?? first(el.inner, 'date'))),
+          summary: summary(first(el.inner, 'description') ?? first(el.inner, 'encoded')),
+        }),
+      );
+      const link = elements(head, 'link').map(text).find(Boolean);
+      return { kind, title: text(first(head, 'title')), link: resolveLink(link, baseUrl), entries };
+    }
+    case 'atom': {
+      const head = headOf(doc, 'entry');
+      const entries = elements(doc, 'entry').map(
+        (el): FeedEntry => ({
+          title: text(first(el.inner, 'title')),
+          link: resolveLink(atomLink(el.inner), baseUrl),
+          date: parseDate(text(first(el.inner, 'published') ?? first(el.inner, 'updated'))),
+          summary: summary(first(el.inner, 'summary') ?? first(el.inner, 'content')),
+        }),
+      );
+      return { kind, title: text(first(head, 'title')), link: resolveLink(atomLink(head), baseUrl), entries };
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Expansion
+// ---------------------------------------------------------------------------
+
+/**
+ * Fetch the sitemaps of an index and collect their URLs, until `limit`
+ * entries are found. Sitemaps that fail to load, and nested indexes, are skipped.
+ */
+async function flattenIndex(index: Feed, env: Env, limit: number): Promise<{ entries: FeedEntry[]; complete: boolean }> {
+  const entries: FeedEntry[] = [];
+  for (const sitemap of index.entries) {
+    if (entries.length >= limit) return { entries, complete: false };
+    if (!sitemap.link) continue;
+    try {
+      const doc = await loadFromUrl(sitemap.link, env, { feed: 'feed' });
+      if (doc.feed?.kind === 'sitemap') entries.push(...doc.feed.entries);
+    } catch (err) {
+      console.log(`Skipping sitemap ${sitemap.link}: ${errorMessage(err)}`);
+    }
+  }
+  return { entries, complete: true };
+}
+
+/**
+ * Select the entries of a feed and, with `expand`, convert the pages they link to.
+ *
+ * @param limit - Entries kept, in feed order (see `parseFeedLimit`)
+ * @param page  - Conversion options for linked pages
+ */
+export async function selectEntries(
+  feed: Feed,
+  env: Env,
+  ctx: ExecutionContext,
+  opts: { expand: boolean; limit: number; page: FeedPageOptions },
+): Promise<FeedSelection> {
+  let entries = feed.entries;
+  let complete = true;
+  if (opts.expand && feed.kind === 'sitemapindex') {
+    ({ entries, complete } = await flattenIndex(feed, env, opts.limit));
+  }
+
+  const selected: FeedItem[] = entries.slice(0, opts.limit).map((entry) => ({ ...entry }));
+  const truncated = !complete || selected.length < entries.length;
+  if (!opts.expand) return { total: entries.length, truncated, tokens: 0, entries: selected };
+
+  const linked = selected.filter((entry) => entry.link);
+  const results = await convertBatch(
+    linked.map((entry) => ({ ...opts.page, url: entry.link as string })),
+    env,
+    ctx,
+  );
+  for (const [i, entry] of linked.entries()) entry.result = results[i];
+
+  return { total: entries.length, truncated, tokens: batchTokens(results), entries: selected };
+}
+
+// ---------------------------------------------------------------------------
+// Digest
+// ---------------------------------------------------------------------------
+
+/**
+ * Render entries as one Markdown document.
+ *
+ * Each entry gets an H2 heading linking to it (titled by the converted page
+ * for untitled sitemap URLs), its date, and its converted page (headings
+ * demoted below the entry's) or else its summary.
+ */
+export function feedDigest(feed: Feed, entries: FeedItem[]): string {
+  const sections = entries.map((entry) => {
+    const pageTitle = entry.result?.success ? entry.result.metadata.title : null;
+    const title = escapeMarkdown(entry.title ?? pageTitle ?? entry.link ?? 'Untitled');
+    const heading = entry.link ? `## [${title}](${destination(entry.link)})` : `## ${title}`;
+
+    let body = entry.summary;
+    if (entry.result?.success) {
+      body = demoteHeadings(entry.result.markdown ?? '', 2).trim();
+    } else if (entry.result) {
+      body = [`> ${entry.result.error}`, entry.summary].filter(Boolean).join('\n\n');
+    }
+
+    return [heading, entry.date && `_${entry.date}_`, body].filter(Boolean).join('\n\n');
+  });
+
+  const title = feed.title && `# ${escapeMarkdown(feed.title)}`;
+  return `${[title, ...sections].filter(Boolean).join('\n\n')}\n`;
+}
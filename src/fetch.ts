@@ -1,9 +1,15 @@
 /**
  * HTTP fetch utilities
  * A robust fetch wrapper with configurable retries, exponential back-off,
- * request timeout, and transient-error awareness.
+ * request timeout, transient-error awareness, per-hop redirect checks,
+ * and a response size cap; plus validation of the fetch settings callers
+ * may override per request.
  */
 
+import { fetchAttemptsLimit, fetchDenyHeaders, fetchTimeoutLimit } from './config';
+import { HttpError } from './errors';
+import { PolicyError } from './policy';
+
 export interface FetchOptions {
   /** Max number of attempts (default: 3) */
   maxAttempts?: number;
@@ -15,17 +21,50 @@ export interface FetchOptions {
   referer?: string;
   /** Extra headers to merge in */
   headers?: Record<string, string>;
+  /** Validators from a previous response; sent as a conditional request */
+  validators?: Validators;
+  /** Max redirects to follow (default: 5) */
+  maxRedirects?: number;
+  /** Max response body size in bytes; the stream is aborted when exceeded */
+  maxBytes?: number;
+  /** Called with every URL before it is requested (including redirect hops); throw to reject */
+  checkUrl?: (url: string) => void;
+}
+
+/** The fetch settings a caller may override per request (see `parseFetchOverrides`) */
+export type FetchOverrides = Pick<FetchOptions, 'headers' | 'referer' | 'timeout' | 'maxAttempts'>;
+
+/** Raw per-request fetch settings, as received from GET parameters or a POST body */
+export interface FetchOverrideInput {
+  /** `{ "Name": "value" }`, or a list of `Name: value` strings */
+  headers?: unknown;
+  /** A `Cookie` header value (`a=1; b=2`), or `{ "name": "value" }` */
+  cookies?: unknown;
+  userAgent?: unknown;
+  referer?: unknown;
+  timeout?: unknown;
+  maxAttempts?: unknown;
 }
 
-const DEFAULTS: Required<Pick<FetchOptions, 'maxAttempts' | 'baseDelay' | 'timeout'>> = {
+/** Upstream cache validators (`ETag` / `Last-Modified`) */
+export interface Validators {
+  etag?: string;
+  lastModified?: string;
+}
+
+const DEFAULTS: Required<Pick<FetchOptions, 'maxAttempts' | 'baseDelay' | 'timeout' | 'maxRedirects'>> = {
   maxAttempts: 3,
   baseDelay: 800,
   timeout: 15_000,
+  maxRedirects: 5,
 };
 
 /** HTTP status codes that are safe to retry */
 const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
 
+/** HTTP status codes that carry a redirect `Location` */
+const REDIRECT_STATUS = new Set([301, 302, 303, 307, 308]);
+
 /** Browser-like default headers */
 function defaultHeaders(referer: string): Record<string, string> {
   return {
@@ -37,6 +76,26 @@ function defaultHeaders(referer: string): Record<string, string> {
   };
 }
 
+/** Headers that carry credentials: not forwarded across origins on redirect */
+const CREDENTIAL_HEADERS = new Set(['authorization', 'cookie']);
+
+/** Merge header sets; names are case-insensitive and later sets win */
+function mergeHeaders(...sets: (Record<string, string> | undefined)[]): Record<string, string> {
+  const merged = new Map<string, [string, string]>();
+  for (const set of sets) {
+    for (const [name, value] of Object.entries(set ?? {})) merged.set(name.toLowerCase(), [name, value]);
+  }
+  return Object.fromEntries(merged.values());
+}
+
+/** Build conditional request headers from cached validators */
+function conditionalHeaders(validators: Validators | undefined): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (validators?.etag) headers['If-None-Match'] = validators.etag;
+  if (validators?.lastModified) headers['If-Modified-Since'] = validators.lastModified;
+  return headers;
+}
+
 /** Sleep for a jittered duration to spread out retries */
 function sleep(base: number, attempt: number): Promise<void> {
   const exponential = base * 2 ** (attempt - 1);
@@ -44,19 +103,44 @@ function sleep(base: number, attempt: number): Promise<void> {
   return new Promise((r) => setTimeout(r, Math.round(jitter)));
 }
 
+/** Build the error raised when a response exceeds the size cap */
+function tooLarge(maxBytes: number): PolicyError {
+  return new PolicyError(`Response exceeds the maximum size of ${maxBytes} bytes.`, 'response_too_large', 413);
+}
+
 /**
- * Fetch a URL with automatic retries, timeout, and exponential back-off.
+ * Enforce a maximum body size.
  *
- * Retries on network errors **and** transient HTTP status codes (408, 429, 5xx).
- * Each request is guarded by an `AbortSignal.timeout` so slow responses
- * don't block indefinitely.
+ * Rejects up front when `Content-Length` is too large; otherwise wraps the
+ * body in a counting stream that errors (and cancels the upstream) as soon
+ * as the limit is crossed.
  */
-export async function robustFetch(url: string, opts: FetchOptions = {}): Promise<Response> {
-  const { maxAttempts, baseDelay, timeout } = { ...DEFAULTS, ...opts };
+function limitBody(response: Response, maxBytes: number | undefined): Response {
+  if (!maxBytes || !response.body) return response;
 
-  const origin = new URL(url);
-  const referer = opts.referer ?? `${origin.protocol}//${origin.hostname}`;
-  const headers = { ...defaultHeaders(referer), ...opts.headers };
+  if (Number(response.headers.get('content-length')) > maxBytes) {
+    response.body.cancel();
+    throw tooLarge(maxBytes);
+  }
+
+  let received = 0;
+  const limiter = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      received += chunk.byteLength;
+      if (received > maxBytes) {
+        controller.error(tooLarge(maxBytes));
+        return;
+      }
+      controller.enqueue(chunk);
+    },
+  });
+
+  return new Response(response.body.pipeThrough(limiter), response);
+}
+
+/** Fetch a single URL (no redirect following) with retries and timeout */
+async function fetchWithRetry(url: string, headers: Record<string, string>, opts: FetchOptions): Promise<Response> {
+  const { maxAttempts, baseDelay, timeout } = { ...DEFAULTS, ...opts };
 
   let lastError: unknown;
 
@@ -64,7 +148,7 @@ export async function robustFetch(url: string, opts: FetchOptions = {}): Promise
     try {
       const response = await fetch(url, {
         headers,
-        redirect: 'follow',
+        redirect: 'manual',
         signal: AbortSignal.timeout(timeout),
       });
 
@@ -88,3 +172,192 @@ export async function robustFetch(url: string, opts: FetchOptions = {}): Promise
 
   throw lastError ?? new Error(`Failed to fetch ${url} after ${maxAttempts} attempts`);
 }
+
+/**
+ * Fetch a URL with automatic retries, timeout, and exponential back-off.
+ *
+ * Retries on network errors **and** transient HTTP status codes (408, 429, 5xx).
+ * Each request is guarded by an `AbortSignal.timeout` so slow responses
+ * don't block indefinitely.
+ *
+ * Redirects are followed manually so that `checkUrl` sees every hop, up to
+ * `maxRedirects`. When `maxBytes` is set, the returned body errors with a
+ * `413` `PolicyError` once it grows past the limit.
+ *
+ * When `validators` are given, the request is conditional and the upstream
+ * may answer `304 Not Modified`. `Authorization` and `Cookie` headers are
+ * dropped once a redirect leaves the original origin.
+ *
+ * @throws {PolicyError} when a hop is rejected, redirects loop, or the body is too large
+ */
+export async function robustFetch(url: string, opts: FetchOptions = {}): Promise<Response> {
+  const { maxRedirects } = { ...DEFAULTS, ...opts };
+
+  const origin = new URL(url);
+  const referer = opts.referer ?? `${origin.protocol}//${origin.hostname}`;
+  let headers = mergeHeaders(defaultHeaders(referer), opts.headers, conditionalHeaders(opts.validators));
+
+  let current = url;
+
+  for (let hop = 0; ; hop++) {
+    opts.checkUrl?.(current);
+
+    const response = await fetchWithRetry(current, headers, opts);
+    const location = response.headers.get('location');
+
+    if (!REDIRECT_STATUS.has(response.status) || !location) {
+      return limitBody(response, opts.maxBytes);
+    }
+
+    await response.body?.cancel();
+
+    if (hop >= maxRedirects) {
+      throw new PolicyError(`Too many redirects (max ${maxRedirects}).`, 'too_many_redirects', 502);
+    }
+
+    current = new URL(location, current).toString();
+    if (new URL(current).origin !== origin.origin) {
+      headers = Object.fromEntries(Object.entries(headers).filter(([name]) => !CREDENTIAL_HEADERS.has(name.toLowerCase())));
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Per-request overrides
+// ---------------------------------------------------------------------------
+
+/** RFC 9110 header field names */
+const HEADER_NAME_RE = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+/** Whether a header name is matched by a denylist entry (`prefix-*` matches a prefix) */
+function isDenied(name: string, denylist: string[]): boolean {
+  const lower = name.toLowerCase();
+  return denylist.some((entry) => (entry.endsWith('*') ? lower.startsWith(entry.slice(0, -1)) : lower === entry));
+}
+
+/** C0 controls and DEL; horizontal tab is allowed inside field values */
+function isControlChar(ch: string): boolean {
+  const code = ch.charCodeAt(0);
+  return (code < 0x20 && code !== 0x09) || code === 0x7f;
+}
+
+/** Validate a header value: a string (or number) without control characters */
+function headerValue(value: unknown, name: string): string {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    throw new HttpError(`Invalid value for header "${name}": expected a string.`, 400, 'invalid_header');
+  }
+  const text = String(value).trim();
+  if ([...text].some(isControlChar)) {
+    throw new HttpError(`Invalid value for header "${name}": control characters are not allowed.`, 400, 'invalid_header');
+  }
+  return text;
+}
+
+/** Caller headers as name/value pairs: an object, or `Name: value` strings */
+function headerEntries(value: unknown): [string, unknown][] {
+  if (value === undefined || value === null || value === '') return [];
+  const lines = typeof value === 'string' ? [value] : value;
+  if (Array.isArray(lines)) {
+    return lines.map((line): [string, unknown] => {
+      const text = typeof line === 'string' ? line : '';
+      const separator = text.indexOf(':');
+      if (separator <= 0) throw new HttpError(`Invalid header "${String(line)}": expected "Name: value".`, 400, 'invalid_header');
+      return [text.slice(0, separator).trim(), text.slice(separator + 1)];
+    });
+  }
+  if (typeof value === 'object') return Object.entries(value);
+  throw new HttpError('Invalid "headers": expected an object or a list of "Name: value" strings.', 400, 'invalid_header');
+}
+
+/** A `Cookie` header value from a string or a name/value object */
+function cookieHeader(value: unknown): string | null {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value === 'string') return headerValue(value, 'Cookie');
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new HttpError('Invalid "cookies": expected a string or an object.', 400, 'invalid_header');
+  }
+  return Object.entries(value)
+    .map(([name, cookie]) => {
+      if (!HEADER_NAME_RE.test(name)) throw new HttpError(`Invalid cookie name "${name}".`, 400, 'invalid_header');
+      const text = headerValue(cookie, 'Cookie');
+      if (/[;,]/.test(text)) throw new HttpError(`Invalid value for cookie "${name}".`, 400, 'invalid_header');
+      return `${name}=${text}`;
+    })
+    .join('; ');
+}
+
+/** A `Referer` value: an absolute http(s) URL */
+function refererUrl(value: unknown): string {
+  const text = headerValue(value, 'Referer');
+  let url: URL;
+  try {
+    url = new URL(text);
+  } catch {
+    throw new HttpError('Invalid "referer": expected an absolute http(s) URL.', 400, 'invalid_header');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new HttpError('Invalid "referer": expected an absolute http(s) URL.', 400, 'invalid_header');
+  }
+  return url.toString();
+}
+
+/** A numeric override clamped into `[min, max]`; absent values stay unset */
+function clampOption(value: unknown, name: string, min: number, max: number): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n)) throw new HttpError(`Invalid "${name}": expected a number.`);
+  return Math.min(Math.max(Math.floor(n), min), max);
+}
+
+/**
+ * Validate the fetch settings a caller supplied for one conversion.
+ *
+ * Headers are checked against `fetchDenyHeaders`; `cookies` and `userAgent`
+ * become the `Cookie` and `User-Agent` headers, and `referer` (like a
+ * `Referer` header) must be an http(s) URL. `timeout` and `maxAttempts`
+ * are clamped to `FETCH_TIMEOUT_LIMIT_MS` / `FETCH_ATTEMPTS_LIMIT`.
+ *
+ * @throws {HttpError} 400 when a header is invalid (`invalid_header`) or denied (`header_not_allowed`)
+ */
+export function parseFetchOverrides(input: FetchOverrideInput, env: Env): FetchOverrides {
+  const denylist = fetchDenyHeaders(env);
+  let headers: Record<string, string> = {};
+
+  const set = (name: string, value: unknown) => {
+    if (!HEADER_NAME_RE.test(name)) throw new HttpError(`Invalid header name "${name}".`, 400, 'invalid_header');
+    if (isDenied(name, denylist)) throw new HttpError(`Header "${name}" cannot be overridden.`, 400, 'header_not_allowed');
+    headers = mergeHeaders(headers, { [name]: name.toLowerCase() === 'referer' ? refererUrl(value) : headerValue(value, name) });
+  };
+
+  for (const [name, value] of headerEntries(input.headers)) set(name, value);
+  const cookies = cookieHeader(input.cookies);
+  if (cookies) {
+    const existing = Object.entries(headers).find(([name]) => name.toLowerCase() === 'cookie')?.[1];
+    set('Cookie', existing ? `${existing}; ${cookies}` : cookies);
+  }
+  if (input.userAgent !== undefined && input.userAgent !== null && input.userAgent !== '') set('User-Agent', input.userAgent);
+
+  let referer: string | undefined;
+  if (input.referer !== undefined && input.referer !== null && input.referer !== '') {
+    if (isDenied('referer', denylist)) throw new HttpError('Header "Referer" cannot be overridden.', 400, 'header_not_allowed');
+    referer = refererUrl(input.referer);
+  }
+
+  return {
+    headers: Object.keys(headers).length > 0 ? headers : undefined,
+    referer,
+    timeout: clampOption(input.timeout, 'timeout', 1000, fetchTimeoutLimit(env)),
+    maxAttempts: clampOption(input.maxAttempts, 'maxAttempts', 1, fetchAttemptsLimit(env)),
+  };
+}
+
+/** Whether overrides change what the upstream sees (and so what it may answer): such pages are not cached */
+export function hasRequestIdentity(overrides: FetchOverrides): boolean {
+  return Boolean(overrides.headers || overrides.referer);
+}
+
+/** The headers overrides add to a request, `Referer` included (for renderers, which send their own defaults) */
+export function overrideHeaders(overrides: FetchOverrides): Record<string, string> | undefined {
+  if (!overrides.headers && !overrides.referer) return undefined;
+  return mergeHeaders(overrides.headers, overrides.referer ? { Referer: overrides.referer } : undefined);
+}
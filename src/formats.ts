@@ -0,0 +1,264 @@
+/**
+ * Response formats
+ *
+ * Selects the response format from the `format` parameter or, when it is
+ * absent, the `Accept` header, and renders Markdown into the non-JSON
+ * formats:
+ *  - `json`: the JSON envelope (default)
+ *  - `raw`: Markdown as `text/markdown`
+ *  - `text`: readable plain text with the Markdown syntax removed
+ *  - `html`: sanitized HTML rendered from the Markdown
+ *  - `mdast`: the Markdown syntax tree as JSON (see `mdast.ts`)
+ *
+ * Design:
+ *  - HTML is generated from the syntax tree, never passed through: all text
+ *    is escaped, raw HTML is dropped except a few attribute-less inline
+ *    tags, and link / image URLs are limited to safe schemes
+ *  - HTML responses also carry a restrictive Content-Security-Policy
+ */
+
+import { decodeEntities, parseHtml, textContent } from './dom';
+import { type MdNode, nodeText, parseMarkdown } from './mdast';
+
+export type ResponseFormat = 'json' | 'raw' | 'text' | 'html' | 'mdast';
+
+const RESPONSE_FORMATS: ResponseFormat[] = ['json', 'raw', 'text', 'html', 'mdast'];
+
+/** Media types understood in `Accept`, mapped to formats */
+const MEDIA_TYPES: Record<string, ResponseFormat> = {
+  'application/json': 'json',
+  'text/markdown': 'raw',
+  'text/x-markdown': 'raw',
+  'application/x-ndjson': 'raw',
+  'text/plain': 'text',
+  'text/html': 'html',
+};
+
+/** Inline HTML tags kept (without attributes) in `html` output */
+const SAFE_INLINE_TAGS = new Set(['b', 'i', 'em', 'strong', 'u', 's', 'del', 'ins', 'mark', 'small', 'sub', 'sup', 'kbd', 'br']);
+
+/** Content-Security-Policy for `html` responses: no scripts, styles or frames; images only */
+const HTML_CSP = "default-src 'none'; img-src http: https: data:; sandbox";
+
+/**
+ * Choose the response format.
+ *
+ * An explicit `format` parameter wins (unknown values fall back to `json`);
+ * otherwise the highest-quality supported media type in `Accept` is used.
+ */
+export function parseResponseFormat(value: string | null | undefined, accept: string | null = null): ResponseFormat {
+  if (value) return RESPONSE_FORMATS.find((format) => format === value) ?? 'json';
+  if (!accept) return 'json';
+
+  const ranges = accept
+    .split(',')
+    .map((part, order) => {
+      const [type, ...params] = part.split(';').map((s) => s.trim().toLowerCase());
+      const q = Number(params.find((p) => p.startsWith('q='))?.slice(2) ?? 1);
+      return { type, q: Number.isNaN(q) ? 0 : q, order };
+    })
+    .filter((range) => range.q > 0 && range.type in MEDIA_TYPES)
+    .sort((a, b) => b.q - a.q || a.order - b.order);
+
+  return ranges.length > 0 ? MEDIA_TYPES[ranges[0].type] : 'json';
+}
+
+// ---------------------------------------------------------------------------
+// HTML
+// ---------------------------------------------------------------------------
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/** Base for resolving relative URLs: they are emitted as-is, so only their scheme matters */
+const RELATIVE_BASE = 'http://relative.invalid/';
+
+/**
+ * Whether a URL is safe to emit: relative, http(s), mailto, or (for images) a raster `data:` URI.
+ *
+ * The URL is entity-decoded and parsed with the WHATWG URL parser, which
+ * strips C0 controls, spaces, tabs and newlines the way browsers do, so
+ * `java&#x09;script:` or a leading control character cannot hide a
+ * `javascript:` link.
+ */
+export function isSafeUrl(url: string, image: boolean): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(decodeEntities(url), RELATIVE_BASE);
+  } catch {
+    return false;
+  }
+  if (parsed.protocol === 'http:' || parsed.protocol === 'https:') return true;
+  if (parsed.protocol === 'mailto:') return !image;
+  return image && /^data:image\/(?:png|jpeg|gif|webp|avif)[;,]/i.test(parsed.href);
+}
+
+/** Keep only attribute-less tags from the safe list */
+function sanitizeInlineHtml(html: string): string {
+  const tag = html.match(/^<(\/?)([a-zA-Z]+)\s*\/?>$/);
+  if (!tag || !SAFE_INLINE_TAGS.has(tag[2].toLowerCase())) return '';
+  const name = tag[2].toLowerCase();
+  return name === 'br' ? '<br>' : `<${tag[1]}${name}>`;
+}
+
+function renderHtmlNodes(nodes: MdNode[] | undefined, tight = false): string {
+  return (nodes ?? []).map((node) => renderHtmlNode(node, tight)).join('');
+}
+
+/**
+ * Render one node.
+ *
+ * @param tight - Inside a tight list item: paragraphs are rendered without `<p>`
+ */
+function renderHtmlNode(node: MdNode, tight = false): string {
+  switch (node.type) {
+    case 'root':
+      return renderHtmlNodes(node.children);
+    case 'heading':
+      return `<h${node.depth}>${renderHtmlNodes(node.children)}</h${node.depth}>\n`;
+    case 'paragraph':
+      return tight ? `${renderHtmlNodes(node.children)}\n` : `<p>${renderHtmlNodes(node.children)}</p>\n`;
+    case 'blockquote':
+      return `<blockquote>\n${renderHtmlNodes(node.children)}</blockquote>\n`;
+    case 'list': {
+      const tag = node.ordered ? 'ol' : 'ul';
+      const start = node.ordered && node.start !== null && node.start !== 1 ? ` start="${node.start}"` : '';
+      return `<${tag}${start}>\n${renderHtmlNodes(node.children, !node.spread)}</${tag}>\n`;
+    }
+    case 'listItem': {
+      const checkbox = node.checked == null ? '' : `<input type="checkbox" disabled${node.checked ? ' checked' : ''}> `;
+      return `<li>${checkbox}${renderHtmlNodes(node.children, tight).replace(/\n$/, '')}</li>\n`;
+    }
+    case 'table': {
+      const [head, ...body] = node.children ?? [];
+      const row = (r: MdNode, cell: 'th' | 'td') =>
+        `<tr>${(r.children ?? [])
+          .map((c, n) => {
+            const align = node.align?.[n];
+            return `<${cell}${align ? ` align="${align}"` : ''}>${renderHtmlNodes(c.children)}</${cell}>`;
+          })
+          .join('')}</tr>\n`;
+      const tbody = body.length > 0 ? `<tbody>\n${body.map((r) => row(r, 'td')).join('')}</tbody>\n` : '';
+      return `<table>\n<thead>\n${head ? row(head, 'th') : ''}</thead>\n${tbody}</table>\n`;
+    }
+    case 'code': {
+      const lang = node.lang ? ` class="language-${escapeHtml(node.lang)}"` : '';
+      return `<pre><code${lang}>${escapeHtml(node.value ?? '')}${node.value ? '\n' : ''}</code></pre>\n`;
+    }
+    case 'thematicBreak':
+      return '<hr>\n';
+    case 'text':
+      return escapeHtml(node.value ?? '');
+    case 'emphasis':
+      return `<em>${renderHtmlNodes(node.children)}</em>`;
+    case 'strong':
+      return `<strong>${renderHtmlNodes(node.children)}</strong>`;
+    case 'delete':
+      return `<del>${renderHtmlNodes(node.children)}</del>`;
+    case 'inlineCode':
+      return `<code>${escapeHtml(node.value ?? '')}</code>`;
+    case 'break':
+      return '<br>\n';
+    case 'link': {
+      const content = renderHtmlNodes(node.children);
+      if (!node.url || !isSafeUrl(node.url, false)) return content;
+      const title = node.title ? ` title="${escapeHtml(node.title)}"` : '';
+      return `<a href="${escapeHtml(node.url)}"${title} rel="nofollow noopener noreferrer">${content}</a>`;
+    }
+    case 'image': {
+      if (!node.url || !isSafeUrl(node.url, true)) return escapeHtml(node.alt ?? '');
+      const title = node.title ? ` title="${escapeHtml(node.title)}"` : '';
+      return `<img src="${escapeHtml(node.url)}" alt="${escapeHtml(node.alt ?? '')}"${title} loading="lazy">`;
+    }
+    case 'html':
+      return sanitizeInlineHtml(node.value ?? '');
+    default:
+      // `yaml` frontmatter and anything unknown
+      return '';
+  }
+}
+
+/** Render Markdown to sanitized HTML */
+export function toHtml(markdown: string): string {
+  return renderHtmlNode(parseMarkdown(markdown));
+}
+
+// ---------------------------------------------------------------------------
+// Plain text
+// ---------------------------------------------------------------------------
+
+/** Render block nodes as plain text, separated by blank lines */
+function renderTextBlocks(nodes: MdNode[] | undefined): string {
+  return (nodes ?? [])
+    .map(renderTextBlock)
+    .filter((block) => block.trim())
+    .join('\n\n');
+}
+
+function renderTextBlock(node: MdNode): string {
+  switch (node.type) {
+    case 'heading':
+    case 'paragraph':
+      return renderTextInline(node.children);
+    case 'blockquote':
+      return renderTextBlocks(node.children);
+    case 'list':
+      return (node.children ?? [])
+        .map((item, n) => {
+          const marker = node.ordered ? `${(node.start ?? 1) + n}. ` : '- ';
+          const checkbox = item.checked == null ? '' : item.checked ? '[x] ' : '[ ] ';
+          const content = (item.children ?? [])
+            .map(renderTextBlock)
+            .filter(Boolean)
+            .join(node.spread ? '\n\n' : '\n');
+          return `${marker}${checkbox}${content.replace(/\n/g, `\n${' '.repeat(marker.length)}`)}`;
+        })
+        .join(node.spread ? '\n\n' : '\n');
+    case 'table':
+      return (node.children ?? []).map((row) => (row.children ?? []).map((cell) => renderTextInline(cell.children)).join('\t')).join('\n');
+    case 'code':
+      return node.value ?? '';
+    case 'html':
+      return textContent(parseHtml(node.value ?? '')).trim();
+    case 'thematicBreak':
+    case 'yaml':
+      return '';
+    default:
+      return renderTextInline([node]);
+  }
+}
+
+function renderTextInline(nodes: MdNode[] | undefined): string {
+  return (nodes ?? []).map((node) => (node.type === 'html' ? (node.value?.match(/^<br\s*\/?>$/i) ? '\n' : '') : nodeText(node))).join('');
+}
+
+/** Render Markdown as readable plain text */
+export function toPlainText(markdown: string): string {
+  return renderTextBlocks(parseMarkdown(markdown).children);
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+/**
+ * Render Markdown in a non-JSON format.
+ *
+ * @returns The response body and its headers (`Content-Type`, plus a CSP for HTML)
+ */
+export function renderMarkdown(
+  markdown: string,
+  format: Exclude<ResponseFormat, 'json'>,
+): { body: string; headers: Record<string, string> } {
+  switch (format) {
+    case 'text':
+      return { body: toPlainText(markdown), headers: { 'Content-Type': 'text/plain; charset=utf-8' } };
+    case 'html':
+      return { body: toHtml(markdown), headers: { 'Content-Type': 'text/html; charset=utf-8', 'Content-Security-Policy': HTML_CSP } };
+    case 'mdast':
+      return { body: JSON.stringify(parseMarkdown(markdown), null, 2), headers: { 'Content-Type': 'application/json; charset=utf-8' } };
+    default:
+      return { body: markdown, headers: { 'Content-Type': 'text/markdown; charset=utf-8' } };
+  }
+}
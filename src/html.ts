@@ -1,8 +1,100 @@
 /**
  * HTML processing utilities
- * Title extraction, content escaping, lazy-image preprocessing, and WeChat article extraction.
+ * Title extraction, content escaping, lazy-image preprocessing, element
+ * selection helpers, link collection, WeChat article extraction, and SPA
+ * shell detection with embedded-state recovery.
  */
 
+import { decodeEntities } from './dom';
+
+/** Identifies an element by tag name, id, and/or class name */
+export interface ElementSelector {
+  tag?: string;
+  id?: string;
+  className?: string;
+}
+
+/** Elements that never have content or a closing tag */
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+/** Escape a string for literal use inside a RegExp */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Build a RegExp matching the opening tag of a selector */
+function openingTagPattern(selector: ElementSelector): RegExp {
+  const tag = selector.tag ? escapeRegExp(selector.tag) : '[a-zA-Z][\\w-]*';
+  let attrs = '';
+  if (selector.id) {
+    attrs += `(?=[^>]*\\sid=["']${escapeRegExp(selector.id)}["'])`;
+  }
+  if (selector.className) {
+    attrs += `(?=[^>]*\\sclass=["'](?:[^"']*\\s)?${escapeRegExp(selector.className)}(?:\\s[^"']*)?["'])`;
+  }
+  return new RegExp(`<(${tag})\\b${attrs}[^>]*>`, 'i');
+}
+
+/**
+ * Find the first element matching a selector.
+ *
+ * Nested elements with the same tag name are balanced, so the returned
+ * markup covers the whole subtree. Returns `null` when nothing matches.
+ */
+export function findElement(html: string, selector: ElementSelector): { outer: string; inner: string; start: number; end: number } | null {
+  const open = openingTagPattern(selector).exec(html);
+  if (!open) return null;
+
+  const contentStart = open.index + open[0].length;
+  if (VOID_ELEMENTS.has(open[1].toLowerCase()) || open[0].endsWith('/>')) {
+    return { outer: open[0], inner: '', start: open.index, end: contentStart };
+  }
+
+  const name = escapeRegExp(open[1]);
+  const tags = new RegExp(`<(/?)${name}\\b[^>]*?(/?)>`, 'gi');
+  tags.lastIndex = contentStart;
+
+  let depth = 1;
+  for (let tag = tags.exec(html); tag; tag = tags.exec(html)) {
+    if (tag[2]) continue; // self-closing
+    depth += tag[1] ? -1 : 1;
+    if (depth === 0) {
+      const end = tag.index + tag[0].length;
+      return { outer: html.slice(open.index, end), inner: html.slice(contentStart, tag.index), start: open.index, end };
+    }
+  }
+
+  // Unbalanced markup: take everything to the end of the document
+  return { outer: html.slice(open.index), inner: html.slice(contentStart), start: open.index, end: html.length };
+}
+
+/** Remove every element matching any of the selectors (including its subtree) */
+export function removeElements(html: string, selectors: ElementSelector[]): string {
+  let result = html;
+  for (const selector of selectors) {
+    for (let el = findElement(result, selector); el; el = findElement(result, selector)) {
+      result = result.slice(0, el.start) + result.slice(el.end);
+    }
+  }
+  return result;
+}
+
+/** Wrap extracted content in a minimal HTML document */
+export function wrapHtml(content: string, wrapper = '<article>'): string {
+  const closing = `</${wrapper.match(/^<([\w-]+)/)?.[1] ?? 'article'}>`;
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+</head>
+<body>
+${wrapper}
+${content}
+${closing}
+</body>
+</html>`;
+}
+
 /**
  * Check if the HTML is a WeChat Official Account article.
  * Detects based on common patterns in WeChat article pages.
@@ -21,27 +113,198 @@ export function extractWeChatContent(html: string): string {
   const contentMatch = html.match(/<div[^>]*id=["']js_content["'][^>]*>([\s\S]*?)<\/div>\s*(?:<\/div>|<script)/i);
 
   if (contentMatch?.[1]) {
-    const content = contentMatch[1].trim();
-
     // Build a minimal HTML structure with the extracted content
     // This preserves the content while removing unnecessary page elements
-    return `<!DOCTYPE html>
-<html>
-<head>
-<meta charset="utf-8">
-</head>
-<body>
-<div id="js_content">
-${content}
-</div>
-</body>
-</html>`;
+    return wrapHtml(contentMatch[1].trim(), '<div id="js_content">');
   }
 
   // If extraction fails, return original HTML
   return html;
 }
 
+/** Ids of the elements client-side frameworks mount into */
+const SPA_MOUNT_RE = /<(?:div|main|app-root)\b[^>]*\bid=["']?(?:root|app|__next|__nuxt|___gatsby|svelte|q-app)["'\s>]/i;
+
+/** `<noscript>` notices asking for JavaScript */
+const NOSCRIPT_NOTICE_RE = /<noscript\b[^>]*>[\s\S]*?javascript[\s\S]*?<\/noscript>/i;
+
+/** Application state serialised into the page */
+const EMBEDDED_STATE_RE = /__NEXT_DATA__|__NUXT(?:_DATA)?__|__INITIAL_STATE__|__PRELOADED_STATE__/;
+
+/** A body with less visible text than this counts as near-empty */
+const SPA_MAX_TEXT = 200;
+
+/** Visible text of the body: scripts, styles, templates and `<noscript>` are not shown */
+function visibleText(html: string): string {
+  const body = html.match(/<body\b[^>]*>([\s\S]*)/i)?.[1] ?? html;
+  return decodeEntities(body.replace(/<(script|style|noscript|template|svg)\b[\s\S]*?<\/\1>/gi, '').replace(/<[^>]*>/g, ' '))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Check if the HTML is the shell of a client-rendered app (SPA).
+ * The body is near-empty and the page mounts a framework (`<div id="root">`),
+ * asks for JavaScript in `<noscript>`, or carries serialised app state.
+ */
+export function isSpaShell(html: string): boolean {
+  if (visibleText(html).length >= SPA_MAX_TEXT) return false;
+  return SPA_MOUNT_RE.test(html) || NOSCRIPT_NOTICE_RE.test(html) || EMBEDDED_STATE_RE.test(html);
+}
+
+/** Parse JSON, tolerating the bare `undefined` values JavaScript serialisers leave in */
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    try {
+      return JSON.parse(text.replace(/:\s*undefined\b/g, ':null'));
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/** The object or array literal starting at `start`, up to its matching bracket */
+function balancedLiteral(text: string, start: number): string | null {
+  if (text[start] !== '{' && text[start] !== '[') return null;
+
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = start; i < text.length; i++) {
+    const c = text[i];
+    if (quote) {
+      if (c === '\\') i++;
+      else if (c === quote) quote = null;
+    } else if (c === '"' || c === "'") {
+      quote = c;
+    } else if (c === '{' || c === '[') {
+      depth++;
+    } else if (c === '}' || c === ']') {
+      if (--depth === 0) return text.slice(start, i + 1);
+    }
+  }
+  return null;
+}
+
+/** JSON content of `<script id="…">` */
+function scriptJson(html: string, id: string): unknown {
+  const m = html.match(new RegExp(`<script\\b[^>]*\\bid=["']${escapeRegExp(id)}["'][^>]*>([\\s\\S]*?)</script>`, 'i'));
+  return m ? parseJson(m[1].trim()) : undefined;
+}
+
+/** JSON literal assigned to a global (`window.__INITIAL_STATE__ = {…}`); function-wrapped state is not evaluated */
+function assignedJson(html: string, name: string): unknown {
+  const m = new RegExp(`\\b${escapeRegExp(name)}\\s*=\\s*`).exec(html);
+  if (!m) return undefined;
+  const literal = balancedLiteral(html, m.index + m[0].length);
+  return literal ? parseJson(literal) : undefined;
+}
+
+/**
+ * Rebuild a value from the devalue payload Nuxt 3 embeds as `__NUXT_DATA__`.
+ *
+ * The payload is a flat array whose objects and arrays reference other
+ * entries by index; typed entries (`["Reactive", 5]`, `["Date", "…"]`) are
+ * unwrapped to their payload.
+ */
+function unflattenDevalue(values: unknown[]): unknown {
+  const hydrate = (index: unknown, depth: number): unknown => {
+    if (typeof index !== 'number' || index < 0 || depth > 64) return undefined;
+    const value = values[index];
+    if (Array.isArray(value)) {
+      if (typeof value[0] === 'string') return typeof value[1] === 'number' ? hydrate(value[1], depth + 1) : value[1];
+      return value.map((i) => hydrate(i, depth + 1));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, i]) => [key, hydrate(i, depth + 1)]));
+    }
+    return value;
+  };
+  return hydrate(0, 0);
+}
+
+/** Application state serialised into a page by a client-side framework, or `undefined` */
+function extractEmbeddedState(html: string): unknown {
+  const next = scriptJson(html, '__NEXT_DATA__');
+  if (next !== undefined) return next;
+
+  const nuxt = scriptJson(html, '__NUXT_DATA__');
+  if (Array.isArray(nuxt)) return unflattenDevalue(nuxt);
+
+  for (const name of ['__NUXT__', '__INITIAL_STATE__', '__PRELOADED_STATE__']) {
+    const state = assignedJson(html, name);
+    if (state !== undefined) return state;
+  }
+  return undefined;
+}
+
+/** Strings shorter than this are not taken as an article body */
+const MIN_ARTICLE_LENGTH = 500;
+
+/** Keys that hold an article body as plain text or Markdown */
+const ARTICLE_BODY_KEY_RE = /^(?:content|body|text|article|articleBody|markdown|md)$/i;
+
+/** Block-level markup: a string containing it is an HTML body */
+const BLOCK_TAG_RE = /<(?:p|h[1-6]|div|br|img|ul|ol|pre|blockquote|figure|section|article|table)\b/i;
+
+/** Title of the object holding an article body (or of its parent, for `{ content: { rendered } }` shapes) */
+function articleTitle(ancestors: Record<string, unknown>[]): string | null {
+  for (const obj of ancestors) {
+    for (const key of ['title', 'headline', 'subject', 'name']) {
+      const value = obj[key];
+      if (typeof value === 'string' && value.trim()) return value.trim();
+      const rendered = (value as { rendered?: unknown } | null)?.rendered;
+      if (typeof rendered === 'string' && rendered.trim()) return decodeEntities(rendered.replace(/<[^>]*>/g, '')).trim();
+    }
+  }
+  return null;
+}
+
+/**
+ * Rebuild the article of an SPA shell from its embedded state.
+ *
+ * Looks through `__NEXT_DATA__`, `__NUXT_DATA__` / `window.__NUXT__` and
+ * `window.__INITIAL_STATE__` for the longest string that is an HTML body
+ * (or a plain-text body under a key such as `content`), and wraps it with
+ * its title in a minimal HTML document. Returns `null` when the page
+ * carries no usable state.
+ */
+export function extractEmbeddedArticle(html: string): string | null {
+  const state = extractEmbeddedState(html);
+  if (state === undefined) return null;
+
+  let best: { body: string; markup: boolean; title: string | null; score: number } | null = null;
+  const visit = (value: unknown, key: string, ancestors: Record<string, unknown>[], depth: number) => {
+    if (depth > 64) return;
+    if (typeof value === 'string') {
+      if (value.length < MIN_ARTICLE_LENGTH) return;
+      const markup = BLOCK_TAG_RE.test(value);
+      if (!markup && !ARTICLE_BODY_KEY_RE.test(key)) return;
+      const score = markup ? value.replace(/<[^>]*>/g, '').length : value.length;
+      if (!best || score > best.score) best = { body: value, markup, title: articleTitle(ancestors), score };
+    } else if (Array.isArray(value)) {
+      for (const item of value) visit(item, key, ancestors, depth + 1);
+    } else if (value && typeof value === 'object') {
+      const obj = value as Record<string, unknown>;
+      for (const [k, v] of Object.entries(obj)) visit(v, k, [obj, ...ancestors.slice(0, 1)], depth + 1);
+    }
+  };
+  visit(state, '', [], 0);
+  if (!best) return null;
+
+  const { body, markup, title } = best as { body: string; markup: boolean; title: string | null };
+  const content = markup
+    ? body
+    : body
+        .split(/\n\s*\n/)
+        .map((paragraph) => paragraph.trim())
+        .filter(Boolean)
+        .map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`)
+        .join('\n');
+  return wrapHtml(title ? `<h1>${escapeHtml(title)}</h1>\n${content}` : content);
+}
+
 /**
  * Extract a meaningful page title from raw HTML.
  *
@@ -75,6 +338,46 @@ export function extractTitle(html: string, fallbackId: string): string {
     .substring(0, 100);
 }
 
+/**
+ * Collect the targets of `<a href>` links in a page.
+ *
+ * Hrefs are entity-decoded and resolved against `baseUrl` (or the page's
+ * `<base href>`); only `http(s)` URLs are kept, without their fragment and
+ * without duplicates, in document order.
+ */
+export function extractLinks(html: string, baseUrl: string): string[] {
+  const attr = /\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/i;
+  const hrefOf = (tag: string) => {
+    const m = tag.match(attr);
+    return m ? decodeEntities(m[1] ?? m[2] ?? m[3]).trim() : null;
+  };
+
+  let base = baseUrl;
+  const baseHref = hrefOf(html.match(/<base\b[^>]*>/i)?.[0] ?? '');
+  if (baseHref) {
+    try {
+      base = new URL(baseHref, baseUrl).toString();
+    } catch {
+      // Invalid <base>: keep the page URL
+    }
+  }
+
+  const links = new Set<string>();
+  for (const [tag] of html.matchAll(/<a\b[^>]*>/gi)) {
+    const href = hrefOf(tag);
+    if (!href) continue;
+    try {
+      const url = new URL(href, base);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') continue;
+      url.hash = '';
+      links.add(url.toString());
+    } catch {
+      // Unresolvable href
+    }
+  }
+  return [...links];
+}
+
 /** Escape HTML special characters in text content */
 export function escapeHtml(unsafe: string): string {
   return unsafe.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#039;');
@@ -0,0 +1,107 @@
+/**
+ * Image handling modes
+ *
+ * Controls what happens to image references in the converted Markdown:
+ *  - `keep`: leave image URLs untouched
+ *  - `proxy`: mirror allowlisted images to R2 in the background (default;
+ *    same as `keep` when R2 is not configured)
+ *  - `sync`: mirror to R2 and wait, rewriting only images that were stored
+ *  - `inline`: download each image and embed it as a `data:` URI, up to
+ *    `IMAGE_INLINE_MAX_KB` per image and `IMAGE_INLINE_MAX_TOTAL_KB` /
+ *    `IMAGE_INLINE_MAX_COUNT` per document (images past a limit, or that
+ *    fail to download, keep their URL)
+ *  - `strip`: remove image syntax, keeping the alt text as plain text
+ */
+
+import { imageInlineMaxBytes, imageInlineMaxCount, imageInlineMaxTotalBytes, imageUploadConcurrency } from './config';
+import { errorMessage } from './errors';
+import { collectMarkdownImages, downloadImage, IMG_TAG_RE, MD_IMAGE_RE, replaceImageSources } from './r2';
+import { encodeBase64 } from './upload';
+
+export type ImageMode = 'keep' | 'proxy' | 'sync' | 'inline' | 'strip';
+
+const IMAGE_MODES: ImageMode[] = ['keep', 'proxy', 'sync', 'inline', 'strip'];
+
+/** Parse the `images` request parameter */
+export function parseImageMode(value: string | null | undefined): ImageMode {
+  return IMAGE_MODES.find((mode) => mode === value) ?? 'proxy';
+}
+
+/**
+ * Embed the Markdown's images as `data:` URIs.
+ *
+ * Every HTTP(S) image is downloaded (through the URL policy, with the same
+ * per-host Referer rules as the R2 proxy); images over the size cap, or that
+ * fail to download, keep their original URL. Images are embedded in document
+ * order until the total byte budget or the image count is used up; the rest
+ * keep their URL too.
+ *
+ * @param url - Source page URL, used to resolve relative images and as Referer
+ */
+export async function inlineImages(markdown: string, url: string | null, env: Env): Promise<string> {
+  const images = collectMarkdownImages(markdown, url);
+  if (images.length === 0) return markdown;
+
+  const maxBytes = imageInlineMaxBytes(env);
+  const maxCount = imageInlineMaxCount(env);
+  const concurrency = imageUploadConcurrency(env);
+  const dataUris = new Map<string, string>();
+  const urls = [...new Set(images.map((image) => image.url))];
+  let budget = imageInlineMaxTotalBytes(env);
+
+  let next = 0;
+  while (next < urls.length && dataUris.size < maxCount && budget > 0) {
+    // Never download more than the remaining budget or image slots allow
+    const batch = urls.slice(next, next + Math.min(concurrency, maxCount - dataUris.size));
+    next += batch.length;
+    const cap = Math.min(maxBytes, budget);
+
+    const downloads = await Promise.all(
+      batch.map(async (imageUrl) => {
+        try {
+          return await downloadImage(imageUrl, url, env, cap);
+        } catch (err) {
+          console.log(`Image inline skipped: ${errorMessage(err)}: ${imageUrl}`);
+          return null;
+        }
+      }),
+    );
+
+    // Spend the budget in document order
+    batch.forEach((imageUrl, index) => {
+      const download = downloads[index];
+      if (!download) return;
+      if (download.data.byteLength > budget) {
+        console.log(`Image inline skipped: total size limit reached: ${imageUrl}`);
+        return;
+      }
+      budget -= download.data.byteLength;
+      dataUris.set(imageUrl, `data:${download.contentType};base64,${encodeBase64(download.data)}`);
+    });
+  }
+  if (next < urls.length) {
+    console.log(`Image inline stopped after ${dataUris.size} images: ${urls.length - next} left as links`);
+  }
+
+  const replacements = new Map<string, string>();
+  for (const image of images) {
+    const dataUri = dataUris.get(image.url);
+    if (dataUri) replacements.set(image.source, dataUri);
+  }
+  return replaceImageSources(markdown, replacements);
+}
+
+/** The `alt` text of an `<img>` tag */
+function altText(tag: string): string {
+  const match = tag.match(/\balt\s*=\s*(?:"([^"]*)"|'([^']*)')/i);
+  return match ? (match[1] ?? match[2]) : '';
+}
+
+/** Remove image syntax from Markdown, keeping alt text as plain text */
+export function stripImages(markdown: string): string {
+  return markdown
+    .replace(MD_IMAGE_RE, (_match, alt: string) => alt.trim())
+    .replace(IMG_TAG_RE, (tag) => altText(tag).trim())
+    .replace(/^[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n');
+}
@@ -8,31 +8,49 @@
  *   GET  /?url=https://example.com
  *   POST / { "url": "https://example.com" }
  *   POST / { "content": "<html>...</html>", "contentType": "text/html", "fileName": "page.html" }
+ *   POST / (multipart/form-data with one or more files, or a raw body such as application/pdf)
+ *   POST /batch { "items": [{ "url": "..." }, { "content": "..." }] }
+ *   POST /crawl { "url": "...", "maxDepth": 2, "maxPages": 20, "include": ["/docs/"] }  (large crawls → 202, poll /jobs/:id)
+ *   POST /jobs { "url": "...", "webhook": "https://..." }  or  { "items": [...] }  → 202 { id, status }
+ *   GET  /jobs/:id    DELETE /jobs/:id
+ *   POST /admin/cleanup[?dryRun=true]  (Authorization: Bearer <ADMIN_TOKEN>)
  *
- * Response: { success, url, name, mimeType, tokens, markdown }
+ * Options:
+ *   stream=true|sse|ndjson — stream stage events and a final result event instead of a single response
+ *   format=json|raw|text|html|mdast — response format (default: from the Accept header, else json)
+ *   cache=bypass  — skip the conversion cache entirely
+ *   cache=refresh — ignore any cached result and store a fresh conversion
+ *   extract=main  — keep only the main article (readability scoring) when no site extractor matches
+ *   converter=auto|ai|local — conversion backend (default: Workers AI, with a local fallback for HTML)
+ *   render=true   — load the page in a headless browser (BROWSER binding); waitFor=<selector> instead of network idle
+ *   render=false  — never render (by default, SPA shells without usable embedded state are rendered when possible)
+ *   headers, cookies, userAgent, referer — per-request fetch headers (denylisted headers are rejected; such conversions are not cached)
+ *   timeout, maxAttempts — per-request fetch limits, clamped to FETCH_TIMEOUT_LIMIT_MS / FETCH_ATTEMPTS_LIMIT
+ *   clean=true    — post-process the Markdown (or a list: resolve,tracking,empty,headings,whitespace,unlink)
+ *   output=chunks — split the Markdown into chunks under a token budget (chunkTokens, chunkOverlap); NDJSON with format=raw
+ *   frontmatter=true — prepend page metadata to the Markdown as YAML frontmatter
+ *   images=proxy|sync|keep|inline|strip — image handling (default: proxy to R2 when configured)
+ *   mode=auto|feed|document — sitemap/RSS/Atom detection; feeds return their entries (expand=true converts them, limit, digest=true)
+ *
+ * Authentication (when API_KEYS or API_KEYS_KV is configured):
+ *   Authorization: Bearer <key>   or   X-API-Key: <key>
+ *
+ * Response: { success, url, name, mimeType, tokens, converter, extractor, charset, strategy, metadata, images?, cached?, cacheAge?, markdown | chunks }
+ * Feed response: { success, url, kind, title, link, total, truncated, tokens, entries | markdown }
  */
 
-import { fetchMaxAttempts, fetchTimeout } from './config';
-import { errorResponse, handlePreflight, jsonResponse, textResponse } from './cors';
-import { robustFetch } from './fetch';
-import { extractTitle, extractWeChatContent, isWeChatArticle, preprocessHtml } from './html';
-import { collectImageUrls, rewriteImageUrls, uploadImages } from './r2';
-
-/** Derive a filename from a URL path */
-function getFileName(url: string): string {
-  try {
-    const segment = new URL(url).pathname.split('/').filter(Boolean).pop();
-    if (segment?.includes('.')) return segment;
-    return segment ? `${segment}.html` : 'page.html';
-  } catch {
-    return 'page.html';
-  }
-}
+import { authenticate, checkRateLimit, rateLimitHeaders, recordTokens, type Usage } from './auth';
+import { handleBatch } from './batch';
+import { handleAdminCleanup, sweepExpiredObjects } from './cleanup';
+import { authEnabled } from './config';
+import { handleConvert } from './convert';
+import { errorResponse, handlePreflight, withHeaders } from './cors';
+import { handleCrawl } from './crawl';
+import { errorMessage } from './errors';
+import { handleJobs, type JobMessage, processJobs } from './jobs';
 
-/** Determine whether the content type is HTML */
-function isHtmlContent(contentType: string): boolean {
-  return contentType.includes('text/html') || contentType.includes('application/xhtml');
-}
+export { RateLimiter } from './auth';
+export { JobTracker } from './jobs';
 
 export default {
   async fetch(request, env, ctx): Promise<Response> {
@@ -41,180 +59,62 @@ export default {
       return handlePreflight(env);
     }
 
-    // --- Parse request parameters ---
-    let targetUrl: string | null = null;
-    let directContent: string | null = null;
-    let directContentType: string | null = null;
-    let directFileName: string | null = null;
-    let rawFormat = false;
-
-    if (request.method === 'GET') {
-      const params = new URL(request.url).searchParams;
-      targetUrl = params.get('url');
-      rawFormat = params.get('format') === 'raw';
-    } else if (request.method === 'POST') {
-      try {
-        const body = (await request.json()) as {
-          url?: string;
-          content?: string;
-          html?: string;
-          contentType?: string;
-          fileName?: string;
-          format?: string;
-        };
-        targetUrl = body.url ?? null;
-        // Support both 'content' and 'html' for direct content
-        directContent = body.content ?? body.html ?? null;
-        directContentType = body.contentType ?? null;
-        directFileName = body.fileName ?? null;
-        rawFormat = body.format === 'raw';
-      } catch {
-        return errorResponse(env, 'Invalid JSON body. Expected: { "url": "https://..." } or { "content": "..." }');
-      }
-    } else {
-      return errorResponse(env, 'Method not allowed. Use GET or POST.', 405);
+    // Admin routes use their own token and are not rate limited
+    if (new URL(request.url).pathname === '/admin/cleanup') {
+      return handleAdminCleanup(request, env);
     }
 
-    // No URL or content provided — return usage info
-    if (!targetUrl && !directContent) {
-      return jsonResponse(env, {
-        success: true,
-        message: 'Anything-MD API — Convert any URL or content to Markdown',
-        usage: {
-          GET: '/?url=https://example.com',
-          POST_URL: '{ "url": "https://example.com" }',
-          POST_CONTENT: '{ "content": "<html>...</html>", "contentType": "text/html", "fileName": "page.html" }',
-          POST_HTML: '{ "html": "<html>...</html>" }',
-        },
-      });
-    }
+    // API key authentication and rate limiting (only when keys are configured)
+    const apiKey = authEnabled(env) ? await authenticate(request, env) : null;
+    let limitHeaders: Record<string, string> = {};
 
-    // Validate URL format if URL is provided
-    if (targetUrl) {
-      try {
-        new URL(targetUrl);
-      } catch {
-        return errorResponse(env, 'Invalid URL provided.');
+    if (authEnabled(env)) {
+      if (!apiKey) {
+        return errorResponse(env, 'Missing or invalid API key. Use "Authorization: Bearer <key>" or "X-API-Key: <key>".', 401);
       }
-    }
-
-    try {
-      let body: ArrayBuffer;
-      let contentType: string;
-      let fileName: string;
 
-      // Branch 1: Direct content provided
-      if (directContent) {
-        // Use provided contentType or default to text/html
-        contentType = directContentType || 'text/html';
-        fileName = directFileName || 'content.html';
-
-        // For HTML content: extract title first, then process content
-        if (isHtmlContent(contentType)) {
-          // Step 1: Extract title from original HTML (before any processing)
-          if (!directFileName) {
-            const title = extractTitle(directContent, 'content');
-            fileName = `${title}.html`;
-          }
-
-          // Step 2: Extract WeChat content if applicable
-          let processedContent = directContent;
-          if (isWeChatArticle(directContent)) {
-            processedContent = extractWeChatContent(directContent);
-          }
-
-          // Step 3: Preprocess lazy-loaded images
-          processedContent = preprocessHtml(processedContent);
-          body = new TextEncoder().encode(processedContent).buffer as ArrayBuffer;
-        } else {
-          // Non-HTML content: encode directly
-          body = new TextEncoder().encode(directContent).buffer as ArrayBuffer;
-        }
+      const limit = await checkRateLimit(apiKey, env);
+      limitHeaders = rateLimitHeaders(limit);
+      if (!limit.allowed) {
+        const message = limit.reason === 'tokens' ? 'Daily token limit exceeded.' : 'Rate limit exceeded.';
+        return withHeaders(errorResponse(env, message, 429), limitHeaders);
       }
-      // Branch 2: Fetch from URL
-      else if (targetUrl) {
-        const response = await robustFetch(targetUrl, {
-          timeout: fetchTimeout(env),
-          maxAttempts: fetchMaxAttempts(env),
-        });
-
-        if (!response.ok) {
-          return errorResponse(env, `Failed to fetch URL: ${response.status} ${response.statusText}`, 502);
-        }
-
-        contentType = response.headers.get('content-type') || 'application/octet-stream';
-        body = await response.arrayBuffer();
-        fileName = getFileName(targetUrl);
-
-        // For HTML content: extract title first, then process content
-        if (isHtmlContent(contentType)) {
-          const rawHtml = new TextDecoder().decode(body);
-
-          // Step 1: Extract title from original HTML (before any processing)
-          const title = extractTitle(rawHtml, fileName.replace(/\.html$/, ''));
-          fileName = `${title}.html`;
-
-          // Step 2: Extract WeChat content if applicable
-          let processedHtml = rawHtml;
-          if (isWeChatArticle(rawHtml)) {
-            processedHtml = extractWeChatContent(rawHtml);
-          }
-
-          // Step 3: Preprocess lazy-loaded images
-          processedHtml = preprocessHtml(processedHtml);
-          body = new TextEncoder().encode(processedHtml).buffer as ArrayBuffer;
-        }
-      } else {
-        return errorResponse(env, 'No URL or content provided.');
-      }
-
-      // Convert to Markdown via Workers AI
-      const results = await env.AI.toMarkdown([
-        {
-          name: fileName,
-          blob: new Blob([body], { type: contentType }),
-        },
-      ]);
-
-      const result = results[0];
-
-      if (result.format === 'error') {
-        return errorResponse(env, `Conversion failed: ${result.error}`, 422);
-      }
-
-      let markdown = result.data ?? '';
+    }
 
-      // Strip YAML frontmatter if present (generated by Workers AI toMarkdown)
-      markdown = markdown.replace(/^---\n[\s\S]*?\n---\n*/, '');
+    const usage: Usage = { tokens: 0 };
+    const path = new URL(request.url).pathname;
+    let response: Response;
+    if (path === '/batch') {
+      response = await handleBatch(request, env, ctx, usage);
+    } else if (path === '/crawl') {
+      response = await handleCrawl(request, env, ctx, usage, apiKey);
+    } else if (path === '/jobs' || path.startsWith('/jobs/')) {
+      // Job tokens are charged by the queue consumer
+      response = await handleJobs(request, env, apiKey);
+    } else {
+      response = await handleConvert(request, env, ctx, usage);
+    }
 
-      // Proxy WeChat images through R2 (if configured)
-      const rawHtmlForImages = isHtmlContent(contentType) ? new TextDecoder().decode(body) : '';
+    // Charge the tokens spent to the key's daily budget (after a streamed conversion finishes)
+    if (apiKey) {
+      ctx.waitUntil(
+        Promise.resolve(usage.settled)
+          .then(() => recordTokens(apiKey, usage.tokens, env))
+          .catch((err) => console.log(`Token accounting failed: ${errorMessage(err)}`)),
+      );
+    }
 
-      if (env.IMAGES_BUCKET && env.R2_PUBLIC_URL) {
-        const imageUrls = collectImageUrls(rawHtmlForImages, markdown);
-        if (imageUrls.length > 0) {
-          markdown = rewriteImageUrls(markdown, imageUrls, env.R2_PUBLIC_URL, env);
-          // Upload in the background — does not block the response
-          ctx.waitUntil(uploadImages(imageUrls, env.IMAGES_BUCKET, env));
-        }
-      }
+    return withHeaders(response, limitHeaders);
+  },
 
-      // Return raw Markdown text or JSON envelope
-      if (rawFormat) {
-        return textResponse(env, markdown);
-      }
+  // Cron trigger: delete expired images (and R2 cache entries)
+  async scheduled(_controller, env, ctx): Promise<void> {
+    if (!env.IMAGES_BUCKET) return;
+    ctx.waitUntil(sweepExpiredObjects(env.IMAGES_BUCKET));
+  },
 
-      return jsonResponse(env, {
-        success: true,
-        url: targetUrl ?? undefined,
-        name: result.name,
-        mimeType: result.mimeType,
-        tokens: result.tokens,
-        markdown,
-      });
-    } catch (err: unknown) {
-      const message = err instanceof Error ? err.message : 'Unknown error';
-      return errorResponse(env, `Internal error: ${message}`, 500);
-    }
+  // Queue consumer: run asynchronous conversion jobs
+  async queue(batch, env, ctx): Promise<void> {
+    await processJobs(batch, env, ctx);
   },
-} satisfies ExportedHandler<Env>;
+} satisfies ExportedHandler<Env, JobMessage>;
@@ -0,0 +1,494 @@
+/**
+ * Asynchronous jobs
+ *
+ * Handles `POST /jobs`, `GET /jobs/:id` and `DELETE /jobs/:id`: conversions
+ * that run in a queue consumer instead of inside the request, for large
+ * documents and batches that would outlive an HTTP connection.
+ *
+ * Design:
+ *  - Inputs: the JSON body of `POST /` (one document) or of `POST /batch`
+ *    (`items`), or files uploaded as for `POST /` (stored base64-encoded,
+ *    one item per file, options from the query or form fields); the consumer converts them with `convertBatch`, so jobs share
+ *    the fetch, HTML and `toMarkdown` pipeline with the synchronous routes.
+ *    Only the batch item fields apply: feed listing (`mode`, `expand`,
+ *    `limit`, `digest`), response `format`, `stream` and `cache` are
+ *    rejected with 400 rather than silently ignored.
+ *    Large crawls (`POST /crawl`) are submitted as jobs too, and run with
+ *    `crawlSite`
+ *  - State: one `JobTracker` Durable Object per job holds the status, so
+ *    cancellation and completion cannot race; it deletes itself after
+ *    `JOB_TTL_HOURS`
+ *  - Storage: input and result are JSON objects in the R2 bucket under the
+ *    `jobs/` prefix, with `expiresAt` metadata for the cron sweep; the queue
+ *    message only carries the job ID
+ *  - Cancellation is cooperative: a conversion already running finishes,
+ *    but its result is discarded
+ *  - Webhooks: a finished job's status document is POSTed to its `webhook`
+ *    URL, signed with HMAC-SHA256 using the `JOBS_WEBHOOK_SECRET` secret
+ */
+
+import { DurableObject } from 'cloudflare:workers';
+import { type ApiKey, recordTokens } from './auth';
+import { type BatchItem, type BatchResult, type BatchSummary, batchTokens, convertBatch, summarizeBatch } from './batch';
+import { batchMaxItems, fetchMaxAttempts, fetchTimeout, jobsEnabled, jobTtlSeconds } from './config';
+import { errorResponse, jsonResponse } from './cors';
+import { type CrawlManifest, type CrawlRequest, crawlSite } from './crawl';
+import { errorMessage, HttpError } from './errors';
+import { assertUrlAllowed } from './policy';
+import { encodeBase64, isUploadRequest, readUploads } from './upload';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/** Body of `POST /jobs`: one document or a list of `items`, with the fields of a `POST /batch` item */
+export interface JobRequest extends BatchItem {
+  items?: BatchItem[];
+  /** URL notified when the job finishes */
+  webhook?: string;
+}
+
+/** Job state held by its tracker */
+export interface Job {
+  id: string;
+  status: JobStatus;
+  /** Whether the job was submitted with `items` (the result is a batch summary) */
+  batch: boolean;
+  /** Rate-limiter ID of the submitting API key (`null` when auth is disabled) */
+  owner: string | null;
+  webhook?: string;
+  /** Timestamps (ms since epoch) */
+  createdAt: number;
+  updatedAt: number;
+  expiresAt: number;
+  /** Workers AI tokens spent, once finished */
+  tokens?: number;
+  error?: string;
+  code?: string;
+}
+
+/** Queue message: the job to run */
+export interface JobMessage {
+  id: string;
+}
+
+/** Stored input: documents to convert, or a validated crawl */
+export type JobInput = { items: BatchItem[] } | { crawl: CrawlRequest };
+
+/** Stored result: the item result for one document, the batch summary, or a crawl manifest */
+type JobResult = BatchResult | BatchSummary | CrawlManifest;
+
+/** `POST /` fields that have no meaning for a job, whose result is always a batch result */
+const UNSUPPORTED_FIELDS = ['mode', 'expand', 'limit', 'digest', 'format', 'stream', 'cache'];
+
+/** Deliveries of one queue message before the job is marked failed */
+const MAX_RUN_ATTEMPTS = 3;
+
+/** Job IDs are UUIDs; anything else is rejected before touching a Durable Object */
+const JOB_ID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+const inputKey = (id: string) => `jobs/${id}/input.json`;
+const resultKey = (id: string) => `jobs/${id}/result.json`;
+
+// ---------------------------------------------------------------------------
+// State
+// ---------------------------------------------------------------------------
+
+/**
+ * Durable Object holding the state of one job.
+ *
+ * Every change is a transition from an expected status, so a job that was
+ * cancelled cannot later be marked finished, and vice versa.
+ */
+export class JobTracker extends DurableObject<Env> {
+  /** Store a new job and schedule its deletion */
+  async create(job: Job): Promise<void> {
+    await this.ctx.storage.put('job', job);
+    await this.ctx.storage.setAlarm(job.expiresAt);
+  }
+
+  async get(): Promise<Job | null> {
+    return (await this.ctx.storage.get<Job>('job')) ?? null;
+  }
+
+  /**
+   * Update the job if its status is one of `from`.
+   *
+   * @returns The updated job, or `null` when the job is missing or in another status
+   */
+  async transition(from: JobStatus[], patch: Partial<Job>): Promise<Job | null> {
+    const job = await this.ctx.storage.get<Job>('job');
+    if (!job || !from.includes(job.status)) return null;
+
+    const updated = { ...job, ...patch, updatedAt: Date.now() };
+    await this.ctx.storage.put('job', updated);
+    return updated;
+  }
+
+  /** Forget the job once it expires */
+  async alarm(): Promise<void> {
+    await this.ctx.storage.deleteAll();
+  }
+}
+
+/** Public view of a job, as returned by the API and sent to webhooks */
+export function jobView(job: Job, result?: JobResult): Record<string, unknown> {
+  return {
+    success: true,
+    id: job.id,
+    status: job.status,
+    createdAt: new Date(job.createdAt).toISOString(),
+    updatedAt: new Date(job.updatedAt).toISOString(),
+    expiresAt: new Date(job.expiresAt).toISOString(),
+    tokens: job.tokens,
+    error: job.error,
+    code: job.code,
+    result,
+  };
+}
+
+/** Store a JSON object in R2 until the job expires */
+async function putJson(bucket: R2Bucket, key: string, value: unknown, expiresAt: number): Promise<void> {
+  await bucket.put(key, JSON.stringify(value), {
+    httpMetadata: { contentType: 'application/json' },
+    customMetadata: { expiresAt: new Date(expiresAt).toISOString() },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Webhooks
+// ---------------------------------------------------------------------------
+
+/** Hex-encoded HMAC-SHA256 of `message` */
+async function hmacSha256(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+  return [...new Uint8Array(signature)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * POST a finished job to its webhook.
+ *
+ * The signature covers `<timestamp>.<body>`, so receivers can reject
+ * replays; redirects are not followed. Failures are retried a few times and
+ * then only logged — the result stays available through `GET /jobs/:id`.
+ */
+async function deliverWebhook(job: Job, result: JobResult | undefined, env: Env): Promise<void> {
+  if (!job.webhook || !env.JOBS_WEBHOOK_SECRET) return;
+
+  const body = JSON.stringify(jobView(job, result));
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const headers = {
+    'Content-Type': 'application/json; charset=utf-8',
+    'User-Agent': 'anything-md-webhook',
+    'X-Webhook-Id': job.id,
+    'X-Webhook-Timestamp': timestamp,
+    'X-Webhook-Signature': `sha256=${await hmacSha256(env.JOBS_WEBHOOK_SECRET, `${timestamp}.${body}`)}`,
+  };
+
+  try {
+    assertUrlAllowed(job.webhook, env);
+  } catch (err) {
+    console.log(`Webhook for job ${job.id} not sent: ${errorMessage(err)}`);
+    return;
+  }
+
+  const maxAttempts = fetchMaxAttempts(env);
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      const response = await fetch(job.webhook, {
+        method: 'POST',
+        headers,
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(fetchTimeout(env)),
+      });
+      await response.body?.cancel();
+      if (response.ok) return;
+      console.log(`Webhook for job ${job.id} returned ${response.status} (attempt ${attempt}/${maxAttempts})`);
+    } catch (err) {
+      console.log(`Webhook for job ${job.id} failed (attempt ${attempt}/${maxAttempts}): ${errorMessage(err)}`);
+    }
+    if (attempt < maxAttempts) await new Promise((r) => setTimeout(r, 1000 * 2 ** (attempt - 1)));
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Queue consumer
+// ---------------------------------------------------------------------------
+
+/** Run a job's input, returning its result, the tokens spent and the failure that fails the job (if any) */
+async function runInput(
+  job: Job,
+  input: JobInput,
+  env: Env,
+  ctx: ExecutionContext,
+): Promise<{ result: JobResult; tokens: number; failure: { error: string; code?: string } | null }> {
+  if ('crawl' in input) {
+    // Cancellation is checked between depth levels
+    const isCancelled = async () => (await env.JOBS.getByName(job.id).get())?.status === 'cancelled';
+    const manifest = await crawlSite(input.crawl, env, ctx, isCancelled);
+    return { result: manifest, tokens: manifest.tokens, failure: null };
+  }
+
+  const results = await convertBatch(input.items, env, ctx);
+  const [first] = results;
+  return {
+    result: job.batch ? summarizeBatch(results) : first,
+    tokens: batchTokens(results),
+    failure: !job.batch && !first.success ? first : null,
+  };
+}
+
+/** Run one job: convert its input, store the result and notify the webhook */
+async function runJob(id: string, env: Env, ctx: ExecutionContext): Promise<void> {
+  const tracker = env.JOBS.getByName(id);
+
+  // A redelivered message finds the job still running and runs it again
+  const job = await tracker.transition(['queued', 'running'], { status: 'running' });
+  if (!job) return;
+
+  const input = await env.IMAGES_BUCKET.get(inputKey(id));
+  if (!input) {
+    const failed = await tracker.transition(['running'], { status: 'failed', error: 'Job input has expired.' });
+    if (failed) await deliverWebhook(failed, undefined, env);
+    return;
+  }
+
+  const { result, tokens, failure } = await runInput(job, await input.json<JobInput>(), env, ctx);
+  if (job.owner) ctx.waitUntil(recordTokens({ id: job.owner }, tokens, env));
+
+  await putJson(env.IMAGES_BUCKET, resultKey(id), result, job.expiresAt);
+  const finished = await tracker.transition(['running'], {
+    status: failure ? 'failed' : 'succeeded',
+    tokens,
+    error: failure?.error,
+    code: failure?.code,
+  });
+
+  // Cancelled while running: drop the result
+  if (!finished) {
+    await env.IMAGES_BUCKET.delete(resultKey(id));
+    return;
+  }
+
+  await env.IMAGES_BUCKET.delete(inputKey(id));
+  await deliverWebhook(finished, result, env);
+}
+
+/**
+ * Queue consumer for `JOBS_QUEUE`.
+ *
+ * Item failures are part of the result; only unexpected errors (e.g.
+ * storage) retry the message, and the job fails after `MAX_RUN_ATTEMPTS`.
+ */
+export async function processJobs(batch: MessageBatch<JobMessage>, env: Env, ctx: ExecutionContext): Promise<void> {
+  for (const message of batch.messages) {
+    const { id } = message.body;
+    try {
+      await runJob(id, env, ctx);
+      message.ack();
+    } catch (err) {
+      console.log(`Job ${id} attempt ${message.attempts} failed: ${errorMessage(err)}`);
+      if (message.attempts < MAX_RUN_ATTEMPTS) {
+        message.retry();
+        continue;
+      }
+
+      const failed = await env.JOBS.getByName(id)
+        .transition(['queued', 'running'], { status: 'failed', error: `Internal error: ${errorMessage(err)}` })
+        .catch(() => null);
+      if (failed) await deliverWebhook(failed, undefined, env);
+      message.ack();
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Routes
+// ---------------------------------------------------------------------------
+
+/** Reject `POST /` fields that a job would drop */
+function assertSupportedFields(item: object): void {
+  const field = UNSUPPORTED_FIELDS.find((name) => Object.hasOwn(item, name));
+  if (field) {
+    throw new HttpError(
+      `"${field}" is not supported by jobs: results are batch results (feeds, response formats, streaming and cache controls are not available).`,
+      400,
+      'unsupported_field',
+    );
+  }
+}
+
+/**
+ * Validate a `POST /jobs` body.
+ *
+ * @returns The items to convert
+ * @throws {HttpError} 400 / 413 when the body is not a valid job, or uses a field jobs do not support (`unsupported_field`)
+ */
+function parseJobItems(body: JobRequest, env: Env): BatchItem[] {
+  const { items, webhook: _webhook, ...single } = body;
+
+  if (items === undefined) {
+    if (!single.url && !(single.content ?? single.html)) throw new HttpError('No URL or content provided.');
+    assertSupportedFields(single);
+    return [single];
+  }
+
+  if (!Array.isArray(items) || items.some((item) => !item || typeof item !== 'object')) {
+    throw new HttpError('Invalid items. Expected: { "items": [{ "url": "https://..." }, { "content": "..." }] }');
+  }
+  if (items.length === 0) throw new HttpError('No items provided.');
+  assertSupportedFields(single);
+  for (const item of items) assertSupportedFields(item);
+
+  const maxItems = batchMaxItems(env);
+  if (items.length > maxItems) throw new HttpError(`Too many items: ${items.length} (max ${maxItems}).`, 413);
+  return items;
+}
+
+/**
+ * Store a job's input, create its tracker and enqueue it.
+ *
+ * @param batch   - Whether the result is a batch summary (jobs submitted with `items`)
+ * @param webhook - URL notified when the job finishes
+ * @throws {HttpError} 400 when a webhook is given but webhooks are disabled
+ * @throws {PolicyError} 403 when the webhook URL is not allowed
+ */
+export async function submitJob(
+  env: Env,
+  apiKey: ApiKey | null,
+  input: JobInput,
+  opts: { batch: boolean; webhook?: string },
+): Promise<Job> {
+  if (opts.webhook) {
+    if (!env.JOBS_WEBHOOK_SECRET) {
+      throw new HttpError('Webhooks are disabled: JOBS_WEBHOOK_SECRET is not configured.', 400, 'webhooks_disabled');
+    }
+    assertUrlAllowed(opts.webhook, env);
+  }
+
+  const now = Date.now();
+  const job: Job = {
+    id: crypto.randomUUID(),
+    status: 'queued',
+    batch: opts.batch,
+    owner: apiKey?.id ?? null,
+    webhook: opts.webhook || undefined,
+    createdAt: now,
+    updatedAt: now,
+    expiresAt: now + jobTtlSeconds(env) * 1000,
+  };
+
+  await putJson(env.IMAGES_BUCKET, inputKey(job.id), input, job.expiresAt);
+  await env.JOBS.getByName(job.id).create(job);
+  await env.JOBS_QUEUE?.send({ id: job.id });
+  return job;
+}
+
+/**
+ * Turn an upload request (`multipart/form-data` or a raw body, as for
+ * `POST /`) into a job body: each file becomes a base64 item, with the
+ * conversion options taken from the query and form fields.
+ *
+ * @throws {HttpError} 400 when the body has no files or a parameter jobs do not support (`unsupported_field`)
+ * @throws {HttpError} 415 when a file's format is not supported
+ */
+async function readUploadJob(request: Request): Promise<JobRequest> {
+  const { docs, params } = await readUploads(request);
+  assertSupportedFields(params);
+
+  // Files are stored already loaded (and HTML extracted), so `extract` is not repeated
+  const options: BatchItem = {
+    converter: params.converter,
+    clean: params.clean,
+    frontmatter: params.frontmatter === 'true',
+    images: params.images,
+    output: params.output,
+    chunkTokens: params.chunkTokens ? Number(params.chunkTokens) : undefined,
+    chunkOverlap: params.chunkOverlap ? Number(params.chunkOverlap) : undefined,
+  };
+  const items = docs.map(
+    (doc): BatchItem => ({
+      ...options,
+      content: encodeBase64(doc.body),
+      encoding: 'base64',
+      contentType: doc.contentType,
+      fileName: doc.fileName,
+    }),
+  );
+  return docs.length === 1 ? { ...items[0], webhook: params.webhook } : { items, webhook: params.webhook };
+}
+
+/** Handle `POST /jobs`: store the input, enqueue the job and return its ID */
+async function createJob(request: Request, env: Env, apiKey: ApiKey | null): Promise<Response> {
+  let body: JobRequest;
+  if (isUploadRequest(request)) {
+    body = await readUploadJob(request);
+  } else {
+    try {
+      body = (await request.json()) as JobRequest;
+      if (!body || typeof body !== 'object') throw new Error('Invalid body');
+    } catch {
+      return errorResponse(env, 'Invalid JSON body. Expected: { "url": "https://..." }, { "content": "..." } or { "items": [...] }');
+    }
+  }
+
+  const items = parseJobItems(body, env);
+  const job = await submitJob(env, apiKey, { items }, { batch: body.items !== undefined, webhook: body.webhook });
+  return jsonResponse(env, jobView(job), 202);
+}
+
+/** Load a job visible to the caller (jobs are private to the key that submitted them) */
+async function findJob(id: string, env: Env, apiKey: ApiKey | null): Promise<Job | null> {
+  if (!JOB_ID_RE.test(id)) return null;
+  const job = await env.JOBS.getByName(id).get();
+  return job && job.owner === (apiKey?.id ?? null) ? job : null;
+}
+
+/** Handle `GET /jobs/:id`: status, plus the result once finished */
+async function getJob(id: string, env: Env, apiKey: ApiKey | null): Promise<Response> {
+  const job = await findJob(id, env, apiKey);
+  if (!job) return errorResponse(env, 'Job not found.', 404);
+
+  const finished = job.status === 'succeeded' || job.status === 'failed';
+  const stored = finished ? await env.IMAGES_BUCKET.get(resultKey(id)) : null;
+  return jsonResponse(env, jobView(job, stored ? await stored.json<JobResult>() : undefined));
+}
+
+/** Handle `DELETE /jobs/:id`: cancel a queued or running job */
+async function cancelJob(id: string, env: Env, apiKey: ApiKey | null): Promise<Response> {
+  const job = await findJob(id, env, apiKey);
+  if (!job) return errorResponse(env, 'Job not found.', 404);
+
+  const cancelled = await env.JOBS.getByName(id).transition(['queued', 'running'], { status: 'cancelled' });
+  if (!cancelled) return errorResponse(env, `Job already ${job.status}.`, 409, 'job_finished');
+
+  await env.IMAGES_BUCKET.delete(inputKey(id));
+  return jsonResponse(env, jobView(cancelled));
+}
+
+/** Handle `/jobs` and `/jobs/:id` */
+export async function handleJobs(request: Request, env: Env, apiKey: ApiKey | null): Promise<Response> {
+  if (!jobsEnabled(env)) {
+    return errorResponse(env, 'Jobs are not enabled: a JOBS_QUEUE binding and the R2 bucket are required.', 501);
+  }
+
+  const path = new URL(request.url).pathname;
+
+  try {
+    if (path === '/jobs') {
+      if (request.method !== 'POST') return errorResponse(env, 'Method not allowed. Use POST for /jobs.', 405);
+      return await createJob(request, env, apiKey);
+    }
+
+    const id = path.slice('/jobs/'.length);
+    if (request.method === 'GET') return await getJob(id, env, apiKey);
+    if (request.method === 'DELETE') return await cancelJob(id, env, apiKey);
+    return errorResponse(env, 'Method not allowed. Use GET or DELETE for /jobs/:id.', 405);
+  } catch (err: unknown) {
+    if (err instanceof HttpError) {
+      return errorResponse(env, err.message, err.status, err.code);
+    }
+    return errorResponse(env, `Internal error: ${errorMessage(err)}`, 500);
+  }
+}
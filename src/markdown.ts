@@ -0,0 +1,376 @@
+/**
+ * HTML-to-Markdown renderer
+ *
+ * Renders preprocessed HTML as Markdown without Workers AI, for the `local`
+ * converter (see `converters.ts`). Built on the `dom.ts` parser, it covers
+ * the common structure of articles and documentation pages: headings,
+ * paragraphs, emphasis, links, images, lists (nested and ordered), block
+ * quotes, fenced code blocks and GFM tables.
+ *
+ * Design:
+ *  - Block rendering: a container's children are split into runs of inline
+ *    content (flushed as paragraphs) and block elements rendered on their
+ *    own; blocks are separated by blank lines.
+ *  - Whitespace: text is collapsed as a browser would, except inside `<pre>`;
+ *    `<br>` becomes a hard line break, and a double `<br>` a new paragraph.
+ *  - Escaping: Markdown punctuation in text is backslash-escaped, as are
+ *    line starts that would otherwise read as headings, quotes or lists.
+ *  - Chrome that has no Markdown form (scripts, forms, embedded media) is
+ *    dropped.
+ */
+
+import { type DomNode, type ElementNode, parseHtml, textContent } from './dom';
+
+/** Elements rendered as blocks (everything else is inline) */
+const BLOCK_TAGS = new Set([
+  'address',
+  'article',
+  'aside',
+  'blockquote',
+  'body',
+  'caption',
+  'center',
+  'dd',
+  'details',
+  'dialog',
+  'div',
+  'dl',
+  'dt',
+  'fieldset',
+  'figcaption',
+  'figure',
+  'footer',
+  'form',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'header',
+  'hr',
+  'html',
+  'li',
+  'main',
+  'nav',
+  'ol',
+  'p',
+  'pre',
+  'section',
+  'summary',
+  'table',
+  'tbody',
+  'td',
+  'tfoot',
+  'th',
+  'thead',
+  'tr',
+  'ul',
+]);
+
+/** Elements dropped with their content */
+const SKIPPED_TAGS = new Set([
+  'audio',
+  'button',
+  'canvas',
+  'head',
+  'iframe',
+  'input',
+  'noscript',
+  'object',
+  'script',
+  'select',
+  'style',
+  'svg',
+  'template',
+  'textarea',
+  'title',
+  'video',
+]);
+
+/** Inline elements rendered with a Markdown delimiter */
+const INLINE_DELIMITERS: Record<string, string> = {
+  b: '**',
+  strong: '**',
+  em: '*',
+  i: '*',
+  del: '~~',
+  s: '~~',
+  strike: '~~',
+};
+
+/** Inline elements whose text is rendered as code */
+const CODE_TAGS = new Set(['code', 'kbd', 'samp', 'tt']);
+
+/** A rendered list item block (nested lists are kept tight) */
+const LIST_BLOCK_RE = /^(?:[-*+]|\d+[.)]) /;
+
+/** Language hint in a code block class (`language-ts`, `lang-python`) */
+const CODE_LANG_RE = /\b(?:lang|language)-([\w#+.-]+)/;
+
+// ---------------------------------------------------------------------------
+// Text
+// ---------------------------------------------------------------------------
+
+/** Backslash-escape Markdown punctuation in text (`_` only at word edges) */
+export function escapeMarkdown(text: string): string {
+  return text
+    .replace(/[\\`*[\]]/g, '\\$&')
+    .replace(/(?<!\w)_|_(?!\w)/g, '\\_')
+    .replace(/<(?=[a-z/!?])/gi, '\\<');
+}
+
+/** Escape a line start that would read as a heading, quote, list item or setext underline */
+function escapeLineStart(line: string): string {
+  return line.replace(/^(\d+)([.)])(?=\s|$)/, '$1\\$2').replace(/^[#>+=-]/, '\\$&');
+}
+
+/** Shortest backtick fence of at least `min` that does not occur in `text` */
+function fence(text: string, min: number): string {
+  const longest = Math.max(0, ...[...text.matchAll(/`+/g)].map((m) => m[0].length));
+  return '`'.repeat(Math.max(min, longest + 1));
+}
+
+/** Render text as an inline code span */
+function inlineCode(text: string): string {
+  const code = text.replace(/\s+/g, ' ');
+  if (!code.trim()) return code;
+  const ticks = fence(code, 1);
+  const pad = code.startsWith('`') || code.endsWith('`') ? ' ' : '';
+  return `${ticks}${pad}${code}${pad}${ticks}`;
+}
+
+/** Wrap inline content as `open` + content + `close`, keeping surrounding whitespace outside */
+function wrapInline(content: string, open: string, close = open): string {
+  const match = content.match(/^(\s*)([\s\S]*?)(\s*)$/);
+  if (!match?.[2]) return content;
+  return `${match[1]}${open}${match[2]}${close}${match[3]}`;
+}
+
+/** Link or image destination, in angle brackets when it contains spaces or parentheses */
+export function destination(url: string, title?: string): string {
+  const dest = /[\s()<>]/.test(url) ? `<${url.replace(/[<>]/g, encodeURIComponent)}>` : url;
+  return title ? `${dest} "${title.replace(/"/g, '\\"')}"` : dest;
+}
+
+// ---------------------------------------------------------------------------
+// Inline content
+// ---------------------------------------------------------------------------
+
+/** Render a node as inline Markdown; `\n` marks a `<br>` */
+function renderInline(node: DomNode): string {
+  if (node.type === 'text') return escapeMarkdown(node.text.replace(/\s+/g, ' '));
+  if (SKIPPED_TAGS.has(node.tag)) return '';
+
+  if (node.tag === 'br') return '\n';
+  if (node.tag === 'img') {
+    const src = node.attrs.src || node.attrs['data-src'];
+    return src ? `![${escapeMarkdown(node.attrs.alt ?? '').replace(/\s+/g, ' ')}](${destination(src, node.attrs.title)})` : '';
+  }
+  if (CODE_TAGS.has(node.tag)) return inlineCode(textContent(node));
+
+  const content = node.children.map(renderInline).join('');
+  if (node.tag === 'a') {
+    const href = node.attrs.href?.trim();
+    const text = content.replace(/\s*\n\s*/g, ' ');
+    if (!href || /^javascript:/i.test(href) || !text.trim()) return text;
+    return wrapInline(text, '[', `](${destination(href, node.attrs.title)})`);
+  }
+
+  const delimiter = INLINE_DELIMITERS[node.tag];
+  if (delimiter) return wrapInline(content, delimiter);
+  // Block elements nested in inline ones (e.g. a `<div>` inside a link) read as words
+  return BLOCK_TAGS.has(node.tag) ? ` ${content} ` : content;
+}
+
+/**
+ * Turn collected inline Markdown into paragraphs: spaces are collapsed, a
+ * single `<br>` becomes a hard break and consecutive ones a paragraph break.
+ */
+function paragraphs(inline: string): string[] {
+  const lines = inline.split('\n').map((line) => escapeLineStart(line.replace(/ {2,}/g, ' ').trim()));
+  const out: string[] = [];
+  let current: string[] = [];
+  for (const line of [...lines, '']) {
+    if (line) {
+      current.push(line);
+    } else if (current.length > 0) {
+      out.push(current.join('  \n'));
+      current = [];
+    }
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Blocks
+// ---------------------------------------------------------------------------
+
+/** Render the children of a container as Markdown blocks */
+function renderBlocks(parent: ElementNode): string[] {
+  const out: string[] = [];
+  let inline = '';
+
+  for (const child of parent.children) {
+    if (child.type === 'element' && BLOCK_TAGS.has(child.tag)) {
+      out.push(...paragraphs(inline));
+      inline = '';
+      const block = renderBlock(child);
+      if (block) out.push(block);
+    } else {
+      inline += renderInline(child);
+    }
+  }
+
+  out.push(...paragraphs(inline));
+  return out;
+}
+
+/** Prefix every line of a block; blank lines get the prefix without trailing spaces */
+function prefixLines(block: string, first: string, rest: string): string {
+  return block
+    .split('\n')
+    .map((line, i) => (line ? `${i === 0 ? first : rest}${line}` : rest.trimEnd()))
+    .join('\n');
+}
+
+/** Render a `<ul>` or `<ol>` */
+function renderList(list: ElementNode): string {
+  const ordered = list.tag === 'ol';
+  let number = Number.parseInt(list.attrs.start ?? '', 10);
+  if (!Number.isFinite(number)) number = 1;
+
+  const items: string[] = [];
+  let indent = '';
+  for (const child of list.children) {
+    if (child.type !== 'element') continue;
+
+    // A list nested directly in a list (invalid but common) belongs to the previous item
+    if ((child.tag === 'ul' || child.tag === 'ol') && items.length > 0) {
+      const nested = renderList(child);
+      if (nested) items[items.length - 1] += `\n${prefixLines(nested, indent, indent)}`;
+      continue;
+    }
+
+    const marker = ordered ? `${number++}.` : '-';
+    indent = ' '.repeat(marker.length + 1);
+    const blocks = child.tag === 'li' ? renderBlocks(child) : [renderBlock(child)].filter(Boolean);
+    const body = blocks.reduce((acc, block) => (acc ? `${acc}${LIST_BLOCK_RE.test(block) ? '\n' : '\n\n'}${block}` : block), '');
+    items.push(body ? prefixLines(body, `${marker} `, indent) : marker);
+  }
+
+  // Items with several paragraphs make the list loose
+  return items.join(items.some((item) => item.includes('\n\n')) ? '\n\n' : '\n');
+}
+
+/** Render a `<pre>` as a fenced code block */
+function renderCodeBlock(pre: ElementNode): string {
+  const code = pre.children.find((child): child is ElementNode => child.type === 'element' && child.tag === 'code');
+  const lang = (pre.attrs.class?.match(CODE_LANG_RE) ?? code?.attrs.class?.match(CODE_LANG_RE))?.[1] ?? '';
+  const text = textContent(pre).replace(/^\n/, '').replace(/\s+$/, '');
+  const ticks = fence(text, 3);
+  return `${ticks}${lang}\n${text}\n${ticks}`;
+}
+
+/** Nearest ancestor with the given tag */
+function closest(node: ElementNode, tag: string): ElementNode | null {
+  for (let el = node.parent; el; el = el.parent) {
+    if (el.tag === tag) return el;
+  }
+  return null;
+}
+
+/** Rows of a table, excluding those of nested tables */
+function tableRows(table: ElementNode): ElementNode[] {
+  const rows: ElementNode[] = [];
+  const visit = (el: ElementNode) => {
+    for (const child of el.children) {
+      if (child.type !== 'element' || child.tag === 'table') continue;
+      if (child.tag === 'tr' && closest(child, 'table') === table) rows.push(child);
+      else visit(child);
+    }
+  };
+  visit(table);
+  return rows;
+}
+
+/** Cells of a table row */
+function rowCells(row: ElementNode): ElementNode[] {
+  return row.children.filter((cell): cell is ElementNode => cell.type === 'element' && (cell.tag === 'td' || cell.tag === 'th'));
+}
+
+/** Render a table cell on one line; `colspan` adds empty cells */
+function renderCell(cell: ElementNode): string[] {
+  const text = renderBlocks(cell)
+    .join(' ')
+    .replace(/\s*\n\s*/g, ' ')
+    .replace(/\|/g, '\\|');
+  const span = Math.min(Math.max(Number.parseInt(cell.attrs.colspan ?? '', 10) || 1, 1), 100);
+  return [text, ...new Array<string>(span - 1).fill('')];
+}
+
+/** Render a `<table>` as a GFM table (a single-cell layout table renders its content) */
+function renderTable(table: ElementNode): string {
+  const rows = tableRows(table)
+    .map(rowCells)
+    .filter((cells) => cells.length > 0);
+  const caption = table.children.find((child): child is ElementNode => child.type === 'element' && child.tag === 'caption');
+  const blocks = caption ? paragraphs(renderInline(caption)) : [];
+
+  if (rows.length === 1 && rows[0].length === 1) {
+    blocks.push(...renderBlocks(rows[0][0]));
+  } else if (rows.length > 0) {
+    const cells = rows.map((row) => row.flatMap(renderCell));
+    const columns = Math.max(...cells.map((row) => row.length));
+    const line = (row: string[]) => `| ${[...row, ...new Array<string>(columns - row.length).fill('')].join(' | ')} |`;
+    const [header, ...body] = cells;
+    blocks.push([line(header), line(new Array<string>(columns).fill('---')), ...body.map(line)].join('\n'));
+  }
+
+  return blocks.join('\n\n');
+}
+
+/** Render a block element */
+function renderBlock(el: ElementNode): string {
+  if (SKIPPED_TAGS.has(el.tag)) return '';
+
+  switch (el.tag) {
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6': {
+      const text = el.children.map(renderInline).join('').replace(/\s+/g, ' ').trim();
+      return text ? `${'#'.repeat(Number(el.tag[1]))} ${text}` : '';
+    }
+    case 'hr':
+      return '---';
+    case 'pre':
+      return renderCodeBlock(el);
+    case 'ul':
+    case 'ol':
+      return renderList(el);
+    case 'table':
+      return renderTable(el);
+    case 'blockquote': {
+      const content = renderBlocks(el).join('\n\n');
+      return content ? prefixLines(content, '> ', '> ') : '';
+    }
+    case 'caption':
+      return '';
+    default:
+      return renderBlocks(el).join('\n\n');
+  }
+}
+
+/**
+ * Render an HTML document as Markdown.
+ *
+ * The `<head>` is ignored and the body rendered as is, so callers should
+ * pass preprocessed (and, if wanted, extracted) HTML.
+ */
+export function htmlToMarkdown(html: string): string {
+  const markdown = renderBlocks(parseHtml(html)).join('\n\n');
+  return markdown ? `${markdown}\n` : '';
+}
@@ -0,0 +1,574 @@
+/**
+ * Lightweight Markdown parser
+ *
+ * Parses the Markdown produced by `toMarkdown` (CommonMark plus GFM tables,
+ * strikethrough and task lists) into an mdast-compatible syntax tree, used
+ * for the `text`, `html` and `mdast` response formats.
+ *
+ * Like `dom.ts` it is forgiving rather than spec-complete: the block
+ * structure follows CommonMark closely, while emphasis uses a simplified
+ * delimiter match. Reference-style links are resolved to `link` / `image`
+ * nodes and their definitions dropped; leading YAML frontmatter becomes a
+ * `yaml` node.
+ */
+
+import { decodeEntities } from './dom';
+
+/**
+ * An mdast node. Only the fields relevant to `type` are set:
+ *  - `root`, `paragraph`, `blockquote`, `emphasis`, `strong`, `delete`, `tableRow`, `tableCell`: `children`
+ *  - `heading`: `depth`, `children`
+ *  - `list`: `ordered`, `start`, `spread`, `children`; `listItem`: `spread`, `checked`, `children`
+ *  - `table`: `align`, `children`
+ *  - `code`: `lang`, `value`; `text`, `inlineCode`, `html`, `yaml`: `value`
+ *  - `link`: `url`, `title`, `children`; `image`: `url`, `title`, `alt`
+ *  - `thematicBreak`, `break`: no fields
+ */
+export interface MdNode {
+  type: string;
+  children?: MdNode[];
+  value?: string;
+  depth?: number;
+  ordered?: boolean;
+  start?: number | null;
+  spread?: boolean;
+  checked?: boolean | null;
+  lang?: string | null;
+  align?: ('left' | 'right' | 'center' | null)[];
+  url?: string;
+  title?: string | null;
+  alt?: string;
+}
+
+/** Link reference definitions, keyed by normalised label */
+type Definitions = Map<string, { url: string; title: string | null }>;
+
+/** Parser state shared across the block and inline passes */
+interface Context {
+  definitions: Definitions;
+  /** Nodes whose inline content is parsed once all definitions are known */
+  inlines: { node: MdNode; text: string }[];
+}
+
+const FENCE_OPEN_RE = /^( {0,3})(`{3,}|~{3,})[ \t]*([^\s`]*)[^`]*$/;
+const ATX_RE = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const HR_RE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const BLOCKQUOTE_RE = /^ {0,3}> ?/;
+const LIST_RE = /^( {0,3})([-+*]|(\d{1,9})[.)])(?:([ \t]+)(.*)|$)/;
+const HTML_BLOCK_RE = /^ {0,3}<(?:[a-zA-Z][\w-]*(?:[\s/>]|$)|\/[a-zA-Z][\w-]*\s*>|!--)/;
+const DEFINITION_RE = /^ {0,3}\[((?:\\.|[^\]\\])+)\]:[ \t]*(<[^>\n]*>|\S+)(?:[ \t]+("[^"]*"|'[^']*'|\([^)]*\)))?[ \t]*$/;
+const TABLE_DELIMITER_RE = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const SETEXT_RE = /^ {0,3}(=+|-+)[ \t]*$/;
+
+/** ASCII punctuation that can be backslash-escaped */
+const ESCAPABLE_RE = /[!-/:-@[-`{-~]/;
+
+/** Normalise a link label for definition lookup */
+function normalizeLabel(label: string): string {
+  return label.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/** Remove backslash escapes and decode entities in a URL or title */
+function unescapeString(text: string): string {
+  return decodeEntities(text.replace(/\\([!-/:-@[-`{-~])/g, '$1'));
+}
+
+/** Leading-space width of a line */
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/** Whether a line starts a block that interrupts a paragraph */
+function interruptsParagraph(line: string): boolean {
+  if (FENCE_OPEN_RE.test(line) || ATX_RE.test(line) || HR_RE.test(line) || BLOCKQUOTE_RE.test(line)) return true;
+  const item = line.match(LIST_RE);
+  // Only non-empty bullets and lists starting at 1 may interrupt a paragraph
+  return !!item && !!item[5]?.trim() && (!item[3] || item[3] === '1');
+}
+
+// ---------------------------------------------------------------------------
+// Block parsing
+// ---------------------------------------------------------------------------
+
+/** Split a table row into cell texts */
+function splitRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  return row.split(/(?<!\\)\|/).map((cell) => cell.trim().replace(/\\\|/g, '|'));
+}
+
+/** Queue a node for inline parsing */
+function withInlines(node: MdNode, text: string, ctx: Context): MdNode {
+  node.children = [];
+  ctx.inlines.push({ node, text });
+  return node;
+}
+
+function parseBlocks(lines: string[], ctx: Context): MdNode[] {
+  const nodes: MdNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    // Fenced code
+    const fence = line.match(FENCE_OPEN_RE);
+    if (fence) {
+      const [, indent, marker, lang] = fence;
+      const body: string[] = [];
+      i++;
+      while (i < lines.length) {
+        const close = lines[i].match(/^ {0,3}(`{3,}|~{3,})[ \t]*$/);
+        if (close && close[1][0] === marker[0] && close[1].length >= marker.length) break;
+        body.push(lines[i].slice(Math.min(indent.length, indentOf(lines[i]))));
+        i++;
+      }
+      i++;
+      nodes.push({ type: 'code', lang: lang ? unescapeString(lang) : null, value: body.join('\n') });
+      continue;
+    }
+
+    // ATX heading
+    const atx = line.match(ATX_RE);
+    if (atx) {
+      nodes.push(withInlines({ type: 'heading', depth: atx[1].length }, atx[2] ?? '', ctx));
+      i++;
+      continue;
+    }
+
+    if (HR_RE.test(line)) {
+      nodes.push({ type: 'thematicBreak' });
+      i++;
+      continue;
+    }
+
+    // Blockquote (with lazy paragraph continuation)
+    if (BLOCKQUOTE_RE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && lines[i].trim() && (BLOCKQUOTE_RE.test(lines[i]) || !interruptsParagraph(lines[i]))) {
+        body.push(lines[i].replace(BLOCKQUOTE_RE, ''));
+        i++;
+      }
+      nodes.push({ type: 'blockquote', children: parseBlocks(body, ctx) });
+      continue;
+    }
+
+    if (LIST_RE.test(line)) {
+      i = parseList(lines, i, nodes, ctx);
+      continue;
+    }
+
+    // Indented code
+    if (indentOf(line) >= 4) {
+      const body: string[] = [];
+      while (i < lines.length && (!lines[i].trim() || indentOf(lines[i]) >= 4)) {
+        body.push(lines[i].slice(4));
+        i++;
+      }
+      while (body.length > 0 && !body[body.length - 1].trim()) body.pop();
+      nodes.push({ type: 'code', lang: null, value: body.join('\n') });
+      continue;
+    }
+
+    // HTML block, up to the next blank line
+    if (HTML_BLOCK_RE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && lines[i].trim()) body.push(lines[i++]);
+      nodes.push({ type: 'html', value: body.join('\n') });
+      continue;
+    }
+
+    const definition = line.match(DEFINITION_RE);
+    if (definition) {
+      const key = normalizeLabel(definition[1]);
+      if (!ctx.definitions.has(key)) {
+        ctx.definitions.set(key, {
+          url: unescapeString(definition[2].replace(/^<|>$/g, '')),
+          title: definition[3] ? unescapeString(definition[3].slice(1, -1)) : null,
+        });
+      }
+      i++;
+      continue;
+    }
+
+    // GFM table: a header row followed by a delimiter row
+    if (line.includes('|') && i + 1 < lines.length && lines[i + 1].includes('|') && TABLE_DELIMITER_RE.test(lines[i + 1])) {
+      i = parseTable(lines, i, nodes, ctx);
+      continue;
+    }
+
+    // Paragraph (or setext heading)
+    const text = [line.trim()];
+    let depth = 0;
+    i++;
+    while (i < lines.length && lines[i].trim()) {
+      const setext = lines[i].match(SETEXT_RE);
+      if (setext) {
+        depth = setext[1][0] === '=' ? 1 : 2;
+        i++;
+        break;
+      }
+      if (interruptsParagraph(lines[i])) break;
+      text.push(lines[i].trimStart());
+      i++;
+    }
+    const content = text.join('\n');
+    nodes.push(depth > 0 ? withInlines({ type: 'heading', depth }, content, ctx) : withInlines({ type: 'paragraph' }, content, ctx));
+  }
+
+  return nodes;
+}
+
+/** Parse a list starting at line `i`; returns the index of the first line after it */
+function parseList(lines: string[], i: number, nodes: MdNode[], ctx: Context): number {
+  const first = lines[i].match(LIST_RE) as RegExpMatchArray;
+  const ordered = first[3] !== undefined;
+  const marker = ordered ? first[2].slice(-1) : first[2];
+  const items: MdNode[] = [];
+  let spread = false;
+
+  // Items continue the list only with the same kind of marker
+  const sameList = (line: string) => {
+    const item = line.match(LIST_RE);
+    return !!item && (item[3] !== undefined) === ordered && (ordered ? item[2].slice(-1) : item[2]) === marker;
+  };
+
+  while (i < lines.length && sameList(lines[i])) {
+    const item = lines[i].match(LIST_RE) as RegExpMatchArray;
+
+    // Content starts after the marker and up to four spaces
+    const gap = item[4] ?? '';
+    const contentIndent = item[1].length + item[2].length + (gap.length > 4 || gap.length === 0 ? 1 : gap.length);
+    const body = [item[5] ?? ''];
+    let blank = false;
+    i++;
+
+    while (i < lines.length) {
+      const line = lines[i];
+      if (!line.trim()) {
+        body.push('');
+        blank = true;
+      } else if (indentOf(line) >= contentIndent) {
+        body.push(line.slice(contentIndent));
+        blank = false;
+      } else if (!blank && !LIST_RE.test(line) && !interruptsParagraph(line)) {
+        // Lazy continuation of the item's paragraph
+        body.push(line.trim());
+      } else {
+        break;
+      }
+      i++;
+    }
+
+    // Trailing blank lines separate items; blank lines inside an item make it loose
+    while (body.length > 1 && !body[body.length - 1].trim()) body.pop();
+    const itemSpread = body.slice(1).some((line, n) => !line.trim() && n + 2 < body.length);
+    if (blank && i < lines.length && sameList(lines[i])) spread = true;
+
+    const task = body[0].match(/^\[([ xX])\][ \t]+/);
+    if (task) body[0] = body[0].slice(task[0].length);
+
+    items.push({
+      type: 'listItem',
+      spread: itemSpread,
+      checked: task ? task[1] !== ' ' : null,
+      children: parseBlocks(body, ctx),
+    });
+  }
+
+  nodes.push({
+    type: 'list',
+    ordered,
+    start: ordered ? Number(first[3]) : null,
+    spread: spread || items.some((item) => item.spread),
+    children: items,
+  });
+  return i;
+}
+
+/** Parse a GFM table starting at line `i`; returns the index of the first line after it */
+function parseTable(lines: string[], i: number, nodes: MdNode[], ctx: Context): number {
+  const header = splitRow(lines[i]);
+  const align = splitRow(lines[i + 1]).map((cell) => {
+    const left = cell.startsWith(':');
+    const right = cell.endsWith(':');
+    return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+  });
+
+  const toRow = (cells: string[]): MdNode => ({
+    type: 'tableRow',
+    children: header.map((_, n) => withInlines({ type: 'tableCell' }, cells[n] ?? '', ctx)),
+  });
+
+  const rows = [toRow(header)];
+  i += 2;
+  while (i < lines.length && lines[i].trim() && !interruptsParagraph(lines[i])) {
+    rows.push(toRow(splitRow(lines[i])));
+    i++;
+  }
+
+  nodes.push({ type: 'table', align: header.map((_, n) => align[n] ?? null), children: rows });
+  return i;
+}
+
+// ---------------------------------------------------------------------------
+// Inline parsing
+// ---------------------------------------------------------------------------
+
+/** Index just past a code span starting at `start`, or -1 if the run of backticks is unmatched */
+function codeSpanEnd(text: string, start: number): number {
+  const run = (text.slice(start).match(/^`+/) as RegExpMatchArray)[0];
+  let from = start + run.length;
+  while (true) {
+    const close = text.indexOf(run, from);
+    if (close < 0) return -1;
+    const after = close + run.length;
+    if (text[after] !== '`' && text[close - 1] !== '`') return after;
+    from = after + (text.slice(after).match(/^`*/) as RegExpMatchArray)[0].length;
+  }
+}
+
+/** Parse a link or image at `[` (inline or reference); `null` if none */
+function parseLinkAt(text: string, open: number, ctx: Context): { label: string; url: string; title: string | null; end: number } | null {
+  // Find the matching bracket, skipping escapes and code spans
+  let depth = 0;
+  let close = -1;
+  for (let j = open; j < text.length; j++) {
+    const c = text[j];
+    if (c === '\\') j++;
+    else if (c === '`') {
+      const end = codeSpanEnd(text, j);
+      if (end > 0) j = end - 1;
+    } else if (c === '[') depth++;
+    else if (c === ']' && --depth === 0) {
+      close = j;
+      break;
+    }
+  }
+  if (close < 0) return null;
+  const label = text.slice(open + 1, close);
+
+  // Inline: [label](destination "title")
+  if (text[close + 1] === '(') {
+    const m = text
+      .slice(close + 2)
+      .match(
+        /^[ \t\n]*(?:<([^<>\n]*)>|((?:\\.|[^\s()\\]|\((?:\\.|[^\s()\\])*\))*))(?:[ \t\n]+("(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'|\((?:\\.|[^)\\])*\)))?[ \t\n]*\)/,
+      );
+    if (m) {
+      return {
+        label,
+        url: unescapeString(m[1] ?? m[2]),
+        title: m[3] ? unescapeString(m[3].slice(1, -1)) : null,
+        end: close + 2 + m[0].length,
+      };
+    }
+  }
+
+  // Reference: [label][ref], [label][] or [label]
+  const ref = text.slice(close + 1).match(/^\[((?:\\.|[^\]\\])*)\]/);
+  const definition = ctx.definitions.get(normalizeLabel(ref?.[1] ? ref[1] : label));
+  if (!definition) return null;
+  return { label, url: definition.url, title: definition.title, end: close + 1 + (ref ? ref[0].length : 0) };
+}
+
+/** Find the closing delimiter for an emphasis run opened at `start`; returns its index or -1 */
+function findCloser(text: string, start: number, delimiter: string): number {
+  const char = delimiter[0];
+  for (let j = start; j < text.length; j++) {
+    const c = text[j];
+    if (c === '\\') {
+      j++;
+      continue;
+    }
+    if (c === '`') {
+      const end = codeSpanEnd(text, j);
+      if (end > 0) j = end - 1;
+      continue;
+    }
+    if (c !== char) continue;
+
+    const run = (text.slice(j).match(char === '*' ? /^\*+/ : char === '_' ? /^_+/ : /^~+/) as RegExpMatchArray)[0];
+    const runEnd = j + run.length;
+    const closer = runEnd - delimiter.length;
+    const valid =
+      run.length >= delimiter.length &&
+      closer > start &&
+      !/\s/.test(text[j - 1] ?? ' ') &&
+      (char !== '_' || !/[\p{L}\p{N}]/u.test(text[runEnd] ?? ''));
+    if (valid) return closer;
+    j = runEnd - 1;
+  }
+  return -1;
+}
+
+/** Parse inline Markdown into mdast nodes */
+function parseInline(text: string, ctx: Context): MdNode[] {
+  const nodes: MdNode[] = [];
+  let buffer = '';
+
+  const appendText = (value: string) => {
+    const last = nodes[nodes.length - 1];
+    if (last?.type === 'text') last.value += value;
+    else if (value) nodes.push({ type: 'text', value });
+  };
+  const flush = () => {
+    appendText(decodeEntities(buffer));
+    buffer = '';
+  };
+  const push = (node: MdNode) => {
+    flush();
+    nodes.push(node);
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const c = text[i];
+
+    // Escapes and backslash hard breaks
+    if (c === '\\' && i + 1 < text.length) {
+      if (text[i + 1] === '\n') {
+        push({ type: 'break' });
+        i += 2;
+        continue;
+      }
+      if (ESCAPABLE_RE.test(text[i + 1])) {
+        flush();
+        appendText(text[i + 1]);
+        i += 2;
+        continue;
+      }
+    }
+
+    if (c === '`') {
+      const end = codeSpanEnd(text, i);
+      const run = (text.slice(i).match(/^`+/) as RegExpMatchArray)[0];
+      if (end < 0) {
+        buffer += run;
+        i += run.length;
+        continue;
+      }
+      let value = text.slice(i + run.length, end - run.length).replace(/\n/g, ' ');
+      if (/^ .*[^ ].* $/.test(value)) value = value.slice(1, -1);
+      push({ type: 'inlineCode', value });
+      i = end;
+      continue;
+    }
+
+    if ((c === '!' && text[i + 1] === '[') || c === '[') {
+      const image = c === '!';
+      const link = parseLinkAt(text, image ? i + 1 : i, ctx);
+      if (link) {
+        if (image) {
+          push({
+            type: 'image',
+            url: link.url,
+            title: link.title,
+            alt: nodeText({ type: 'root', children: parseInline(link.label, ctx) }),
+          });
+        } else {
+          push({ type: 'link', url: link.url, title: link.title, children: parseInline(link.label, ctx) });
+        }
+        i = link.end;
+        continue;
+      }
+    }
+
+    if (c === '<') {
+      const rest = text.slice(i);
+      const auto = rest.match(/^<([a-zA-Z][a-zA-Z0-9+.-]{1,31}:[^\s<>]*)>/);
+      const email = rest.match(/^<([\w.!#$%&'*+/=?^`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]*[a-zA-Z0-9])?(?:\.[a-zA-Z0-9-]+)*)>/);
+      const tag = rest.match(
+        /^(?:<\/?[a-zA-Z][\w-]*(?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*\s*\/?>|<!--[\s\S]*?-->)/,
+      );
+      if (auto || email) {
+        const value = (auto ?? email)?.[1] as string;
+        push({ type: 'link', url: auto ? value : `mailto:${value}`, title: null, children: [{ type: 'text', value }] });
+        i += (auto ?? email)?.[0].length as number;
+        continue;
+      }
+      if (tag) {
+        push({ type: 'html', value: tag[0] });
+        i += tag[0].length;
+        continue;
+      }
+    }
+
+    if (c === '*' || c === '_' || c === '~') {
+      const run = (text.slice(i).match(c === '*' ? /^\*+/ : c === '_' ? /^_+/ : /^~+/) as RegExpMatchArray)[0];
+      const delimiter = c === '~' ? (run.length === 2 ? '~~' : '') : run.slice(0, run.length >= 2 ? 2 : 1);
+      const opens = delimiter && /\S/.test(text[i + run.length] ?? '') && (c !== '_' || !/[\p{L}\p{N}]/u.test(text[i - 1] ?? ''));
+      const closer = opens ? findCloser(text, i + delimiter.length, delimiter) : -1;
+      if (closer > 0) {
+        const type = c === '~' ? 'delete' : delimiter.length === 2 ? 'strong' : 'emphasis';
+        push({ type, children: parseInline(text.slice(i + delimiter.length, closer), ctx) });
+        i = closer + delimiter.length;
+        continue;
+      }
+      buffer += run;
+      i += run.length;
+      continue;
+    }
+
+    // Two trailing spaces before a newline make a hard break
+    if (c === '\n') {
+      if (/ {2,}$/.test(buffer)) {
+        buffer = buffer.replace(/ +$/, '');
+        push({ type: 'break' });
+      } else {
+        buffer = `${buffer.replace(/ +$/, '')}\n`;
+      }
+      i++;
+      while (text[i] === ' ') i++;
+      continue;
+    }
+
+    buffer += c;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Parse Markdown into an mdast `root` node */
+export function parseMarkdown(markdown: string): MdNode {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const ctx: Context = { definitions: new Map(), inlines: [] };
+  const children: MdNode[] = [];
+
+  // Leading YAML frontmatter
+  if (lines[0] === '---') {
+    const end = lines.indexOf('---', 1);
+    if (end > 0) {
+      children.push({ type: 'yaml', value: lines.slice(1, end).join('\n') });
+      lines.splice(0, end + 1);
+    }
+  }
+
+  // Expand leading tabs so indentation can be measured in spaces
+  const expanded = lines.map((line) => line.replace(/^\t+/, (tabs) => '    '.repeat(tabs.length)));
+  children.push(...parseBlocks(expanded, ctx));
+
+  // Inline content is parsed last, once every reference definition is known
+  for (const { node, text } of ctx.inlines) node.children = parseInline(text, ctx);
+
+  return { type: 'root', children };
+}
+
+/** Concatenated text of a node (image alt text included, markup dropped) */
+export function nodeText(node: MdNode): string {
+  if (node.type === 'text' || node.type === 'inlineCode' || node.type === 'code') return node.value ?? '';
+  if (node.type === 'image') return node.alt ?? '';
+  if (node.type === 'break') return '\n';
+  return (node.children ?? []).map(nodeText).join('');
+}
@@ -0,0 +1,254 @@
+/**
+ * Page metadata
+ *
+ * Extracts document metadata (canonical URL, description, author, dates,
+ * site name, language, keywords, lead image) from an HTML page and renders
+ * it as YAML frontmatter.
+ *
+ * Sources, in order of preference for each field:
+ *  1. JSON-LD (`<script type="application/ld+json">`, Article-like objects)
+ *  2. Open Graph / `article:*` properties
+ *  3. Twitter cards
+ *  4. Standard `<meta>` / `<link>` / `<html lang>`
+ */
+
+import { descendants, type ElementNode, parseHtml, textContent } from './dom';
+
+/** Metadata extracted from a page; absent fields were not found */
+export interface PageMetadata {
+  title?: string;
+  canonicalUrl?: string;
+  description?: string;
+  author?: string;
+  /** ISO 8601 when the source date could be parsed */
+  publishedAt?: string;
+  /** ISO 8601 when the source date could be parsed */
+  modifiedAt?: string;
+  siteName?: string;
+  language?: string;
+  keywords?: string[];
+  image?: string;
+}
+
+/** JSON-LD types that describe the page's main content */
+const ARTICLE_TYPES = /Article|BlogPosting|Report|WebPage|CreativeWork|Recipe|HowTo|Review/;
+
+type JsonObject = Record<string, unknown>;
+
+// ---------------------------------------------------------------------------
+// Value helpers
+// ---------------------------------------------------------------------------
+
+/** Collapse whitespace and return `undefined` for empty strings */
+function clean(value: unknown): string | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const text = String(value).replace(/\s+/g, ' ').trim();
+  return text || undefined;
+}
+
+/** Normalise a date to ISO 8601, keeping the original text if it can't be parsed */
+function normalizeDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? value : new Date(time).toISOString();
+}
+
+/** Resolve a possibly-relative URL against the page URL */
+function resolveUrl(value: string | undefined, base: string | null): string | undefined {
+  if (!value) return undefined;
+  try {
+    return new URL(value, base ?? undefined).href;
+  } catch {
+    return base ? undefined : value;
+  }
+}
+
+/** Read a name from a JSON-LD person/organisation (string, object, or array of either) */
+function ldName(value: unknown): string | undefined {
+  if (Array.isArray(value)) {
+    const names = value.map(ldName).filter((name): name is string => !!name);
+    return names.length > 0 ? names.join(', ') : undefined;
+  }
+  if (value && typeof value === 'object') return clean((value as JsonObject).name);
+  return clean(value);
+}
+
+/** Read a URL from a JSON-LD image (string, ImageObject, or array) */
+function ldImage(value: unknown): string | undefined {
+  if (Array.isArray(value)) return ldImage(value[0]);
+  if (value && typeof value === 'object') return clean((value as JsonObject).url);
+  return clean(value);
+}
+
+/** Split a keyword list (comma-separated string or array) */
+function splitKeywords(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[,，]/) : [];
+  return items.map(clean).filter((item): item is string => !!item);
+}
+
+// ---------------------------------------------------------------------------
+// Sources
+// ---------------------------------------------------------------------------
+
+/** Collect `<meta>` values keyed by lower-cased `name` / `property` / `itemprop` */
+function collectMeta(root: ElementNode): Map<string, string[]> {
+  const meta = new Map<string, string[]>();
+  for (const el of descendants(root)) {
+    if (el.tag !== 'meta') continue;
+
+    const key = (el.attrs.property ?? el.attrs.name ?? el.attrs.itemprop ?? el.attrs['http-equiv'])?.toLowerCase();
+    const value = clean(el.attrs.content);
+    if (!key || !value) continue;
+
+    const values = meta.get(key) ?? [];
+    values.push(value);
+    meta.set(key, values);
+  }
+  return meta;
+}
+
+/** Flatten JSON-LD blocks (arrays and `@graph`) into a list of objects */
+function collectJsonLd(root: ElementNode): JsonObject[] {
+  const objects: JsonObject[] = [];
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === 'object') {
+      const obj = value as JsonObject;
+      objects.push(obj);
+      if (obj['@graph']) visit(obj['@graph']);
+    }
+  };
+
+  for (const el of descendants(root)) {
+    if (el.tag !== 'script' || !/ld\+json/i.test(el.attrs.type ?? '')) continue;
+    try {
+      visit(JSON.parse(el.children.map((child) => (child.type === 'text' ? child.text : '')).join('')));
+    } catch {
+      // Ignore malformed JSON-LD
+    }
+  }
+  return objects;
+}
+
+/** Pick the JSON-LD object describing the page's main content */
+function mainJsonLd(objects: JsonObject[]): JsonObject {
+  const typeOf = (obj: JsonObject) => [obj['@type']].flat().join(' ');
+  return (
+    objects.find((obj) => /Article|BlogPosting|Report/.test(typeOf(obj))) ?? objects.find((obj) => ARTICLE_TYPES.test(typeOf(obj))) ?? {}
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Extraction
+// ---------------------------------------------------------------------------
+
+/**
+ * Extract metadata from an HTML page.
+ *
+ * @param html - Raw page HTML
+ * @param url  - Page URL, used to resolve relative links (`null` for direct content)
+ */
+export function extractMetadata(html: string, url: string | null = null): PageMetadata {
+  const root = parseHtml(html);
+  const meta = collectMeta(root);
+  const ld = mainJsonLd(collectJsonLd(root));
+
+  const first = (...keys: string[]) => {
+    for (const key of keys) {
+      const value = meta.get(key)?.[0];
+      if (value) return value;
+    }
+    return undefined;
+  };
+
+  let titleEl: ElementNode | undefined;
+  let canonical: string | undefined;
+  let language: string | undefined;
+  for (const el of descendants(root)) {
+    if (el.tag === 'title' && !titleEl) titleEl = el;
+    if (el.tag === 'link' && !canonical && /(^|\s)canonical(\s|$)/i.test(el.attrs.rel ?? '')) canonical = clean(el.attrs.href);
+    if (el.tag === 'html' && !language) language = clean(el.attrs.lang ?? el.attrs['xml:lang']);
+  }
+
+  const keywords = [
+    ...new Set([...splitKeywords(ld.keywords), ...(meta.get('article:tag') ?? []), ...splitKeywords(first('keywords', 'news_keywords'))]),
+  ];
+
+  const metadata: PageMetadata = {
+    title: clean(ld.headline) ?? first('og:title', 'twitter:title') ?? (titleEl ? clean(textContent(titleEl)) : undefined),
+    canonicalUrl: resolveUrl(canonical ?? first('og:url') ?? clean(ld.url), url),
+    description: clean(ld.description) ?? first('og:description', 'twitter:description', 'description'),
+    author: ldName(ld.author) ?? first('article:author', 'author', 'twitter:creator', 'dc.creator'),
+    publishedAt: normalizeDate(
+      clean(ld.datePublished) ?? first('article:published_time', 'og:published_time', 'datepublished', 'date', 'pubdate', 'dc.date'),
+    ),
+    modifiedAt: normalizeDate(clean(ld.dateModified) ?? first('article:modified_time', 'og:updated_time', 'datemodified', 'last-modified')),
+    siteName: first('og:site_name', 'application-name') ?? ldName(ld.publisher),
+    language: language ?? clean(ld.inLanguage) ?? first('og:locale', 'content-language', 'language')?.replace('_', '-'),
+    keywords: keywords.length > 0 ? keywords : undefined,
+    image: resolveUrl(
+      ldImage(ld.image) ?? first('og:image', 'og:image:url', 'og:image:secure_url', 'twitter:image', 'twitter:image:src'),
+      url,
+    ),
+  };
+
+  // Drop fields that were not found so the JSON stays compact
+  for (const key of Object.keys(metadata) as (keyof PageMetadata)[]) {
+    if (metadata[key] === undefined) delete metadata[key];
+  }
+  return metadata;
+}
+
+// ---------------------------------------------------------------------------
+// Frontmatter
+// ---------------------------------------------------------------------------
+
+/** Quote a YAML scalar (JSON strings are valid double-quoted YAML) */
+function yamlString(value: string): string {
+  return JSON.stringify(value);
+}
+
+/**
+ * Render metadata as a YAML frontmatter block.
+ *
+ * Keys follow Hugo / Obsidian conventions: `date`, `lastmod` and `tags`
+ * carry the published date, modified date and keywords. `source` is the
+ * requested URL, kept alongside the page's canonical `url`.
+ *
+ * @param metadata - Extracted page metadata
+ * @param source   - URL the document was converted from, if any
+ */
+export function toFrontmatter(metadata: PageMetadata, source: string | null = null): string {
+  const fields: [string, string | string[] | undefined][] = [
+    ['title', metadata.title],
+    ['description', metadata.description],
+    ['author', metadata.author],
+    ['date', metadata.publishedAt],
+    ['lastmod', metadata.modifiedAt],
+    ['url', metadata.canonicalUrl],
+    ['source', source ?? undefined],
+    ['site', metadata.siteName],
+    ['lang', metadata.language],
+    ['tags', metadata.keywords],
+    ['image', metadata.image],
+  ];
+
+  const lines = ['---'];
+  for (const [key, value] of fields) {
+    if (value === undefined) continue;
+    if (Array.isArray(value)) {
+      lines.push(`${key}:`, ...value.map((item) => `  - ${yamlString(item)}`));
+    } else {
+      lines.push(`${key}: ${yamlString(value)}`);
+    }
+  }
+  lines.push('---', '');
+
+  return lines.join('\n');
+}
+
+/** Prepend YAML frontmatter to Markdown */
+export function withFrontmatter(markdown: string, metadata: PageMetadata, source: string | null = null): string {
+  return `${toFrontmatter(metadata, source)}\n${markdown}`;
+}
@@ -0,0 +1,483 @@
+/**
+ * Conversion pipeline
+ *
+ * The steps shared by every entry point: loading a source document (from a
+ * URL, rendered in a browser with `render`, or from direct content), HTML
+ * preprocessing, and Markdown post-processing. Conversion itself goes
+ * through `converters.ts`.
+ *
+ * Pages that turn out to be client-rendered shells (see `isSpaShell`) are
+ * rebuilt from the app state they embed when it holds the article, and
+ * otherwise rendered in the browser when a `BROWSER` binding is configured;
+ * `SourceDocument.strategy` records which path produced the HTML.
+ */
+
+import { decodeHtml } from './charset';
+import { fetchMaxAttempts, fetchMaxBytes, fetchMaxRedirects, fetchTimeout, imageProxyWaitMs, renderEnabled } from './config';
+import { errorMessage, HttpError } from './errors';
+import { runExtractors } from './extractors';
+import { type Feed, type FeedMode, parseFeed } from './feeds';
+import { type FetchOptions, type FetchOverrides, overrideHeaders, robustFetch, type Validators } from './fetch';
+import { extractEmbeddedArticle, extractLinks, extractTitle, isSpaShell, preprocessHtml } from './html';
+import { type ImageMode, inlineImages, stripImages } from './images';
+import { extractMetadata, type PageMetadata } from './metadata';
+import { assertUrlAllowed } from './policy';
+import { collectImageUrls, replaceImageSources, type UploadResult, uploadImages } from './r2';
+import { type ExtractMode, extractMainContent } from './readability';
+import { renderPage } from './render';
+import { isSupportedType, resolveDocumentType, withExtension } from './sniff';
+import type { ProgressListener } from './stream';
+
+/**
+ * How the HTML of a document was obtained: as fetched (`static`), rebuilt
+ * from the app state embedded in an SPA shell (`embedded`), or rendered in
+ * a browser (`render`)
+ */
+export type LoadStrategy = 'static' | 'embedded' | 'render';
+
+/** A document ready to be handed to a converter */
+export interface SourceDocument {
+  /** Filename passed to the converter */
+  fileName: string;
+  /** MIME type of the body */
+  contentType: string;
+  /** Document bytes (preprocessed for HTML) */
+  body: ArrayBuffer;
+  /** Preprocessed HTML, or an empty string for non-HTML documents */
+  html: string;
+  /** Upstream cache validators, for documents loaded from a URL */
+  validators?: Validators;
+  /** Name of the extractor applied (site-specific, or `readability`), if any */
+  extractor?: string;
+  /** Page metadata, for HTML documents */
+  metadata?: PageMetadata;
+  /** Charset the HTML was decoded from (the body is always re-encoded as UTF-8) */
+  charset?: string;
+  /** How the HTML was obtained, for HTML documents */
+  strategy?: LoadStrategy;
+  /** Whether the HTML is an SPA shell whose content could not be recovered without rendering */
+  shell?: boolean;
+  /** Absolute URLs linked from the whole page (before extraction), when requested with `links` */
+  links?: string[];
+  /** Parsed sitemap or feed, when detected with `feed`; the body is then the raw XML */
+  feed?: Feed;
+}
+
+/** Per-request HTML processing options */
+export interface HtmlOptions {
+  /** Content selection mode (default: `auto`) */
+  extract?: ExtractMode;
+  /** Collect the page's links into `SourceDocument.links` (HTML loaded from a URL only) */
+  links?: boolean;
+  /** Parse sitemaps and feeds into `SourceDocument.feed` (default: `document`, no detection) */
+  feed?: FeedMode;
+}
+
+/** Options for loading a document from a URL */
+export interface UrlLoadOptions extends HtmlOptions {
+  /** Receives `fetch` events (`stream=true`) */
+  onProgress?: ProgressListener;
+  /**
+   * `true` loads the page in a headless browser instead of fetching it (see
+   * `render.ts`); `false` never renders. By default, SPA shells are rendered
+   * when a browser is configured.
+   */
+  render?: boolean;
+  /** With `render`, a CSS selector to wait for instead of network idle */
+  waitFor?: string | null;
+  /** Caller-supplied headers, timeout and attempts (see `parseFetchOverrides`); rendering uses the headers only */
+  fetch?: FetchOverrides;
+}
+
+/** Options for building a source document from bytes */
+export interface LoadOptions extends HtmlOptions {
+  /** Explicit filename; when absent, HTML titles are used */
+  fileName?: string | null;
+  /** Filename used when neither an explicit name nor a title is available */
+  fallbackName?: string;
+  /** Source URL, used to pick a site-specific extractor */
+  url?: string | null;
+  /** Known charset of the bytes; detected from the content type and the bytes when absent */
+  charset?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Derive a filename from a URL path; the extension is reconciled with the document type later */
+export function getFileName(url: string): string {
+  try {
+    const segment = new URL(url).pathname.split('/').filter(Boolean).pop();
+    return segment ? decodeURIComponent(segment) : 'page';
+  } catch {
+    return 'page';
+  }
+}
+
+/** Decode an RFC 5987 `ext-value` (percent-encoded bytes in `charset`) */
+function decodeExtValue(charset: string, value: string): string {
+  const bytes: number[] = [];
+  for (let i = 0; i < value.length; i++) {
+    const hex = value[i] === '%' ? value.slice(i + 1, i + 3) : '';
+    if (/^[0-9a-f]{2}$/i.test(hex)) {
+      bytes.push(Number.parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(value.charCodeAt(i));
+    }
+  }
+  return new TextDecoder(charset).decode(new Uint8Array(bytes));
+}
+
+/** Headers are byte strings: re-read a Latin-1 looking value as UTF-8 when it is valid UTF-8 */
+function fromHeaderBytes(value: string): string {
+  const codes = [...value].map((c) => c.charCodeAt(0));
+  if (!codes.some((code) => code >= 0x80) || codes.some((code) => code > 0xff)) return value;
+  try {
+    return new TextDecoder('utf-8', { fatal: true, ignoreBOM: false }).decode(new Uint8Array(codes));
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Filename from a `Content-Disposition` header.
+ *
+ * Prefers the RFC 6266 `filename*` parameter over `filename`; any directory
+ * part is dropped.
+ */
+export function contentDispositionFileName(header: string | null): string | null {
+  if (!header) return null;
+
+  let name: string | null = null;
+  const extended = header.match(/\bfilename\*\s*=\s*([\w!#$&+.^`|~-]+)'[^']*'([^;\s]+)/i);
+  if (extended) {
+    try {
+      name = decodeExtValue(extended[1], extended[2]);
+    } catch {
+      // Unknown charset: fall back to the plain parameter
+    }
+  }
+  if (!name) {
+    const plain = header.match(/\bfilename\s*=\s*(?:"((?:\\.|[^"\\])*)"|([^;\s]+))/i);
+    name = plain ? fromHeaderBytes(plain[1]?.replace(/\\(.)/g, '$1') ?? plain[2]) : null;
+  }
+
+  return name?.split(/[/\\]/).pop()?.trim() || null;
+}
+
+/**
+ * Fetch options for document URLs: configured limits plus the URL policy on every hop.
+ *
+ * @param overrides - Validated per-request settings; they cannot lift the redirect, size or URL policy limits
+ */
+export function documentFetchOptions(env: Env, overrides: FetchOverrides = {}): FetchOptions {
+  return {
+    timeout: overrides.timeout ?? fetchTimeout(env),
+    maxAttempts: overrides.maxAttempts ?? fetchMaxAttempts(env),
+    headers: overrides.headers,
+    referer: overrides.referer,
+    maxRedirects: fetchMaxRedirects(env),
+    maxBytes: fetchMaxBytes(env),
+    checkUrl: (url) => assertUrlAllowed(url, env),
+  };
+}
+
+/** Encode a string as a standalone ArrayBuffer */
+function encode(text: string): ArrayBuffer {
+  return new TextEncoder().encode(text).buffer as ArrayBuffer;
+}
+
+/**
+ * Run the HTML preprocessing steps on a raw page.
+ *
+ * The title and metadata are extracted from the original HTML (before any processing),
+ * then a site-specific extractor narrows the page to its content — or, in
+ * `main` mode, readability scoring when no site extractor matches — and
+ * finally lazy-loaded images are resolved.
+ *
+ * @param embedded - Article rebuilt from an SPA shell's embedded state; replaces extraction
+ */
+function prepareHtml(
+  rawHtml: string,
+  fallbackId: string,
+  url: string | null,
+  extract: ExtractMode,
+  embedded: string | null = null,
+): { title: string; html: string; extractor: string | null; metadata: PageMetadata } {
+  const title = extractTitle(rawHtml, fallbackId);
+  const metadata = extractMetadata(rawHtml, url);
+  if (embedded) return { title, html: preprocessHtml(embedded), extractor: null, metadata };
+
+  let { html, extractor } = runExtractors(rawHtml, url);
+
+  if (!extractor && extract === 'main') {
+    const main = extractMainContent(rawHtml);
+    if (main) {
+      html = main;
+      extractor = 'readability';
+    }
+  }
+
+  return { title, html: preprocessHtml(html), extractor, metadata };
+}
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+/**
+ * Build a source document from raw bytes.
+ *
+ * The MIME type is reconciled with the bytes and filename (see `sniff.ts`)
+ * and the filename given a matching extension. HTML bodies are decoded with
+ * their detected charset and go through the preprocessing pipeline (SPA
+ * shells are rebuilt from their embedded state when possible);
+ * everything else is passed through unchanged. With `feed`, XML sitemaps
+ * and feeds are parsed into `SourceDocument.feed` instead (see `feeds.ts`).
+ *
+ * @param body        - Document bytes
+ * @param contentType - Declared MIME type of the body
+ * @throws {HttpError} 415 when the format is not supported by `toMarkdown`
+ * @throws {HttpError} 422 when `feed` is `feed` and the document is not a sitemap or feed
+ */
+export function loadFromBytes(body: ArrayBuffer, contentType: string, opts: LoadOptions = {}): SourceDocument {
+  const { fileName, fallbackName = 'content', url = null, extract = 'auto', feed: feedMode = 'document' } = opts;
+  const decode = () =>
+    opts.charset ? { text: new TextDecoder(opts.charset).decode(body), charset: opts.charset } : decodeHtml(body, contentType);
+
+  const type = resolveDocumentType(body, contentType, fileName || fallbackName);
+  if (feedMode === 'feed' || (feedMode === 'auto' && type === 'application/xml')) {
+    const feed = parseFeed(decode().text, url);
+    if (feed) {
+      return { fileName: withExtension(fileName || fallbackName, 'application/xml'), contentType: 'application/xml', body, html: '', feed };
+    }
+    if (feedMode === 'feed') throw new HttpError('Not a sitemap, RSS or Atom feed.', 422, 'not_a_feed');
+  }
+
+  if (!isSupportedType(type)) {
+    throw new HttpError(`Unsupported format: ${type}${fileName ? ` (${fileName})` : ''}.`, 415, 'unsupported_format');
+  }
+
+  if (type !== 'text/html') {
+    return { fileName: withExtension(fileName || fallbackName, type), contentType: type, body, html: '' };
+  }
+
+  const decoded = decode();
+  const shell = isSpaShell(decoded.text);
+  const embedded = shell ? extractEmbeddedArticle(decoded.text) : null;
+  const { title, html, extractor, metadata } = prepareHtml(decoded.text, fallbackName.replace(/\.\w+$/, ''), url, extract, embedded);
+  return {
+    fileName: withExtension(fileName || `${title}.html`, type),
+    contentType: 'text/html; charset=utf-8',
+    body: encode(html),
+    html,
+    extractor: extractor ?? undefined,
+    metadata,
+    charset: decoded.charset,
+    strategy: embedded ? 'embedded' : 'static',
+    shell: shell && !embedded,
+    links: opts.links && url ? extractLinks(decoded.text, url) : undefined,
+  };
+}
+
+/**
+ * Build a source document from text content supplied directly by the caller.
+ *
+ * @param content     - Document content as text
+ * @param contentType - MIME type (default: `text/html`)
+ * @param fileName    - Explicit filename; when absent, HTML titles are used
+ */
+export function loadFromContent(
+  content: string,
+  contentType?: string | null,
+  fileName?: string | null,
+  opts: HtmlOptions = {},
+): SourceDocument {
+  // Text supplied as a string is already decoded; ignore any `<meta charset>` it carries
+  return loadFromBytes(encode(content), contentType || 'text/html', { ...opts, fileName, charset: 'utf-8' });
+}
+
+/** Build a source document from a successful upstream response */
+async function loadFromResponse(url: string, response: Response, opts: UrlLoadOptions): Promise<SourceDocument> {
+  const { onProgress, render: _render, waitFor: _waitFor, fetch: _fetch, ...htmlOpts } = opts;
+  if (!response.ok) {
+    onProgress?.({ type: 'fetch', stage: 'done', url, status: response.status, size: 0, contentType: '' });
+    throw new HttpError(`Failed to fetch URL: ${response.status} ${response.statusText}`, 502);
+  }
+
+  const contentType = response.headers.get('content-type') || 'application/octet-stream';
+  const body = await response.arrayBuffer();
+  onProgress?.({ type: 'fetch', stage: 'done', url, status: response.status, size: body.byteLength, contentType });
+
+  const fileName = contentDispositionFileName(response.headers.get('content-disposition'));
+  const doc = loadFromBytes(body, contentType, { ...htmlOpts, fileName, fallbackName: getFileName(url), url });
+  doc.validators = {
+    etag: response.headers.get('etag') ?? undefined,
+    lastModified: response.headers.get('last-modified') ?? undefined,
+  };
+  return doc;
+}
+
+/** Render a URL in the browser and build a source document from its DOM */
+async function loadFromBrowser(url: string, env: Env, opts: UrlLoadOptions): Promise<SourceDocument> {
+  const { onProgress, render: _render, waitFor, fetch: overrides, ...htmlOpts } = opts;
+  const page = await renderPage(url, env, waitFor, overrides && overrideHeaders(overrides));
+  const body = encode(page.html);
+  onProgress?.({ type: 'fetch', stage: 'done', url, status: page.status, size: body.byteLength, contentType: 'text/html' });
+  // The DOM is serialised as a string: no charset to detect
+  const doc = loadFromBytes(body, 'text/html', { ...htmlOpts, fallbackName: getFileName(url), url, charset: 'utf-8' });
+  if (doc.strategy === 'static') doc.strategy = 'render';
+  return doc;
+}
+
+/**
+ * Render a fetched SPA shell when a browser is available and rendering was not turned off.
+ * Rendering failures keep the fetched document.
+ */
+async function renderShell(url: string, doc: SourceDocument, env: Env, opts: UrlLoadOptions): Promise<SourceDocument> {
+  if (!doc.shell || opts.render === false || !renderEnabled(env)) return doc;
+
+  opts.onProgress?.({ type: 'fetch', stage: 'start', url });
+  try {
+    return await loadFromBrowser(url, env, opts);
+  } catch (err) {
+    console.log(`Rendering SPA shell ${url} failed, keeping the fetched page: ${errorMessage(err)}`);
+    return doc;
+  }
+}
+
+/**
+ * Fetch a URL (or render it, with `render`) and build a source document from the response.
+ *
+ * SPA shells without usable embedded state are rendered as a fallback (see `renderShell`).
+ *
+ * @throws {HttpError} 502 when the upstream responds with a non-2xx status; 501/504 from rendering
+ * @throws {PolicyError} 403/413 when the URL policy or size limit rejects the fetch
+ */
+export async function loadFromUrl(url: string, env: Env, opts: UrlLoadOptions = {}): Promise<SourceDocument> {
+  opts.onProgress?.({ type: 'fetch', stage: 'start', url });
+  if (opts.render) return loadFromBrowser(url, env, opts);
+  const response = await robustFetch(url, documentFetchOptions(env, opts.fetch));
+  return renderShell(url, await loadFromResponse(url, response, opts), env, opts);
+}
+
+/**
+ * Conditionally re-fetch a URL using validators from a previous response.
+ *
+ * Returns `null` when the upstream answers `304 Not Modified`.
+ *
+ * @throws {HttpError} 502 when the upstream responds with an error status
+ */
+export async function revalidateUrl(
+  url: string,
+  env: Env,
+  validators: Validators,
+  opts: UrlLoadOptions = {},
+): Promise<SourceDocument | null> {
+  opts.onProgress?.({ type: 'fetch', stage: 'start', url });
+  const response = await robustFetch(url, { ...documentFetchOptions(env, opts.fetch), validators });
+  if (response.status === 304) {
+    opts.onProgress?.({ type: 'fetch', stage: 'done', url, status: 304, size: 0, contentType: '' });
+    return null;
+  }
+  return renderShell(url, await loadFromResponse(url, response, opts), env, opts);
+}
+
+// ---------------------------------------------------------------------------
+// Markdown
+// ---------------------------------------------------------------------------
+
+/**
+ * Strip YAML frontmatter if present (generated by Workers AI toMarkdown).
+ * Metadata is returned separately; see `withFrontmatter` for `frontmatter=true`.
+ */
+export function stripFrontmatter(markdown: string): string {
+  return markdown.replace(/^---\n[\s\S]*?\n---\n*/, '');
+}
+
+/** Markdown after image proxying, plus the upload report in `sync` mode */
+export interface ProxiedMarkdown {
+  markdown: string;
+  images: UploadResult | null;
+}
+
+/**
+ * Proxy images from allowlisted hosts through R2 (if configured).
+ *
+ * An image's R2 key hashes its bytes, so only downloaded images are
+ * rewritten; failures keep their original URL. In `proxy` mode the uploads
+ * run under `ctx.waitUntil` and the response waits at most
+ * `IMAGE_PROXY_WAIT_MS`, rewriting the images downloaded by then; in `sync`
+ * mode the uploads are awaited and the upload report is returned.
+ *
+ * @param html       - Preprocessed source HTML (may be empty)
+ * @param url        - Source page URL, used to resolve relative images (`null` for direct content)
+ * @param onProgress - Receives an `image` event per upload
+ */
+export async function proxyImages(
+  markdown: string,
+  html: string,
+  url: string | null,
+  env: Env,
+  ctx: ExecutionContext,
+  mode: 'proxy' | 'sync' = 'proxy',
+  onProgress?: ProgressListener,
+): Promise<ProxiedMarkdown> {
+  if (!env.IMAGES_BUCKET || !env.R2_PUBLIC_URL) return { markdown, images: null };
+
+  const images = collectImageUrls(html, markdown, env, url);
+
+  if (mode === 'proxy' && images.length === 0) return { markdown, images: null };
+
+  // Filled as each download is hashed, so proxy mode can rewrite without waiting for every upload
+  const stored = new Map<string, string>();
+  const run = uploadImages(images, env.IMAGES_BUCKET, env, url, onProgress, (imageUrl, r2Url) => stored.set(imageUrl, r2Url));
+
+  let result: UploadResult | null = null;
+  if (mode === 'sync') {
+    result = await run;
+    // A write can still fail after the download was hashed
+    for (const image of result.images) if (!image.r2Url) stored.delete(image.url);
+  } else {
+    ctx.waitUntil(run);
+    await Promise.race([run, new Promise((resolve) => setTimeout(resolve, imageProxyWaitMs(env)))]);
+  }
+
+  const replacements = new Map(
+    images.flatMap((image): [string, string][] => {
+      const r2Url = stored.get(image.url);
+      return r2Url ? [[image.source, r2Url]] : [];
+    }),
+  );
+  return { markdown: replaceImageSources(markdown, replacements), images: result };
+}
+
+/**
+ * Apply the requested image mode to converted Markdown.
+ *
+ * @param html       - Preprocessed source HTML (may be empty)
+ * @param url        - Source page URL, used to resolve relative images (`null` for direct content)
+ * @param onProgress - Receives R2 upload progress (`proxy` and `sync` modes)
+ */
+export async function processImages(
+  markdown: string,
+  html: string,
+  url: string | null,
+  env: Env,
+  ctx: ExecutionContext,
+  mode: ImageMode,
+  onProgress?: ProgressListener,
+): Promise<ProxiedMarkdown> {
+  switch (mode) {
+    case 'keep':
+      return { markdown, images: null };
+    case 'strip':
+      return { markdown: stripImages(markdown), images: null };
+    case 'inline':
+      return { markdown: await inlineImages(markdown, url, env), images: null };
+    default:
+      return proxyImages(markdown, html, url, env, ctx, mode, onProgress);
+  }
+}
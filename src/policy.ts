@@ -0,0 +1,196 @@
+/**
+ * URL policy for outbound fetches
+ *
+ * Guards `robustFetch` against SSRF: every URL (including each redirect hop)
+ * is checked before it is requested.
+ *
+ * Rules, in order:
+ *  1. Scheme must be in `URL_ALLOWED_SCHEMES` (default: http, https).
+ *  2. Host must not match `URL_DENY_HOSTS`.
+ *  3. If `URL_ALLOW_HOSTS` is set, the host must match it.
+ *  4. Private, loopback, link-local and other non-public IP literals are
+ *     blocked unless `URL_BLOCK_PRIVATE_IPS` is "false".
+ *
+ * Host patterns match the host itself and its subdomains (`example.com`),
+ * or are globs where `*` matches any run of characters (`*.example.com`).
+ * Hosts are compared lowercased and without a trailing dot. IPv6 literals
+ * that embed an IPv4 address (mapped, compatible, NAT64, 6to4) are judged
+ * by that address.
+ */
+
+import { urlAllowedSchemes, urlAllowHosts, urlBlockPrivateIps, urlDenyHosts } from './config';
+import { HttpError } from './errors';
+
+/** Machine-readable reasons a URL or response is rejected */
+export type PolicyCode =
+  | 'invalid_url'
+  | 'scheme_not_allowed'
+  | 'host_denied'
+  | 'host_not_allowed'
+  | 'private_address'
+  | 'too_many_redirects'
+  | 'response_too_large';
+
+/** A request rejected by the URL policy */
+export class PolicyError extends HttpError {
+  constructor(message: string, code: PolicyCode, status = 403) {
+    super(message, status, code);
+    this.name = 'PolicyError';
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Host matching
+// ---------------------------------------------------------------------------
+
+/** Lowercase a hostname and drop its trailing dot (`localhost.` is `localhost`) */
+function normalizeHost(hostname: string): string {
+  return hostname.toLowerCase().replace(/\.+$/, '');
+}
+
+/** Match a hostname against a suffix or glob pattern */
+export function matchHost(hostname: string, pattern: string): boolean {
+  hostname = normalizeHost(hostname);
+  pattern = normalizeHost(pattern);
+  if (pattern.includes('*')) {
+    const source = pattern
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp(`^${source}$`).test(hostname);
+  }
+
+  const suffix = pattern.replace(/^\./, '');
+  return hostname === suffix || hostname.endsWith(`.${suffix}`);
+}
+
+// ---------------------------------------------------------------------------
+// IP literals
+// ---------------------------------------------------------------------------
+
+/** Parse a dotted IPv4 address into its four octets */
+function parseIPv4(host: string): number[] | null {
+  const parts = host.split('.');
+  if (parts.length !== 4 || parts.some((p) => !/^\d{1,3}$/.test(p))) return null;
+  const octets = parts.map(Number);
+  return octets.every((o) => o <= 255) ? octets : null;
+}
+
+/** Whether an IPv4 address is outside the public unicast range */
+function isPrivateIPv4([a, b, c]: number[]): boolean {
+  return (
+    a === 0 || // "this" network
+    a === 10 || // private
+    a === 127 || // loopback
+    (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+    (a === 169 && b === 254) || // link-local (incl. cloud metadata)
+    (a === 172 && b >= 16 && b <= 31) || // private
+    (a === 192 && b === 0 && c === 0) || // IETF protocol assignments
+    (a === 192 && b === 0 && c === 2) || // documentation (TEST-NET-1)
+    (a === 192 && b === 168) || // private
+    (a === 198 && (b === 18 || b === 19)) || // benchmarking (198.18.0.0/15)
+    (a === 198 && b === 51 && c === 100) || // documentation (TEST-NET-2)
+    (a === 203 && b === 0 && c === 113) || // documentation (TEST-NET-3)
+    a >= 224 // multicast (224/4), reserved (240/4) and limited broadcast (255.255.255.255)
+  );
+}
+
+/** Parse an IPv6 address (without brackets) into its eight 16-bit groups */
+function parseIPv6(host: string): number[] | null {
+  let addr = host.toLowerCase();
+
+  // A trailing dotted IPv4 part stands for the last two groups
+  const dotted = addr.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const v4 = parseIPv4(dotted[2]);
+    if (!v4) return null;
+    addr = `${dotted[1]}${((v4[0] << 8) | v4[1]).toString(16)}:${((v4[2] << 8) | v4[3]).toString(16)}`;
+  }
+
+  const halves = addr.split('::');
+  if (halves.length > 2) return null;
+  const parse = (part: string) => (part ? part.split(':') : []);
+  const head = parse(halves[0]);
+  const tail = halves.length === 2 ? parse(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array<string>(missing).fill('0'), ...tail];
+  if (groups.some((g) => !/^[0-9a-f]{1,4}$/.test(g))) return null;
+  return groups.map((g) => Number.parseInt(g, 16));
+}
+
+/** The IPv4 address in two 16-bit groups */
+function ipv4FromGroups(hi: number, lo: number): number[] {
+  return [hi >> 8, hi & 0xff, lo >> 8, lo & 0xff];
+}
+
+/** Whether an IPv6 address (without brackets) is outside the public unicast range */
+function isPrivateIPv6(host: string): boolean {
+  const groups = parseIPv6(host);
+  if (!groups) return true;
+
+  const [first, second] = groups;
+  const zeroPrefix = (n: number) => groups.slice(0, n).every((g) => g === 0);
+
+  // Addresses that embed an IPv4 address are as private as that address
+  if (zeroPrefix(5) && groups[5] === 0xffff) return isPrivateIPv4(ipv4FromGroups(groups[6], groups[7])); // IPv4-mapped ::ffff:0:0/96
+  if (zeroPrefix(6)) return groups[6] === 0 || isPrivateIPv4(ipv4FromGroups(groups[6], groups[7])); // ::, ::1 and IPv4-compatible ::/96
+  if (first === 0x64 && second === 0xff9b && groups.slice(2, 6).every((g) => g === 0)) {
+    return isPrivateIPv4(ipv4FromGroups(groups[6], groups[7])); // NAT64 64:ff9b::/96
+  }
+  if (first === 0x2002) return isPrivateIPv4(ipv4FromGroups(groups[1], groups[2])); // 6to4 2002::/16
+
+  return (
+    (first === 0x64 && second === 0xff9b) || // local-use NAT64 64:ff9b:1::/48
+    (first & 0xfe00) === 0xfc00 || // unique local fc00::/7
+    (first & 0xffc0) === 0xfe80 || // link-local fe80::/10
+    (first & 0xffc0) === 0xfec0 || // site-local fec0::/10 (deprecated)
+    (first & 0xff00) === 0xff00 // multicast ff00::/8
+  );
+}
+
+/** Whether a URL hostname is a private / non-public IP literal */
+export function isPrivateAddress(hostname: string): boolean {
+  if (hostname.startsWith('[')) return isPrivateIPv6(hostname.slice(1, -1));
+  const v4 = parseIPv4(hostname);
+  return v4 ? isPrivateIPv4(v4) : false;
+}
+
+// ---------------------------------------------------------------------------
+// Policy check
+// ---------------------------------------------------------------------------
+
+/**
+ * Check a URL against the configured policy.
+ *
+ * @throws {PolicyError} 403 with a reason code when the URL is not allowed
+ */
+export function assertUrlAllowed(url: string, env: Env): void {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new PolicyError('Invalid URL provided.', 'invalid_url', 400);
+  }
+
+  const scheme = parsed.protocol.replace(/:$/, '');
+  if (!urlAllowedSchemes(env).includes(scheme)) {
+    throw new PolicyError(`URL scheme "${scheme}" is not allowed.`, 'scheme_not_allowed');
+  }
+
+  // Fully qualified names with a trailing dot resolve like the name without it
+  const hostname = normalizeHost(parsed.hostname);
+  if (urlDenyHosts(env).some((pattern) => matchHost(hostname, pattern))) {
+    throw new PolicyError(`Host "${hostname}" is not allowed.`, 'host_denied');
+  }
+
+  const allowHosts = urlAllowHosts(env);
+  if (allowHosts.length > 0 && !allowHosts.some((pattern) => matchHost(hostname, pattern))) {
+    throw new PolicyError(`Host "${hostname}" is not in the allowlist.`, 'host_not_allowed');
+  }
+
+  if (urlBlockPrivateIps(env) && isPrivateAddress(hostname)) {
+    throw new PolicyError(`Private or reserved address "${hostname}" is not allowed.`, 'private_address');
+  }
+}
@@ -0,0 +1,263 @@
+/**
+ * Markdown post-processing
+ *
+ * Optional cleanup steps applied to the converted Markdown, selected with
+ * the `clean` option:
+ *  - `resolve`: resolve relative links and images against the source URL
+ *  - `tracking`: remove tracking query parameters (`utm_*`, `spm`, …) from links
+ *  - `empty`: drop links without text (and unwrap links without a target)
+ *  - `headings`: normalise heading levels so there is a single H1
+ *  - `whitespace`: trim trailing spaces and collapse repeated blank lines
+ *  - `unlink`: replace links with their text (not part of the defaults)
+ *
+ * `clean=true` runs every step except `unlink`; a comma-separated list runs
+ * exactly the steps named. Fenced code blocks and inline code are never
+ * modified.
+ */
+
+/** A post-processing step */
+export type CleanStep = 'resolve' | 'tracking' | 'empty' | 'headings' | 'whitespace' | 'unlink';
+
+const CLEAN_STEPS: CleanStep[] = ['resolve', 'tracking', 'empty', 'headings', 'whitespace', 'unlink'];
+
+/** Steps run by `clean=true` */
+const DEFAULT_STEPS: CleanStep[] = ['resolve', 'tracking', 'empty', 'headings', 'whitespace'];
+
+/** Query parameters that only exist for tracking */
+const TRACKING_PARAMS =
+  /^(?:utm_\w+|spm|scm|fbclid|gclid|dclid|gbraid|wbraid|msclkid|yclid|mc_cid|mc_eid|_hsenc|_hsmi|igshid|ref_src|vd_source)$/i;
+
+/**
+ * Inline links and images: `[text](url "title")` / `![alt](url)`.
+ * Link text may contain one level of nested brackets (e.g. a linked image).
+ */
+const LINK_RE = /(!?)\[((?:\\.|[^[\]\\]|!?\[(?:\\.|[^[\]\\])*\](?:\([^)]*\))?)*)\]\(\s*(<[^>]*>|[^\s)]*)(\s+(?:"[^"]*"|'[^']*'))?\s*\)/g;
+
+/** Reference definitions: `[id]: url "title"` */
+const REFERENCE_RE = /^( {0,3}\[[^\]]+\]:\s*)(<[^>]*>|\S+)/gm;
+
+/** Inline code spans */
+const CODE_SPAN_RE = /(`+)[\s\S]*?\1/g;
+
+/** Fenced code block delimiters */
+export const FENCE_RE = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * Parse the `clean` request parameter.
+ *
+ * @returns The steps to run, in pipeline order (empty when cleaning is off)
+ */
+export function parseCleanSteps(value: string | boolean | null | undefined): CleanStep[] {
+  if (value === true || value === 'true' || value === 'default') return DEFAULT_STEPS;
+  if (typeof value !== 'string' || value === '' || value === 'false') return [];
+
+  const requested = value.split(',').map((s) => s.trim().toLowerCase());
+  return CLEAN_STEPS.filter((step) => requested.includes(step));
+}
+
+// ---------------------------------------------------------------------------
+// Segmentation
+// ---------------------------------------------------------------------------
+
+/** Split Markdown into alternating text and fenced-code blocks */
+function splitFences(markdown: string): { code: boolean; text: string }[] {
+  const blocks: { code: boolean; text: string }[] = [];
+  let current: string[] = [];
+  let fence: string | null = null;
+
+  const flush = (code: boolean) => {
+    if (current.length > 0) blocks.push({ code, text: current.join('\n') });
+    current = [];
+  };
+
+  for (const line of markdown.split('\n')) {
+    const marker = line.match(FENCE_RE)?.[1];
+    if (fence === null && marker) {
+      flush(false);
+      fence = marker;
+      current.push(line);
+    } else if (fence !== null && marker && marker[0] === fence[0] && marker.length >= fence.length && line.trim() === marker) {
+      current.push(line);
+      flush(true);
+      fence = null;
+    } else {
+      current.push(line);
+    }
+  }
+  flush(fence !== null);
+
+  return blocks;
+}
+
+/** Apply `fn` to the parts of a text block that are outside inline code */
+function outsideCodeSpans(text: string, fn: (part: string) => string): string {
+  let result = '';
+  let last = 0;
+  for (const m of text.matchAll(CODE_SPAN_RE)) {
+    result += fn(text.slice(last, m.index)) + m[0];
+    last = (m.index ?? 0) + m[0].length;
+  }
+  return result + fn(text.slice(last));
+}
+
+// ---------------------------------------------------------------------------
+// Link steps
+// ---------------------------------------------------------------------------
+
+/** Resolve a relative URL against the source URL (anchors and absolute URLs are kept) */
+function resolveUrl(target: string, baseUrl: string | null): string {
+  if (!baseUrl || !target || target.startsWith('#')) return target;
+  try {
+    new URL(target);
+    return target;
+  } catch {
+    try {
+      return new URL(target, baseUrl).href;
+    } catch {
+      return target;
+    }
+  }
+}
+
+/** Remove tracking query parameters from an absolute URL */
+function stripTracking(target: string): string {
+  let url: URL;
+  try {
+    url = new URL(target);
+  } catch {
+    return target;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return target;
+
+  const params = [...url.searchParams.keys()].filter((key) => TRACKING_PARAMS.test(key));
+  if (params.length === 0) return target;
+
+  for (const key of params) url.searchParams.delete(key);
+  return url.href;
+}
+
+/** Rewrite link and image targets and text according to the enabled steps */
+function transformLinks(text: string, steps: Set<CleanStep>, baseUrl: string | null): string {
+  const rewriteTarget = (target: string, image: boolean) => {
+    let url = target;
+    if (steps.has('resolve')) url = resolveUrl(url, baseUrl);
+    // Image URLs are left intact: query parameters there usually select the format or size
+    if (steps.has('tracking') && !image) url = stripTracking(url);
+    return url;
+  };
+
+  const withInline = text.replace(LINK_RE, (match, bang: string, label: string, rawTarget: string, title: string | undefined) => {
+    const image = bang === '!';
+    const inner = image ? label : transformLinks(label, steps, baseUrl);
+
+    if (!image && steps.has('empty')) {
+      if (!inner.trim()) return '';
+      if (!rawTarget || rawTarget === '<>') return inner;
+    }
+    if (!image && steps.has('unlink')) return inner;
+
+    const bracketed = rawTarget.startsWith('<');
+    const target = rewriteTarget(bracketed ? rawTarget.slice(1, -1) : rawTarget, image);
+    if (target === rawTarget && inner === label) return match;
+    return `${bang}[${inner}](${bracketed ? `<${target}>` : target}${title ?? ''})`;
+  });
+
+  return withInline.replace(REFERENCE_RE, (_match, prefix: string, rawTarget: string) => {
+    const bracketed = rawTarget.startsWith('<');
+    const target = rewriteTarget(bracketed ? rawTarget.slice(1, -1) : rawTarget, false);
+    return `${prefix}${bracketed ? `<${target}>` : target}`;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Block steps
+// ---------------------------------------------------------------------------
+
+/**
+ * Normalise ATX heading levels across the document.
+ *
+ * The first heading at the highest level becomes the H1 title, and every
+ * other heading sits exactly one level below its nearest enclosing heading
+ * (capped at H6). Further top-level headings become H2 with their subtrees
+ * shifted along, and skipped levels (`#` then `###`) are closed up.
+ */
+function normalizeHeadings(blocks: { code: boolean; text: string }[]): void {
+  const HEADING_RE = /^( {0,3})(#{1,6})(?=\s|$)/gm;
+  const levels = blocks.filter((b) => !b.code).flatMap((b) => [...b.text.matchAll(HEADING_RE)].map((m) => m[2].length));
+  if (levels.length === 0) return;
+
+  const top = Math.min(...levels);
+  const outline: { source: number; level: number }[] = [];
+  let titled = false;
+
+  for (const block of blocks) {
+    if (block.code) continue;
+    block.text = block.text.replace(HEADING_RE, (_match, indent: string, hashes: string) => {
+      const source = hashes.length;
+      while (outline.length > 0 && outline[outline.length - 1].source >= source) outline.pop();
+
+      const parent = outline[outline.length - 1];
+      let level = 2;
+      if (parent) {
+        level = Math.min(parent.level + 1, 6);
+      } else if (source === top && !titled) {
+        level = 1;
+        titled = true;
+      }
+
+      outline.push({ source, level });
+      return `${indent}${'#'.repeat(level)}`;
+    });
+  }
+}
+
+/** Demote every ATX heading by `levels` (capped at H6), to nest a document under another heading */
+export function demoteHeadings(markdown: string, levels: number): string {
+  const HEADING_RE = /^( {0,3})(#{1,6})(?=\s|$)/gm;
+  return splitFences(markdown)
+    .map((block) =>
+      block.code
+        ? block.text
+        : block.text.replace(
+            HEADING_RE,
+            (_match, indent: string, hashes: string) => `${indent}${'#'.repeat(Math.min(hashes.length + levels, 6))}`,
+          ),
+    )
+    .join('\n');
+}
+
+/** Trim trailing whitespace and collapse runs of blank lines */
+function collapseWhitespace(text: string): string {
+  return text.replace(/[ \t]+$/gm, '').replace(/\n{3,}/g, '\n\n');
+}
+
+// ---------------------------------------------------------------------------
+// Pipeline
+// ---------------------------------------------------------------------------
+
+/**
+ * Run the selected cleanup steps over converted Markdown.
+ *
+ * @param steps   - Steps to run (see `parseCleanSteps`)
+ * @param baseUrl - Source URL for resolving relative links (`null` for direct content)
+ */
+export function cleanMarkdown(markdown: string, steps: CleanStep[], baseUrl: string | null = null): string {
+  if (steps.length === 0) return markdown;
+
+  const enabled = new Set(steps);
+  const blocks = splitFences(markdown);
+
+  if (enabled.has('resolve') || enabled.has('tracking') || enabled.has('empty') || enabled.has('unlink')) {
+    for (const block of blocks) {
+      if (!block.code) block.text = outsideCodeSpans(block.text, (part) => transformLinks(part, enabled, baseUrl));
+    }
+  }
+
+  if (enabled.has('headings')) normalizeHeadings(blocks);
+
+  if (!enabled.has('whitespace')) return blocks.map((block) => block.text).join('\n');
+  return blocks
+    .map((block) => (block.code ? block.text : collapseWhitespace(block.text)))
+    .join('\n')
+    .trim();
+}
@@ -1,31 +1,51 @@
 /**
  * R2 image proxy module
  *
- * Handles temporary caching of WeChat (qpic.cn) images in Cloudflare R2.
+ * Mirrors images from hotlink-protected hosts (WeChat, Zhihu, Jianshu, …)
+ * into Cloudflare R2 and rewrites the Markdown to point at the copies.
  *
  * Design:
- *  - Allowlist: only proxies images from qpic.cn domains.
- *  - Deterministic keys: R2 object key is derived from the URL so the same
- *    image always maps to the same key (no duplicates).
+ *  - Collection: every `<img src>` / `srcset` in the source HTML and every
+ *    Markdown image reference is resolved against the page URL, then
+ *    filtered by the `IMAGE_PROXY_HOSTS` allowlist.
+ *  - Content-addressed keys: the R2 object key is a hash of the downloaded
+ *    bytes, so identical images share one object whatever URL they were
+ *    found under, and a changed image at the same URL gets a new key.
+ *  - Sniffed types: the stored Content-Type comes from the image bytes, not
+ *    from URL hints; responses that are not images (e.g. hotlink error
+ *    pages) are rejected instead of being stored.
+ *  - Per-host rules: each host gets its own Referer / headers
+ *    (`IMAGE_HOST_RULES`); other hosts get the source page as Referer.
  *  - TTL metadata: each object carries an `expiresAt` custom metadata field
- *    (default 8 h). A separate scheduled handler or lifecycle rule can clean
- *    up expired objects.
- *  - Non-blocking upload: callers use `ctx.waitUntil()` so the response is
- *    returned immediately while uploads happen in the background.
+ *    (default 8 h), reset when a conversion links to the image again after
+ *    half of it has run out. R2 cannot change metadata on its own, so the
+ *    reset writes the object again. The scheduled handler (`cleanup.ts`)
+ *    deletes expired objects.
+ *  - Non-blocking upload: with `images=proxy` the uploads run under
+ *    `ctx.waitUntil()`, and the Markdown is rewritten through a URL → key
+ *    map filled as each download is hashed, once the uploads finish or
+ *    `IMAGE_PROXY_WAIT_MS` passes; images still downloading keep their URL.
+ *    With `images=sync` the uploads are awaited and an upload report is
+ *    returned.
  */
 
-import { allowedImageHosts, imageCacheMaxAge, imageTtlMs, imageUploadConcurrency } from './config';
+import { allowedImageHosts, fetchMaxBytes, imageCacheMaxAge, imageHostRules, imageTtlMs, imageUploadConcurrency } from './config';
+import { errorMessage } from './errors';
 import { robustFetch } from './fetch';
-
-/** Map content-type fragments to file extensions */
-const MIME_TO_EXT: Record<string, string> = {
-  png: 'png',
-  gif: 'gif',
-  webp: 'webp',
-  svg: 'svg',
-  jpeg: 'jpg',
-  jpg: 'jpg',
-};
+import { assertUrlAllowed, matchHost } from './policy';
+import { imageExtension, sniffImageType } from './sniff';
+import type { ProgressListener } from './stream';
+
+/** Key prefix for mirrored images */
+const IMAGE_PREFIX = 'img/';
+
+/** An image found in a document */
+export interface ImageRef {
+  /** The reference as written in the source (possibly relative or entity-encoded) */
+  source: string;
+  /** Absolute image URL */
+  url: string;
+}
 
 // ---------------------------------------------------------------------------
 // URL helpers
@@ -34,197 +54,335 @@ const MIME_TO_EXT: Record<string, string> = {
 /** Check whether a URL belongs to the configured image host allowlist */
 export function isAllowedImageHost(url: string, env: Env): boolean {
   try {
-    const hostname = new URL(url).hostname;
-    return allowedImageHosts(env).some((suffix) => hostname.endsWith(suffix));
+    const hostname = new URL(url).hostname.toLowerCase();
+    return allowedImageHosts(env).some((pattern) => matchHost(hostname, pattern.toLowerCase()));
   } catch {
     return false;
   }
 }
 
-/**
- * Infer a file extension from a WeChat image URL.
- *
- * Priority: `wx_fmt` query param > path hint (`_png`, `_gif`, …) > default `jpg`.
- */
-function inferExtension(url: URL): string {
-  const fmt = url.searchParams.get('wx_fmt');
-  if (fmt) return MIME_TO_EXT[fmt] ?? fmt;
-
-  const path = url.pathname;
-  for (const [hint, ext] of Object.entries(MIME_TO_EXT)) {
-    if (path.includes(`_${hint}`)) return ext;
+/** Resolve an image reference against the page URL; `null` for non-HTTP references */
+function resolveImageUrl(source: string, baseUrl: string | null): string | null {
+  try {
+    const url = new URL(source.replace(/&amp;/g, '&'), baseUrl ?? undefined);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch {
+    return null;
   }
-  return 'jpg';
 }
 
 /**
- * Derive a deterministic R2 object key from an image URL.
+ * Derive a content-addressed R2 object key from downloaded image bytes.
  *
  * Example:
- *   https://mmbiz.qpic.cn/sz_mmbiz_png/abc/640?wx_fmt=png
- *   → mmbiz_qpic_cn/sz_mmbiz_png/abc/640.png
- *
- * Returns `null` for non-allowlisted URLs.
+ *   <48213 bytes of JPEG>
+ *   → img/3f5c…e1 (SHA-256 of the bytes, truncated)
  */
-export function toR2Key(originalUrl: string, env: Env): string | null {
-  try {
-    const url = new URL(originalUrl);
-    const hosts = allowedImageHosts(env);
-    if (!hosts.some((suffix) => url.hostname.endsWith(suffix))) return null;
-
-    const prefix = url.hostname.replace(/\./g, '_');
-    const path = url.pathname.replace(/^\//, '');
-    const ext = inferExtension(url);
-
-    return `${prefix}/${path}.${ext}`;
-  } catch {
-    return null;
-  }
+export async function toR2Key(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  const hex = [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, '0')).join('');
+  return `${IMAGE_PREFIX}${hex.slice(0, 40)}`;
 }
 
 // ---------------------------------------------------------------------------
 // Extraction & replacement
 // ---------------------------------------------------------------------------
 
-/** Regex that matches WeChat image URLs (mmbiz.qpic.cn / mmbiz.qlogo.cn) */
-const WECHAT_IMG_RE = /https?:\/\/mmbiz\.q(?:pic|logo)\.cn\/[^?\s"'<>)\]]+(?:\?[^&\s"'<>)\]]+)?/gi;
+/** `<img>` tags in HTML or Markdown */
+export const IMG_TAG_RE = /<img\b[^>]*>/gi;
+
+/** `src` / `data-src` / `srcset` attributes inside an `<img>` tag */
+const IMG_ATTR_RE = /\b(src|data-src|srcset|data-srcset)\s*=\s*(?:"([^"]*)"|'([^']*)')/gi;
+
+/** Markdown image syntax: `![alt](url "title")` or `![alt](<url>)` */
+export const MD_IMAGE_RE = /!\[((?:\\.|[^\]\\])*)\]\(\s*(<[^>]*>|[^\s)]+)(\s+(?:"[^"]*"|'[^']*'))?\s*\)/g;
+
+/** Split a `srcset` value into its URLs */
+function srcsetUrls(srcset: string): string[] {
+  return srcset
+    .split(/,\s+/)
+    .map((candidate) => candidate.trim().split(/\s+/)[0])
+    .filter(Boolean);
+}
+
+/** All image references (as written) in `<img>` tags */
+function imgTagSources(text: string): string[] {
+  const sources: string[] = [];
+  for (const tag of text.matchAll(IMG_TAG_RE)) {
+    for (const attr of tag[0].matchAll(IMG_ATTR_RE)) {
+      const value = (attr[2] ?? attr[3] ?? '').trim();
+      if (!value) continue;
+      if (attr[1].toLowerCase().endsWith('srcset')) sources.push(...srcsetUrls(value));
+      else sources.push(value);
+    }
+  }
+  return sources;
+}
+
+/** All image references (as written) in Markdown image syntax */
+function markdownImageSources(markdown: string): string[] {
+  return [...markdown.matchAll(MD_IMAGE_RE)].map((m) => m[2].replace(/^<|>$/g, ''));
+}
 
 /**
- * Collect all unique WeChat image URLs from both raw HTML and converted Markdown.
+ * Collect all unique, allowlisted images from the source HTML and the
+ * converted Markdown.
+ *
+ * @param baseUrl - Page URL used to resolve relative references (`null` for direct content)
+ */
+export function collectImageUrls(html: string, markdown: string, env: Env, baseUrl: string | null = null): ImageRef[] {
+  return resolveSources([...imgTagSources(html), ...imgTagSources(markdown), ...markdownImageSources(markdown)], baseUrl).filter((ref) =>
+    isAllowedImageHost(ref.url, env),
+  );
+}
+
+/**
+ * Collect all unique HTTP(S) images referenced in Markdown, from any host.
+ *
+ * @param baseUrl - Page URL used to resolve relative references (`null` for direct content)
  */
-export function collectImageUrls(html: string, markdown: string): string[] {
-  const matches = new Set<string>();
-  for (const m of html.matchAll(WECHAT_IMG_RE)) matches.add(m[0]);
-  for (const m of markdown.matchAll(WECHAT_IMG_RE)) matches.add(m[0]);
+export function collectMarkdownImages(markdown: string, baseUrl: string | null = null): ImageRef[] {
+  return resolveSources([...imgTagSources(markdown), ...markdownImageSources(markdown)], baseUrl);
+}
 
-  // Strip trailing punctuation that may have been captured
-  return [...matches].map((u) => u.replace(/[,.)\]]+$/, ''));
+/** Resolve unique references, dropping those that are not HTTP(S) URLs */
+function resolveSources(sources: string[], baseUrl: string | null): ImageRef[] {
+  const refs: ImageRef[] = [];
+  for (const source of new Set(sources)) {
+    const url = resolveImageUrl(source, baseUrl);
+    if (url) refs.push({ source, url });
+  }
+  return refs;
 }
 
 /**
- * Replace all WeChat image URLs in a Markdown string with their R2 public URLs.
+ * Replace image references in a Markdown string with new URLs.
  *
  * This is a **synchronous, pure** function — it only rewrites strings and does
  * not perform any I/O.  The actual upload happens separately via `uploadImages`.
+ * Both Markdown image syntax and `<img>` tags (including `srcset`) are rewritten.
  *
- * @param markdown    - Markdown text to transform
- * @param imageUrls   - WeChat image URLs previously collected
- * @param r2PublicUrl - Public base URL of the R2 bucket (no trailing slash)
+ * @param markdown     - Markdown text to transform
+ * @param replacements - Map from the reference as written to its new URL
  */
-export function rewriteImageUrls(markdown: string, imageUrls: string[], r2PublicUrl: string, env: Env): string {
-  if (imageUrls.length === 0) return markdown;
+export function replaceImageSources(markdown: string, replacements: Map<string, string>): string {
+  if (replacements.size === 0) return markdown;
+
+  const withMarkdown = markdown.replace(MD_IMAGE_RE, (match, alt: string, target: string, title: string | undefined) => {
+    const bracketed = target.startsWith('<');
+    const source = bracketed ? target.slice(1, -1) : target;
+    const replacement = replacements.get(source);
+    if (!replacement) return match;
+    return `![${alt}](${bracketed ? `<${replacement}>` : replacement}${title ?? ''})`;
+  });
+
+  return withMarkdown.replace(IMG_TAG_RE, (tag) =>
+    tag.replace(IMG_ATTR_RE, (attr, name: string, dq: string | undefined, sq: string | undefined) => {
+      const value = dq ?? sq ?? '';
+      const rewritten = name.toLowerCase().endsWith('srcset')
+        ? value
+            .split(/,\s+/)
+            .map((candidate) => {
+              const [url, ...descriptor] = candidate.trim().split(/\s+/);
+              return [replacements.get(url) ?? url, ...descriptor].join(' ');
+            })
+            .join(', ')
+        : (replacements.get(value.trim()) ?? value);
+      return rewritten === value ? attr : `${name}="${rewritten}"`;
+    }),
+  );
+}
 
-  let result = markdown;
+// ---------------------------------------------------------------------------
+// Upload
+// ---------------------------------------------------------------------------
 
-  for (const originalUrl of imageUrls) {
-    const key = toR2Key(originalUrl, env);
-    if (!key) continue;
+/** Referer and headers for downloading an image, from the per-host rules */
+function imageRequestOptions(imageUrl: string, pageUrl: string | null, env: Env): { referer?: string; headers: Record<string, string> } {
+  const hostname = new URL(imageUrl).hostname.toLowerCase();
+  const rule = Object.entries(imageHostRules(env)).find(([pattern]) => matchHost(hostname, pattern.toLowerCase()))?.[1] ?? {
+    referer: 'page',
+  };
 
-    const replacement = `${r2PublicUrl}/${key}`;
-    const escaped = originalUrl.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const referer = rule.referer === 'page' ? (pageUrl ?? undefined) : rule.referer || undefined;
+  return { referer, headers: { Accept: 'image/*,*/*;q=0.8', ...rule.headers } };
+}
 
-    // Match the URL followed by optional HTML-entity query params (&amp;…)
-    result = result.replace(new RegExp(`${escaped}(?:&amp;[^)\\s"'<>\\]]+)*`, 'g'), replacement);
-    // Also match plain & params
-    result = result.replace(new RegExp(`${escaped}(?:&[^)\\s"'<>\\]]+)*`, 'g'), replacement);
+/**
+ * Download an image, following the host's Referer / header rules.
+ *
+ * The download goes through the outbound URL policy like any other fetch,
+ * and the body must sniff as an image.
+ *
+ * @param pageUrl  - Source page URL, used as Referer for hosts without a rule
+ * @param maxBytes - Size cap (default: `FETCH_MAX_MB`)
+ * @throws {Error} when the download fails, is too large, or the body is not an image
+ */
+export async function downloadImage(
+  url: string,
+  pageUrl: string | null,
+  env: Env,
+  maxBytes = fetchMaxBytes(env),
+): Promise<{ data: ArrayBuffer; contentType: string }> {
+  const res = await robustFetch(url, {
+    ...imageRequestOptions(url, pageUrl, env),
+    maxAttempts: 2,
+    timeout: 10_000,
+    maxBytes,
+    checkUrl: (hop) => assertUrlAllowed(hop, env),
+  });
+
+  if (!res.ok) {
+    throw new Error(`Image download failed (${res.status})`);
   }
 
-  return result;
+  const data = await res.arrayBuffer();
+  const contentType = sniffImageType(data);
+  if (!contentType) {
+    throw new Error(`Not an image (${res.headers.get('content-type') ?? 'unknown type'})`);
+  }
+
+  return { data, contentType };
 }
 
-// ---------------------------------------------------------------------------
-// Upload
-// ---------------------------------------------------------------------------
+/** Outcome of mirroring one image */
+export interface ImageUploadReport {
+  /** Original (absolute) image URL */
+  url: string;
+  /** Public R2 URL of the copy (`null` when it failed) */
+  r2Url: string | null;
+  /**
+   * `refreshed`: already in R2 and written again to extend its expiry;
+   * `skipped`: already in R2 with more than half its TTL left, or stored
+   * under another URL earlier in the same run
+   */
+  status: 'uploaded' | 'refreshed' | 'skipped' | 'failed';
+  /** Stored size in bytes, when known */
+  size: number | null;
+  /** Failure reason */
+  error?: string;
+}
 
-/** Resolve extension from a Content-Type header value */
-function extFromContentType(ct: string): string {
-  for (const [fragment, ext] of Object.entries(MIME_TO_EXT)) {
-    if (ct.includes(fragment)) return ext;
-  }
-  return 'jpg';
+/** Upload statistics plus a per-image report */
+export interface UploadResult {
+  uploaded: number;
+  refreshed: number;
+  skipped: number;
+  failed: number;
+  images: ImageUploadReport[];
 }
 
+/** Image bytes held in memory at once by one `uploadImages` run */
+const MAX_BUFFERED_BYTES = 32 * 1024 * 1024;
+
 /**
- * Download and upload a batch of WeChat images to R2.
+ * Store image bytes under their key.
  *
- * Already-existing keys are skipped (head check).  Downloads use a WeChat
- * Referer to bypass hotlink protection.
+ * An existing copy (the same bytes, possibly from another URL) is left
+ * alone while more than half its TTL remains; past that it is written
+ * again with a fresh `expiresAt`, so the cleanup sweep never deletes an
+ * image a new document links to.
+ */
+async function storeImage(
+  bucket: R2Bucket,
+  key: string,
+  image: { data: ArrayBuffer; contentType: string; url: string },
+  env: Env,
+): Promise<'uploaded' | 'refreshed' | 'skipped'> {
+  const ttl = imageTtlMs(env);
+  const existing = await bucket.head(key);
+  if (existing && Date.parse(existing.customMetadata?.expiresAt ?? '') - Date.now() > ttl / 2) return 'skipped';
+
+  await bucket.put(key, image.data, {
+    httpMetadata: {
+      contentType: image.contentType,
+      cacheControl: `public, max-age=${imageCacheMaxAge(env)}`,
+    },
+    customMetadata: {
+      expiresAt: new Date(Date.now() + ttl).toISOString(),
+      originalUrl: existing?.customMetadata?.originalUrl ?? image.url,
+      extension: imageExtension(image.contentType),
+    },
+  });
+  console.log(`${existing ? 'Refreshed' : 'Uploaded to'} R2: ${key} (${image.data.byteLength} bytes)`);
+  return existing ? 'refreshed' : 'uploaded';
+}
+
+/**
+ * Download and upload a batch of images to R2.
  *
- * Designed to be called inside `ctx.waitUntil()` so it runs in the background.
+ * Each image is keyed by the hash of its bytes. Downloads follow the
+ * per-host Referer rules to get past hotlink protection.
+ *
+ * A pool of `IMAGE_UPLOAD_CONCURRENCY` workers each holds one image at a
+ * time and drops it once stored; the per-image size cap is lowered so the
+ * pool never holds more than 32 MB. Images that hash to a key already
+ * being written in this run wait for that write instead of storing the
+ * bytes again.
+ *
+ * @param pageUrl    - Source page URL, used as Referer for hosts without a rule
+ * @param onProgress - Receives an `image` event as each upload finishes
+ * @param onKey      - Called with each image's R2 URL as soon as its download is hashed, before it is stored
  */
 export async function uploadImages(
-  imageUrls: string[],
+  images: ImageRef[],
   bucket: R2Bucket,
   env: Env,
-): Promise<{ uploaded: number; skipped: number; failed: number }> {
-  const stats = { uploaded: 0, skipped: 0, failed: 0 };
-  if (imageUrls.length === 0) return stats;
-
-  const concurrency = imageUploadConcurrency(env);
-  const ttl = imageTtlMs(env);
-  const cacheMaxAge = imageCacheMaxAge(env);
-
-  // Process in batches to limit concurrency
-  for (let i = 0; i < imageUrls.length; i += concurrency) {
-    const batch = imageUrls.slice(i, i + concurrency);
-
-    const results = await Promise.allSettled(
-      batch.map(async (url) => {
-        const key = toR2Key(url, env);
-        if (!key) {
-          stats.skipped++;
-          return;
-        }
-
-        // Skip if already cached
-        if (await bucket.head(key)) {
-          stats.skipped++;
-          return;
-        }
-
-        // Download with WeChat Referer
-        const res = await robustFetch(url, {
-          referer: 'https://mp.weixin.qq.com/',
-          headers: { Accept: 'image/*,*/*;q=0.8' },
-          maxAttempts: 2,
-          timeout: 10_000,
-        });
-
-        if (!res.ok) {
-          console.log(`Image download failed (${res.status}): ${url}`);
-          stats.failed++;
-          return;
-        }
-
-        const ct = res.headers.get('content-type') ?? 'image/jpeg';
-        const data = await res.arrayBuffer();
-
-        await bucket.put(key, data, {
-          httpMetadata: {
-            contentType: ct,
-            cacheControl: `public, max-age=${cacheMaxAge}`,
-          },
-          customMetadata: {
-            expiresAt: new Date(Date.now() + ttl).toISOString(),
-            originalUrl: url,
-            extension: extFromContentType(ct),
-          },
-        });
-
-        console.log(`Uploaded to R2: ${key} (${data.byteLength} bytes)`);
-        stats.uploaded++;
-      }),
-    );
-
-    // Log any unexpected rejections
-    for (const r of results) {
-      if (r.status === 'rejected') {
-        console.log(`Upload error: ${r.reason}`);
-        stats.failed++;
+  pageUrl: string | null = null,
+  onProgress?: ProgressListener,
+  onKey?: (url: string, r2Url: string) => void,
+): Promise<UploadResult> {
+  const result: UploadResult = { uploaded: 0, refreshed: 0, skipped: 0, failed: 0, images: [] };
+
+  // The same image may be referenced in several spellings (relative, entity-encoded, …)
+  const urls = [...new Set(images.map((image) => image.url))];
+  if (urls.length === 0) return result;
+
+  const concurrency = Math.min(imageUploadConcurrency(env), urls.length);
+  const maxBytes = Math.min(fetchMaxBytes(env), Math.floor(MAX_BUFFERED_BYTES / concurrency));
+  /** Writes started in this run, by key */
+  const writes = new Map<string, Promise<ImageUploadReport['status']>>();
+
+  const mirror = async (url: string): Promise<ImageUploadReport> => {
+    try {
+      const { data, contentType } = await downloadImage(url, pageUrl, env, maxBytes);
+      const key = await toR2Key(data);
+      const r2Url = `${env.R2_PUBLIC_URL}/${key}`;
+      onKey?.(url, r2Url);
+
+      const pending = writes.get(key);
+      if (pending) {
+        await pending;
+        return { url, r2Url, status: 'skipped', size: data.byteLength };
       }
+
+      const write = storeImage(bucket, key, { data, contentType, url }, env);
+      writes.set(key, write);
+      return { url, r2Url, status: await write, size: data.byteLength };
+    } catch (err) {
+      console.log(`Upload error: ${errorMessage(err)}: ${url}`);
+      return { url, r2Url: null, status: 'failed', size: null, error: errorMessage(err) };
     }
-  }
+  };
+
+  // Reports keep the input order; progress events follow completion
+  const reports = new Array<ImageUploadReport>(urls.length);
+  let next = 0;
+  let done = 0;
+  const worker = async () => {
+    while (next < urls.length) {
+      const index = next++;
+      const report = await mirror(urls[index]);
+      reports[index] = report;
+      result[report.status]++;
+      onProgress?.({ type: 'image', done: ++done, total: urls.length, ...report });
+    }
+  };
+  await Promise.all(Array.from({ length: concurrency }, worker));
+  result.images = reports;
 
-  console.log(`R2 upload complete — uploaded: ${stats.uploaded}, skipped: ${stats.skipped}, failed: ${stats.failed}`);
-  return stats;
+  console.log(
+    `R2 upload complete — uploaded: ${result.uploaded}, refreshed: ${result.refreshed}, skipped: ${result.skipped}, failed: ${result.failed}`,
+  );
+  return result;
 }
@@ -0,0 +1,292 @@
+/**
+ * Readability-style main-content extraction
+ *
+ * For pages without a site-specific extractor, `extract=main` narrows the
+ * page down to its article body by scoring blocks on text density and link
+ * density, similar to Mozilla's Readability.
+ *
+ * Design:
+ *  - Chrome (`<script>`, `<style>`, `<nav>`, `<aside>`, forms, …) and blocks
+ *    whose class/id look like menus, footers, banners or "related" widgets
+ *    are removed first.
+ *  - Each paragraph-like element with enough text adds a score to its parent
+ *    and (halved) to its grandparent; scores are then scaled down by the
+ *    block's link density. The best block and any strong siblings are kept.
+ *  - The result is rebuilt as a small article: title, byline, lead image,
+ *    then the body. `null` is returned when no block scores well enough, so
+ *    the caller falls back to the full page.
+ */
+
+import { createElement, descendants, type ElementNode, findAll, findFirst, parseHtml, removeNode, serialize, textContent } from './dom';
+import { escapeHtml, escapeHtmlAttr, wrapHtml } from './html';
+
+/**
+ * How page content is selected before conversion:
+ *  - `auto`: site-specific extractor if one matches, otherwise the full page
+ *  - `main`: site-specific extractor if one matches, otherwise readability scoring
+ */
+export type ExtractMode = 'auto' | 'main';
+
+/** Parse the `extract` request parameter */
+export function parseExtractMode(value: string | null | undefined): ExtractMode {
+  return value === 'main' ? 'main' : 'auto';
+}
+
+/** Elements that never contain article content */
+const UNLIKELY_TAGS = new Set([
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'nav',
+  'aside',
+  'footer',
+  'form',
+  'button',
+  'input',
+  'select',
+  'textarea',
+  'iframe',
+  'svg',
+  'canvas',
+  'dialog',
+  'link',
+  'meta',
+]);
+
+/** class/id fragments that mark page chrome */
+const UNLIKELY_NAMES =
+  /banner|breadcrumb|combx|comment|community|cookie|consent|disqus|footer|gdpr|header|legends|menu|modal|newsletter|pager|pagination|popup|promo|related|remark|rss|share|shoutbox|sidebar|social|sponsor|subscribe|tags|toolbar|widget|advert|\bads?\b/i;
+
+/** class/id fragments that override `UNLIKELY_NAMES` */
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow|story|post|entry/i;
+
+/** class/id fragments that raise or lower a block's score */
+const POSITIVE_NAMES = /article|body|content|entry|hentry|h-entry|main|page|post|text|blog|story/i;
+const NEGATIVE_NAMES =
+  /hidden|^hid$|hid$|hid |^hid |banner|combx|comment|footer|footnote|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|widget/i;
+
+/** Elements whose text is scored */
+const SCORED_TAGS = new Set(['p', 'pre', 'td', 'blockquote', 'li']);
+
+/** Paragraphs shorter than this are ignored when scoring */
+const MIN_PARAGRAPH_LENGTH = 25;
+
+/** The best block must reach this score, or the page is left alone */
+const MIN_TOP_SCORE = 20;
+
+/** Collapse whitespace in text */
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/** The class and id of an element, for name-based heuristics */
+function matchString(el: ElementNode): string {
+  return `${el.attrs.class ?? ''} ${el.attrs.id ?? ''}`;
+}
+
+/** +/-25 depending on class and id hints */
+function classWeight(el: ElementNode): number {
+  let weight = 0;
+  for (const name of [el.attrs.class, el.attrs.id]) {
+    if (!name) continue;
+    if (NEGATIVE_NAMES.test(name)) weight -= 25;
+    if (POSITIVE_NAMES.test(name)) weight += 25;
+  }
+  return weight;
+}
+
+/** Initial score for a candidate block, based on its tag */
+function baseScore(el: ElementNode): number {
+  switch (el.tag) {
+    case 'article':
+    case 'main':
+      return 10;
+    case 'div':
+    case 'section':
+      return 5;
+    case 'pre':
+    case 'td':
+    case 'blockquote':
+      return 3;
+    case 'ol':
+    case 'ul':
+    case 'dl':
+    case 'form':
+      return -3;
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6':
+    case 'th':
+      return -5;
+    default:
+      return 0;
+  }
+}
+
+/** Share of an element's text that sits inside links */
+function linkDensity(el: ElementNode): number {
+  const length = normalizeText(textContent(el)).length;
+  if (length === 0) return 0;
+  const linkLength = findAll(el, (a) => a.tag === 'a').reduce((sum, a) => sum + normalizeText(textContent(a)).length, 0);
+  return linkLength / length;
+}
+
+/** Remove page chrome in place */
+function removeUnlikely(root: ElementNode): void {
+  for (const el of [...descendants(root)]) {
+    if (!el.parent) continue;
+    if (el.tag === 'body' || el.tag === 'html' || el.tag === 'article' || el.tag === 'main') continue;
+
+    const names = matchString(el);
+    const hidden = 'hidden' in el.attrs || /display:\s*none/i.test(el.attrs.style ?? '') || el.attrs['aria-hidden'] === 'true';
+    if (UNLIKELY_TAGS.has(el.tag) || hidden || (UNLIKELY_NAMES.test(names) && !MAYBE_CANDIDATE.test(names))) {
+      removeNode(el);
+    }
+  }
+}
+
+/** Score every block that contains scored text; returns the scores by element */
+function scoreBlocks(root: ElementNode): Map<ElementNode, number> {
+  const scores = new Map<ElementNode, number>();
+  const initialize = (el: ElementNode) => {
+    if (!scores.has(el)) scores.set(el, baseScore(el) + classWeight(el));
+  };
+
+  for (const el of descendants(root)) {
+    if (!SCORED_TAGS.has(el.tag)) continue;
+
+    const text = normalizeText(textContent(el));
+    if (text.length < MIN_PARAGRAPH_LENGTH) continue;
+
+    // One point base, one per comma, one per 100 characters (up to 3)
+    const score = 1 + text.split(/[,，、]/).length - 1 + Math.min(Math.floor(text.length / 100), 3);
+
+    const parent = el.parent;
+    if (!parent || parent.tag === '#root') continue;
+    initialize(parent);
+    scores.set(parent, (scores.get(parent) ?? 0) + score);
+
+    const grandparent = parent.parent;
+    if (grandparent && grandparent.tag !== '#root') {
+      initialize(grandparent);
+      scores.set(grandparent, (scores.get(grandparent) ?? 0) + score / 2);
+    }
+  }
+
+  for (const [el, score] of scores) scores.set(el, score * (1 - linkDensity(el)));
+  return scores;
+}
+
+/** Pick the best block, plus siblings that score nearly as well or are clean paragraphs */
+function collectContent(top: ElementNode, topScore: number, scores: Map<ElementNode, number>): ElementNode[] {
+  if (!top.parent) return [top];
+
+  const threshold = Math.max(10, topScore * 0.2);
+  const kept: ElementNode[] = [];
+
+  for (const sibling of top.parent.children) {
+    if (sibling.type !== 'element') continue;
+    if (sibling === top) {
+      kept.push(sibling);
+      continue;
+    }
+
+    const score = scores.get(sibling) ?? 0;
+    if (score >= threshold) {
+      kept.push(sibling);
+    } else if (sibling.tag === 'p') {
+      const text = normalizeText(textContent(sibling));
+      const density = linkDensity(sibling);
+      if ((text.length > 80 && density < 0.25) || (text.length > 0 && density === 0 && /\.( |$)/.test(text))) kept.push(sibling);
+    }
+  }
+
+  return kept;
+}
+
+// ---------------------------------------------------------------------------
+// Metadata
+// ---------------------------------------------------------------------------
+
+/** Read a `<meta>` value by `name` or `property` */
+function metaContent(root: ElementNode, ...keys: string[]): string | null {
+  for (const key of keys) {
+    const meta = findFirst(root, (el) => el.tag === 'meta' && (el.attrs.name === key || el.attrs.property === key));
+    const value = meta?.attrs.content?.trim();
+    if (value) return value;
+  }
+  return null;
+}
+
+/** Article title from Open Graph, `<title>`, or the first `<h1>` */
+function findTitle(root: ElementNode): string | null {
+  const meta = metaContent(root, 'og:title', 'twitter:title');
+  if (meta) return meta;
+  const title = findFirst(root, (el) => el.tag === 'title') ?? findFirst(root, (el) => el.tag === 'h1');
+  return title ? normalizeText(textContent(title)) || null : null;
+}
+
+/** Author byline from metadata or a byline/author element */
+function findByline(root: ElementNode): string | null {
+  const meta = metaContent(root, 'author', 'article:author', 'twitter:creator');
+  if (meta && !/^https?:/i.test(meta)) return meta;
+
+  const el = findFirst(root, (node) => node.attrs.rel === 'author' || /byline|author/i.test(matchString(node)));
+  const text = el ? normalizeText(textContent(el)) : '';
+  return text && text.length < 100 ? text : null;
+}
+
+/** Lead image from Open Graph / Twitter card metadata */
+function findLeadImage(root: ElementNode): string | null {
+  return metaContent(root, 'og:image', 'og:image:url', 'twitter:image');
+}
+
+// ---------------------------------------------------------------------------
+// Extraction
+// ---------------------------------------------------------------------------
+
+/**
+ * Extract the main article from a page.
+ *
+ * @param html - Raw page HTML
+ * @returns A compact article document, or `null` when no main content was found
+ */
+export function extractMainContent(html: string): string | null {
+  const root = parseHtml(html);
+
+  // Metadata is read before chrome is removed (bylines often sit in headers)
+  const title = findTitle(root);
+  const byline = findByline(root);
+  const leadImage = findLeadImage(root);
+
+  const body = findFirst(root, (el) => el.tag === 'body') ?? root;
+  removeUnlikely(body);
+
+  const scores = scoreBlocks(body);
+  let top: ElementNode | null = null;
+  let topScore = 0;
+  for (const [el, score] of scores) {
+    if (score > topScore) {
+      top = el;
+      topScore = score;
+    }
+  }
+  if (!top || topScore < MIN_TOP_SCORE) return null;
+
+  const content = createElement('div');
+  for (const el of collectContent(top, topScore, scores)) content.children.push(el);
+  const bodyHtml = content.children.map(serialize).join('\n');
+
+  // Skip parts of the header already present in the body
+  const bodyText = normalizeText(textContent(content));
+  const header: string[] = [];
+  if (title && !bodyText.startsWith(title)) header.push(`<h1>${escapeHtml(title)}</h1>`);
+  if (byline && !bodyText.includes(byline)) header.push(`<p class="byline">${escapeHtml(byline)}</p>`);
+  if (leadImage && !bodyHtml.includes(leadImage)) header.push(`<p><img src="${escapeHtmlAttr(leadImage)}" alt=""></p>`);
+
+  return wrapHtml([...header, bodyHtml].join('\n'));
+}
@@ -0,0 +1,162 @@
+/**
+ * Browser rendering
+ *
+ * `render=true` loads a page in a headless browser instead of fetching it,
+ * so pages built by JavaScript (SPAs, client-rendered docs sites) reach the
+ * converter with their content rather than an empty shell.
+ *
+ * Design:
+ *  - Backend: a `Renderer`, by default Browser Rendering through
+ *    `@cloudflare/puppeteer` (the `BROWSER` binding). Renderers are looked
+ *    up in `renderers` at call time, so tests can swap in a local stub.
+ *  - Waiting: until the network is idle, or until a caller-given CSS
+ *    selector appears (`waitFor`), within `RENDER_TIMEOUT_MS`.
+ *  - Output: the serialised DOM, which `pipeline.ts` loads like fetched
+ *    HTML (titles, metadata, extractors and preprocessing apply unchanged).
+ *  - Policy: the URL policy applies to the page and to every request it
+ *    makes (navigations, scripts, XHR/fetch, …); rejected requests are
+ *    aborted, and a rejected navigation fails the render. Images, media
+ *    and fonts are not downloaded. Caller headers are only sent to the
+ *    page's own origin.
+ *  - Fallback: without `render`, fetched pages detected as SPA shells are
+ *    rendered too when the binding exists (`render=false` turns this off).
+ */
+
+import puppeteer, { TimeoutError } from '@cloudflare/puppeteer';
+import { fetchMaxBytes, renderTimeout } from './config';
+import { HttpError } from './errors';
+import { assertUrlAllowed, PolicyError } from './policy';
+
+/** Options for rendering one page */
+export interface RenderOptions {
+  /** CSS selector to wait for instead of network idle */
+  waitFor?: string | null;
+  /** Time budget for navigation and waiting, in ms */
+  timeout: number;
+  /** Called with every requested URL; throw to reject it */
+  checkUrl: (url: string) => void;
+  /** Extra headers for requests to the page's own origin (caller cookies, `User-Agent`, …) */
+  headers?: Record<string, string>;
+}
+
+/** A page rendered by a browser */
+export interface RenderedPage {
+  /** HTTP status of the main document */
+  status: number;
+  /** Serialised DOM */
+  html: string;
+}
+
+/** Loads a page in a browser */
+export interface Renderer {
+  render(env: Env, url: string, opts: RenderOptions): Promise<RenderedPage>;
+}
+
+/** Subresources not downloaded while rendering: they don't change the DOM */
+const SKIPPED_RESOURCES = new Set(['image', 'media', 'font']);
+
+/** Browser Rendering through `@cloudflare/puppeteer` */
+const browserRenderer: Renderer = {
+  async render(env, url, opts) {
+    if (!env.BROWSER) {
+      throw new HttpError('Browser rendering is not enabled: a BROWSER binding is required.', 501, 'render_disabled');
+    }
+
+    const deadline = Date.now() + opts.timeout;
+    const origin = new URL(url).origin;
+    const extraHeaders =
+      opts.headers && Object.fromEntries(Object.entries(opts.headers).map(([name, value]) => [name.toLowerCase(), value]));
+    const browser = await puppeteer.launch(env.BROWSER);
+    try {
+      const page = await browser.newPage();
+      let rejected: unknown = null;
+
+      await page.setRequestInterception(true);
+      page.on('request', (request) => {
+        if (SKIPPED_RESOURCES.has(request.resourceType())) {
+          void request.abort();
+          return;
+        }
+        try {
+          opts.checkUrl(request.url());
+        } catch (err) {
+          // A blocked subresource only goes missing; a blocked navigation fails the render
+          if (request.isNavigationRequest()) rejected = err;
+          void request.abort('blockedbyclient');
+          return;
+        }
+        if (extraHeaders && new URL(request.url()).origin === origin) {
+          void request.continue({ headers: { ...request.headers(), ...extraHeaders } });
+          return;
+        }
+        void request.continue();
+      });
+
+      let response: Awaited<ReturnType<typeof page.goto>>;
+      try {
+        response = await page.goto(url, { waitUntil: opts.waitFor ? 'domcontentloaded' : 'networkidle0', timeout: opts.timeout });
+        if (opts.waitFor) await page.waitForSelector(opts.waitFor, { timeout: Math.max(deadline - Date.now(), 1) });
+      } catch (err) {
+        throw rejected ?? err;
+      }
+
+      return { status: response?.status() ?? 200, html: await page.content() };
+    } finally {
+      await browser.close();
+    }
+  },
+};
+
+/**
+ * Parse the `render` request parameter.
+ *
+ * @returns `true` (always render), `false` (never, not even SPA shells) or `undefined` (render SPA shells when possible)
+ */
+export function parseRenderParam(value: unknown): boolean | undefined {
+  if (value === true || value === 'true') return true;
+  if (value === false || value === 'false') return false;
+  return undefined;
+}
+
+/** Registered renderers */
+export const renderers: { browser: Renderer } = {
+  browser: browserRenderer,
+};
+
+/**
+ * Render a page with the configured renderer.
+ *
+ * @param waitFor - CSS selector to wait for (default: network idle)
+ * @param headers - Extra headers for requests to the page's origin
+ * @throws {PolicyError} 403 when the URL or a navigation is not allowed, 413 when the DOM is too large
+ * @throws {HttpError} 502 when the page responds with an error status, 504 when rendering times out
+ */
+export async function renderPage(
+  url: string,
+  env: Env,
+  waitFor: string | null = null,
+  headers?: Record<string, string>,
+): Promise<RenderedPage> {
+  assertUrlAllowed(url, env);
+
+  const timeout = renderTimeout(env);
+  let page: RenderedPage;
+  try {
+    page = await renderers.browser.render(env, url, { waitFor, timeout, checkUrl: (next) => assertUrlAllowed(next, env), headers });
+  } catch (err) {
+    if (err instanceof TimeoutError) {
+      const target = waitFor ? `waiting for "${waitFor}"` : 'waiting for the page to load';
+      throw new HttpError(`Rendering timed out after ${timeout}ms ${target}.`, 504, 'render_timeout');
+    }
+    throw err;
+  }
+
+  if (page.status >= 400) {
+    throw new HttpError(`Failed to render URL: ${page.status}`, 502);
+  }
+  const maxBytes = fetchMaxBytes(env);
+  if (new TextEncoder().encode(page.html).byteLength > maxBytes) {
+    throw new PolicyError(`Response exceeds the maximum size of ${maxBytes} bytes.`, 'response_too_large', 413);
+  }
+  return page;
+}
@@ -0,0 +1,125 @@
+/**
+ * robots.txt support
+ *
+ * Parses `robots.txt` (RFC 9309) so crawls can skip paths a site asks
+ * crawlers to avoid, and exposes its `Sitemap` lines.
+ *
+ * Design:
+ *  - Groups: rules of the groups naming our product token (`anything-md`)
+ *    apply; without one, the `*` groups do. Matching groups are merged.
+ *    Crawls announce the token in their `User-Agent` (`CRAWLER_USER_AGENT`).
+ *  - Rules: the longest matching `Allow` / `Disallow` path wins, `Allow` on
+ *    a tie; `*` matches any characters and a trailing `$` anchors the end.
+ *  - Availability: a missing file (4xx) allows everything; an unreachable
+ *    one (5xx, network error) disallows everything, as the RFC requires.
+ */
+
+import { errorMessage } from './errors';
+import { robustFetch } from './fetch';
+import { documentFetchOptions } from './pipeline';
+
+/** Product token matched against `User-agent` lines */
+export const ROBOTS_AGENT = 'anything-md';
+
+/** `User-Agent` sent by crawls, so sites see the token their robots.txt rules name */
+export const CRAWLER_USER_AGENT = `Mozilla/5.0 (compatible; ${ROBOTS_AGENT}/1.0)`;
+
+/** Characters of robots.txt parsed (RFC 9309 requires at least 500 KiB) */
+const MAX_ROBOTS_LENGTH = 500 * 1024;
+
+/** Parsed robots.txt */
+export interface RobotsRules {
+  /** Whether a path (with its query string) may be crawled */
+  isAllowed(path: string): boolean;
+  /** Sitemap URLs listed in the file */
+  sitemaps: string[];
+}
+
+interface Rule {
+  allow: boolean;
+  pattern: string;
+}
+
+/**
+ * Whether a path matches a robots.txt-style pattern.
+ *
+ * Patterns match from the start of the path: `*` matches any run of
+ * characters and a trailing `$` requires the path to end there.
+ */
+export function matchesPathPattern(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const source = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}${anchored ? '$' : ''}`).test(path);
+}
+
+/** Robots rules that allow everything or nothing */
+function uniform(allow: boolean): RobotsRules {
+  return { isAllowed: () => allow, sitemaps: [] };
+}
+
+/** Parse a robots.txt file for `agent` */
+export function parseRobots(text: string, agent = ROBOTS_AGENT): RobotsRules {
+  const groups: { agents: string[]; rules: Rule[] }[] = [];
+  const sitemaps: string[] = [];
+  let current: { agents: string[]; rules: Rule[] } | null = null;
+
+  for (const raw of text.split(/\r?\n|\r/)) {
+    const line = raw.replace(/#.*/, '').trim();
+    const match = line.match(/^([\w-]+)\s*:\s*(.*)$/);
+    if (!match) continue;
+
+    const field = match[1].toLowerCase();
+    const value = match[2].trim();
+
+    if (field === 'sitemap') {
+      if (value) sitemaps.push(value);
+    } else if (field === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || current.rules.length > 0) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+    } else if ((field === 'allow' || field === 'disallow') && current && value) {
+      current.rules.push({ allow: field === 'allow', pattern: value });
+    }
+  }
+
+  const token = agent.toLowerCase();
+  const own = groups.filter((group) => group.agents.includes(token));
+  const rules = (own.length > 0 ? own : groups.filter((group) => group.agents.includes('*'))).flatMap((group) => group.rules);
+
+  return {
+    sitemaps,
+    isAllowed(path) {
+      if (path === '/robots.txt') return true;
+      let best: Rule | null = null;
+      for (const rule of rules) {
+        if (!matchesPathPattern(rule.pattern, path)) continue;
+        const longer = !best || rule.pattern.length > best.pattern.length;
+        const tieAllow = best && rule.pattern.length === best.pattern.length && rule.allow;
+        if (longer || tieAllow) best = rule;
+      }
+      return best?.allow ?? true;
+    },
+  };
+}
+
+/** Fetch and parse the robots.txt of an origin (e.g. `https://example.com`) */
+export async function fetchRobots(origin: string, env: Env): Promise<RobotsRules> {
+  try {
+    const response = await robustFetch(
+      `${origin}/robots.txt`,
+      documentFetchOptions(env, { headers: { 'User-Agent': CRAWLER_USER_AGENT } }),
+    );
+    if (response.ok) return parseRobots((await response.text()).slice(0, MAX_ROBOTS_LENGTH));
+    await response.body?.cancel();
+    return uniform(response.status < 500);
+  } catch (err) {
+    console.log(`robots.txt unreachable for ${origin}, disallowing all: ${errorMessage(err)}`);
+    return uniform(false);
+  }
+}
@@ -0,0 +1,299 @@
+/**
+ * Content sniffing
+ *
+ * Identifies file types from their leading bytes ("magic numbers") instead
+ * of trusting URLs or upstream headers, which are often wrong or generic.
+ *
+ * Documents are typed by reconciling what we know, most reliable first:
+ *  1. A binary signature: `%PDF`, a ZIP container with an OOXML / ODF /
+ *     Numbers manifest, an OLE compound file, or an image signature
+ *  2. The declared MIME type, unless it is generic (`application/octet-stream`,
+ *     `text/plain`, …); HTML bytes declared as a binary format are HTML
+ *  3. The filename extension
+ *  4. Text heuristics for HTML and XML
+ */
+
+/** Check whether `bytes` starts with `signature` at `offset` */
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+  if (bytes.length < offset + signature.length) return false;
+  return signature.every((byte, i) => bytes[offset + i] === byte);
+}
+
+/** ASCII codes of a string, for readable signatures */
+function ascii(text: string): number[] {
+  return [...text].map((c) => c.charCodeAt(0));
+}
+
+// ---------------------------------------------------------------------------
+// Types and extensions
+// ---------------------------------------------------------------------------
+
+/** File extensions of the formats `toMarkdown` supports, with their MIME types */
+const EXT_TO_MIME: Record<string, string> = {
+  pdf: 'application/pdf',
+  jpeg: 'image/jpeg',
+  jpg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  html: 'text/html',
+  htm: 'text/html',
+  xml: 'application/xml',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  xlsm: 'application/vnd.ms-excel.sheet.macroenabled.12',
+  xlsb: 'application/vnd.ms-excel.sheet.binary.macroenabled.12',
+  xls: 'application/vnd.ms-excel',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  ods: 'application/vnd.oasis.opendocument.spreadsheet',
+  odt: 'application/vnd.oasis.opendocument.text',
+  csv: 'text/csv',
+  numbers: 'application/vnd.apple.numbers',
+};
+
+/** Reverse of `EXT_TO_MIME`, used to name files (first extension wins) */
+const MIME_TO_EXT: Record<string, string> = Object.fromEntries(
+  Object.entries(EXT_TO_MIME)
+    .reverse()
+    .map(([ext, mime]) => [mime, ext]),
+);
+
+/** Alternative names for supported MIME types */
+const MIME_ALIASES: Record<string, string> = {
+  'application/x-pdf': 'application/pdf',
+  'image/jpg': 'image/jpeg',
+  'image/pjpeg': 'image/jpeg',
+  'application/xhtml+xml': 'text/html',
+  'text/xml': 'application/xml',
+  'application/rss+xml': 'application/xml',
+  'application/atom+xml': 'application/xml',
+  'application/rdf+xml': 'application/xml',
+  'text/comma-separated-values': 'text/csv',
+  'application/csv': 'text/csv',
+};
+
+/** Declared types that say nothing about the content */
+const GENERIC_TYPES = new Set([
+  '',
+  'application/octet-stream',
+  'binary/octet-stream',
+  'application/binary',
+  'application/unknown',
+  'application/download',
+  'application/x-download',
+  'application/force-download',
+  'text/plain',
+]);
+
+/** Strip parameters (`; charset=…`) from a Content-Type value */
+export function baseMimeType(contentType: string): string {
+  return contentType.split(';')[0].trim().toLowerCase();
+}
+
+/** Canonical base MIME type (aliases resolved, parameters dropped) */
+function canonicalMimeType(contentType: string): string {
+  const base = baseMimeType(contentType);
+  return MIME_ALIASES[base] ?? base;
+}
+
+/** Guess a MIME type from a filename extension */
+export function mimeFromFileName(fileName: string): string | null {
+  const ext = fileName.split('.').pop()?.toLowerCase();
+  return (ext && EXT_TO_MIME[ext]) || null;
+}
+
+/** Whether `toMarkdown` can convert a MIME type */
+export function isSupportedType(contentType: string): boolean {
+  return canonicalMimeType(contentType) in MIME_TO_EXT;
+}
+
+/**
+ * Give a filename the extension of its MIME type.
+ *
+ * Keeps names whose extension already maps to the type; otherwise replaces
+ * a short alphabetic extension (`download.php` → `download.pdf`) or appends one.
+ */
+export function withExtension(fileName: string, contentType: string): string {
+  const mime = canonicalMimeType(contentType);
+  const ext = MIME_TO_EXT[mime];
+  if (!ext || mimeFromFileName(fileName) === mime) return fileName;
+
+  const stem = fileName.replace(/\.[a-z]{1,5}$/i, '');
+  return `${stem || 'content'}.${ext}`;
+}
+
+/**
+ * Sniff an image MIME type from its bytes.
+ *
+ * Recognises PNG, JPEG, GIF, WebP, AVIF/HEIC, BMP, ICO, TIFF and SVG.
+ *
+ * @returns The MIME type, or `null` when the bytes are not a known image format
+ */
+export function sniffImageType(data: ArrayBuffer | Uint8Array): string | null {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(bytes, ascii('GIF87a')) || startsWith(bytes, ascii('GIF89a'))) return 'image/gif';
+  if (startsWith(bytes, ascii('RIFF')) && startsWith(bytes, ascii('WEBP'), 8)) return 'image/webp';
+  if (startsWith(bytes, ascii('ftyp'), 4)) {
+    const brand = String.fromCharCode(...bytes.subarray(8, 12));
+    if (brand === 'avif' || brand === 'avis') return 'image/avif';
+    if (brand === 'heic' || brand === 'heix' || brand === 'mif1') return 'image/heic';
+  }
+  if (startsWith(bytes, ascii('BM'))) return 'image/bmp';
+  if (startsWith(bytes, [0x00, 0x00, 0x01, 0x00])) return 'image/x-icon';
+  if (startsWith(bytes, [0x49, 0x49, 0x2a, 0x00]) || startsWith(bytes, [0x4d, 0x4d, 0x00, 0x2a])) return 'image/tiff';
+
+  // SVG is text: look for an <svg> root near the start (after any XML prolog / comments)
+  const head = new TextDecoder().decode(bytes.subarray(0, 1024)).trimStart();
+  if (/^(?:<\?xml[^>]*>\s*)?(?:<!--[\s\S]*?-->\s*|<!DOCTYPE[^>]*>\s*)*<svg[\s>]/i.test(head)) return 'image/svg+xml';
+
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Documents
+// ---------------------------------------------------------------------------
+
+/** Read a little-endian unsigned integer */
+function readUint(bytes: Uint8Array, offset: number, size: 2 | 4): number {
+  let value = 0;
+  for (let i = size - 1; i >= 0; i--) value = value * 256 + (bytes[offset + i] ?? 0);
+  return value;
+}
+
+/** Decode an ASCII / UTF-8 byte range */
+function text(bytes: Uint8Array, start: number, end: number): string {
+  return new TextDecoder().decode(bytes.subarray(start, end));
+}
+
+/** Entry names from a ZIP central directory (empty when it cannot be read) */
+function zipEntryNames(bytes: Uint8Array): string[] {
+  // The end-of-central-directory record is in the last 22 bytes plus an optional comment (max 64 KiB)
+  const floor = Math.max(0, bytes.length - 22 - 0xffff);
+  for (let eocd = bytes.length - 22; eocd >= floor; eocd--) {
+    if (!startsWith(bytes, [0x50, 0x4b, 0x05, 0x06], eocd)) continue;
+
+    const names: string[] = [];
+    const count = readUint(bytes, eocd + 10, 2);
+    let offset = readUint(bytes, eocd + 16, 4);
+    for (let n = 0; n < count && startsWith(bytes, [0x50, 0x4b, 0x01, 0x02], offset); n++) {
+      const nameLength = readUint(bytes, offset + 28, 2);
+      names.push(text(bytes, offset + 46, offset + 46 + nameLength));
+      offset += 46 + nameLength + readUint(bytes, offset + 30, 2) + readUint(bytes, offset + 32, 2);
+    }
+    return names;
+  }
+  return [];
+}
+
+/** Identify a ZIP-based document: ODF (stored `mimetype` entry), OOXML or Apple Numbers */
+function sniffZip(bytes: Uint8Array): string {
+  // ODF requires an uncompressed `mimetype` entry first, so its content sits right after the local header
+  const nameLength = readUint(bytes, 26, 2);
+  if (text(bytes, 30, 30 + nameLength) === 'mimetype' && readUint(bytes, 8, 2) === 0) {
+    const start = 30 + nameLength + readUint(bytes, 28, 2);
+    const mime = text(bytes, start, start + readUint(bytes, 18, 4)).trim();
+    if (mime.startsWith('application/vnd.oasis.opendocument.')) return mime;
+  }
+
+  const names = zipEntryNames(bytes);
+  if (names.includes('[Content_Types].xml')) {
+    if (names.some((name) => name.startsWith('word/'))) return EXT_TO_MIME.docx;
+    if (names.includes('xl/workbook.bin')) return EXT_TO_MIME.xlsb;
+    if (names.includes('xl/vbaProject.bin')) return EXT_TO_MIME.xlsm;
+    if (names.some((name) => name.startsWith('xl/'))) return EXT_TO_MIME.xlsx;
+    if (names.some((name) => name.startsWith('ppt/'))) return 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+  }
+  if (names.some((name) => name.startsWith('Index/') && name.endsWith('.iwa'))) return EXT_TO_MIME.numbers;
+  return 'application/zip';
+}
+
+/** Whether `bytes` contains `name` encoded as UTF-16LE (OLE directory entry names) */
+function includesUtf16(bytes: Uint8Array, name: string): boolean {
+  const pattern = [...name].flatMap((c) => [c.charCodeAt(0), 0]);
+  for (let i = bytes.indexOf(pattern[0]); i !== -1; i = bytes.indexOf(pattern[0], i + 1)) {
+    if (startsWith(bytes, pattern, i)) return true;
+  }
+  return false;
+}
+
+/** Identify an OLE compound file (legacy Office) by its main stream */
+function sniffOle(bytes: Uint8Array): string {
+  if (includesUtf16(bytes, 'Workbook') || includesUtf16(bytes, 'Book')) return EXT_TO_MIME.xls;
+  if (includesUtf16(bytes, 'WordDocument')) return 'application/msword';
+  return 'application/x-ole-storage';
+}
+
+/**
+ * Sniff a document type from a binary signature.
+ *
+ * @returns The MIME type, or `null` when the bytes have no known signature (e.g. text)
+ */
+export function sniffBinaryType(data: ArrayBuffer | Uint8Array): string | null {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+
+  if (startsWith(bytes, ascii('%PDF-'))) return 'application/pdf';
+  if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04])) return sniffZip(bytes);
+  if (startsWith(bytes, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) return sniffOle(bytes);
+  return sniffImageType(bytes);
+}
+
+/**
+ * Sniff HTML or XML from the start of a text document.
+ *
+ * @returns `text/html`, `application/xml`, or `null`
+ */
+export function sniffTextType(data: ArrayBuffer | Uint8Array): string | null {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const head = new TextDecoder()
+    .decode(bytes.subarray(0, 1024))
+    .replace(/^(?:\s*<!--[\s\S]*?-->)*\s*/, '')
+    .toLowerCase();
+
+  if (/^<!doctype\s+html|^<(?:html|head|body)[\s>]/.test(head)) return 'text/html';
+  if (head.startsWith('<?xml')) return /<(?:!doctype\s+)?html[\s>]/.test(head) ? 'text/html' : 'application/xml';
+  // Feeds and sitemaps served without an XML declaration
+  if (/^<(?:rss|feed|urlset|sitemapindex|rdf:rdf)[\s>]/.test(head)) return 'application/xml';
+  // Fragments: markup that starts with a common HTML element
+  if (/^<(?:meta|title|link|script|style|div|p|h[1-6]|table|ul|article|section|main)[\s>/]/.test(head)) return 'text/html';
+  return null;
+}
+
+/**
+ * Reconcile the MIME type of a document from its bytes, declared type and filename.
+ *
+ * @param declared - Declared `Content-Type` (response header, upload field, or request parameter)
+ * @returns The canonical base MIME type (without parameters)
+ */
+export function resolveDocumentType(data: ArrayBuffer | Uint8Array, declared: string | null | undefined, fileName: string | null): string {
+  const binary = sniffBinaryType(data);
+  if (binary) return binary;
+
+  const textType = sniffTextType(data);
+  const type = canonicalMimeType(declared ?? '');
+  if (!GENERIC_TYPES.has(type)) {
+    // An HTML error page served under a binary type (e.g. a PDF link behind a login wall)
+    const textual = type.startsWith('text/') || type.endsWith('xml');
+    return textType === 'text/html' && !textual ? textType : type;
+  }
+
+  return (fileName && mimeFromFileName(fileName)) || textType || type || 'application/octet-stream';
+}
+
+/** File extension for a sniffed image MIME type */
+export function imageExtension(mimeType: string): string {
+  const ext: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/gif': 'gif',
+    'image/webp': 'webp',
+    'image/avif': 'avif',
+    'image/heic': 'heic',
+    'image/bmp': 'bmp',
+    'image/x-icon': 'ico',
+    'image/tiff': 'tif',
+    'image/svg+xml': 'svg',
+  };
+  return ext[mimeType] ?? 'bin';
+}
@@ -0,0 +1,130 @@
+/**
+ * Streaming progress
+ *
+ * `stream=true` turns a conversion into a stream of stage events, so
+ * clients of slow conversions (large PDFs, image-heavy pages) see progress
+ * instead of a silent connection.
+ *
+ * Design:
+ *  - Server-Sent Events for `stream=sse` or when the client accepts
+ *    `text/event-stream`, NDJSON otherwise
+ *  - The conversion runs after the 200 headers are sent: its final response
+ *    becomes a terminal `result` event, or an `error` event carrying the
+ *    status it would have had
+ *  - Background work (`ctx.waitUntil`, e.g. proxied image uploads) is awaited
+ *    before the terminal event, so its progress is reported too
+ */
+
+import { getCorsHeaders } from './cors';
+import { errorMessage } from './errors';
+
+export type StreamMode = 'sse' | 'ndjson';
+
+/** A stage event reported while a conversion runs */
+export type ProgressEvent =
+  | { type: 'fetch'; stage: 'start'; url: string }
+  | { type: 'fetch'; stage: 'done'; url: string; status: number; size: number; contentType: string }
+  | { type: 'cache'; hit: boolean }
+  | { type: 'extract'; name: string; extractor: string | null }
+  | { type: 'convert'; stage: 'start'; documents: number }
+  | { type: 'convert'; stage: 'done'; tokens: number }
+  | {
+      type: 'image';
+      done: number;
+      total: number;
+      url: string;
+      status: 'uploaded' | 'refreshed' | 'skipped' | 'failed';
+      size: number | null;
+      error?: string;
+    };
+
+/** Receives progress events; must not throw */
+export type ProgressListener = (event: ProgressEvent) => void;
+
+/** Terminal events, sent once at the end of the stream */
+type TerminalEvent = { type: 'result'; [key: string]: unknown } | { type: 'error'; status: number; error: string; code?: string };
+
+/**
+ * Parse the `stream` request parameter.
+ *
+ * @returns The stream encoding, or `null` for a normal response
+ */
+export function parseStreamMode(value: string | boolean | null | undefined, accept: string | null = null): StreamMode | null {
+  if (value === 'sse' || value === 'ndjson') return value;
+  if (value !== true && value !== 'true') return null;
+  return accept?.includes('text/event-stream') ? 'sse' : 'ndjson';
+}
+
+/** Encode one event in the stream format */
+function encodeEvent(event: ProgressEvent | TerminalEvent, mode: StreamMode): string {
+  const data = JSON.stringify(event);
+  return mode === 'sse' ? `event: ${event.type}\ndata: ${data}\n\n` : `${data}\n`;
+}
+
+/**
+ * Run a conversion as an event stream.
+ *
+ * `run` receives a progress listener and an execution context whose
+ * `waitUntil` work is tracked; the JSON response it resolves to is sent as
+ * the terminal event.
+ *
+ * @returns The streaming response, plus a promise that settles when the stream ends
+ */
+export function streamResponse(
+  env: Env,
+  ctx: ExecutionContext,
+  mode: StreamMode,
+  run: (emit: ProgressListener, ctx: ExecutionContext) => Promise<Response>,
+): { response: Response; done: Promise<void> } {
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = writable.getWriter();
+  const encoder = new TextEncoder();
+
+  // Writes are queued in order; a disconnected client only makes them fail
+  const write = (event: ProgressEvent | TerminalEvent) => {
+    writer.write(encoder.encode(encodeEvent(event, mode))).catch(() => {});
+  };
+
+  const pending: Promise<unknown>[] = [];
+  const tracked: ExecutionContext = {
+    waitUntil: (promise) => {
+      pending.push(promise);
+      ctx.waitUntil(promise);
+    },
+    passThroughOnException: () => ctx.passThroughOnException(),
+    get exports() {
+      return ctx.exports;
+    },
+    get props() {
+      return ctx.props;
+    },
+  };
+
+  const done = (async () => {
+    try {
+      const response = await run(write, tracked);
+      await Promise.allSettled(pending);
+
+      const body = (await response.json()) as Record<string, unknown>;
+      if (response.ok) {
+        write({ type: 'result', ...body });
+      } else {
+        write({ type: 'error', status: response.status, error: String(body.error), code: body.code as string | undefined });
+      }
+    } catch (err) {
+      write({ type: 'error', status: 500, error: `Internal error: ${errorMessage(err)}` });
+    } finally {
+      await writer.close().catch(() => {});
+    }
+  })();
+  ctx.waitUntil(done);
+
+  const response = new Response(readable, {
+    headers: {
+      'Content-Type': mode === 'sse' ? 'text/event-stream; charset=utf-8' : 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache',
+      ...getCorsHeaders(env),
+    },
+  });
+  return { response, done };
+}
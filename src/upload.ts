@@ -0,0 +1,145 @@
+/**
+ * Binary upload handling
+ *
+ * Reads documents sent as `multipart/form-data`, as a raw request body with
+ * a real `Content-Type` (e.g. `application/pdf`), or as base64 in a JSON
+ * body. Each file keeps its own name and MIME type so `toMarkdown` can pick
+ * the right converter for binary formats (PDF, DOCX, XLSX, images, …); the
+ * type is reconciled with the file's bytes and extension in `sniff.ts`.
+ */
+
+import { HttpError } from './errors';
+import { type HtmlOptions, loadFromBytes, type SourceDocument } from './pipeline';
+import { parseExtractMode } from './readability';
+import { baseMimeType } from './sniff';
+
+/** Content types that carry request parameters rather than a document */
+const PARAMETER_TYPES = ['application/json', 'application/x-www-form-urlencoded', 'text/plain'];
+
+/** Whether the request body is a document to convert (multipart or raw) rather than parameters (JSON or form fields) */
+export function isUploadRequest(request: Request): boolean {
+  const contentType = request.headers.get('content-type');
+  if (!contentType) return false;
+  return !PARAMETER_TYPES.some((type) => baseMimeType(contentType) === type);
+}
+
+/** Base64-encode bytes (chunked to stay within argument limits) */
+export function encodeBase64(data: ArrayBuffer): string {
+  const bytes = new Uint8Array(data);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Read the parameters of a `POST /` body that is not an upload.
+ *
+ * Form fields (`application/x-www-form-urlencoded`) are returned as
+ * strings. Anything else is parsed as JSON, as are form bodies that start
+ * with `{`: `fetch` sends strings as `text/plain` and `curl -d` sends them
+ * as a form unless told otherwise.
+ *
+ * @throws {HttpError} 400 when a JSON body is not a JSON object
+ */
+export async function readParameters(request: Request): Promise<Record<string, unknown>> {
+  const contentType = baseMimeType(request.headers.get('content-type') ?? '');
+  const text = await request.text();
+  if (contentType === 'application/x-www-form-urlencoded' && !text.trimStart().startsWith('{')) {
+    return Object.fromEntries(new URLSearchParams(text));
+  }
+
+  let body: unknown = null;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    // Reported below
+  }
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    const hint =
+      contentType === 'text/plain' ? ' text/plain bodies are read as JSON parameters; send text to convert as { "content": "..." }.' : '';
+    throw new HttpError(`Invalid JSON body.${hint} Expected: { "url": "https://..." } or { "content": "..." }`);
+  }
+  return body as Record<string, unknown>;
+}
+
+/**
+ * Decode base64 content into bytes.
+ *
+ * @throws {HttpError} 400 when the input is not valid base64
+ */
+export function decodeBase64(content: string): ArrayBuffer {
+  try {
+    const binary = atob(content.replace(/^data:[^,]*,/, '').replace(/\s+/g, ''));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes.buffer;
+  } catch {
+    throw new HttpError('Invalid base64 content.');
+  }
+}
+
+/**
+ * Build a source document from base64 content supplied in a JSON body.
+ *
+ * @param content     - Base64-encoded bytes (a `data:` URI prefix is accepted)
+ * @param contentType - Declared MIME type; reconciled with the bytes and `fileName`
+ * @param fileName    - Explicit filename
+ */
+export function loadFromBase64(
+  content: string,
+  contentType?: string | null,
+  fileName?: string | null,
+  opts: HtmlOptions = {},
+): SourceDocument {
+  return loadFromBytes(decodeBase64(content), contentType ?? '', { ...opts, fileName, fallbackName: 'content' });
+}
+
+/**
+ * Read all documents from an upload request.
+ *
+ * - `multipart/form-data`: every `File` field becomes a document; string
+ *   fields are returned as parameters (e.g. `format`, `extract`).
+ * - Any other body: the whole body is one document, typed by the request
+ *   `Content-Type`; the filename comes from the `fileName` query parameter.
+ *
+ * @throws {HttpError} 400 when the body contains no files
+ */
+export async function readUploads(request: Request): Promise<{ docs: SourceDocument[]; params: Record<string, string> }> {
+  const params: Record<string, string> = Object.fromEntries(new URL(request.url).searchParams);
+  const contentType = request.headers.get('content-type') ?? '';
+
+  if (baseMimeType(contentType) !== 'multipart/form-data') {
+    const body = await request.arrayBuffer();
+    if (body.byteLength === 0) throw new HttpError('Empty request body.');
+
+    const fileName = params.fileName || null;
+    const extract = parseExtractMode(params.extract);
+    return { docs: [loadFromBytes(body, contentType, { fileName, fallbackName: 'content', extract })], params };
+  }
+
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    throw new HttpError('Invalid multipart/form-data body.');
+  }
+
+  // Collect parameters first so they apply regardless of field order
+  const files: File[] = [];
+  for (const [key, value] of form) {
+    if (typeof value === 'string') params[key] = value;
+    else files.push(value);
+  }
+
+  if (files.length === 0) throw new HttpError('No files found in multipart/form-data body.');
+
+  const extract = parseExtractMode(params.extract);
+  const docs: SourceDocument[] = [];
+  for (const file of files) {
+    docs.push(loadFromBytes(await file.arrayBuffer(), file.type, { fileName: file.name || null, fallbackName: 'content', extract }));
+  }
+
+  return { docs, params };
+}
@@ -0,0 +1,101 @@
+import { createExecutionContext, env, runInDurableObject } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+import { authenticate, extractApiKey, type RateLimiter } from '../src/auth';
+import worker from '../src/index';
+
+const keysEnv = (keys: Record<string, unknown>, vars: Record<string, string> = {}) =>
+  ({ ...env, API_KEYS: JSON.stringify(keys), ...vars }) as unknown as Env;
+
+const withKey = (key: string) => new Request('https://worker.test/', { headers: { 'X-API-Key': key } });
+
+describe('authenticate', () => {
+  it('rejects missing and unknown keys', async () => {
+    const testEnv = keysEnv({ known: {} });
+    expect(await authenticate(new Request('https://worker.test/'), testEnv)).toBeNull();
+    expect(await authenticate(withKey('unknown'), testEnv)).toBeNull();
+  });
+
+  it('applies per-key limits, keeping an explicit 0 token budget (unlimited)', async () => {
+    const testEnv = keysEnv(
+      { limited: { name: 'team-a', rpm: 120, tokensPerDay: 500 }, unlimited: { tokensPerDay: 0 }, defaults: {} },
+      { RATE_LIMIT_TOKENS_PER_DAY: '1000' },
+    );
+    expect(await authenticate(withKey('limited'), testEnv)).toMatchObject({ name: 'team-a', rpm: 120, tokensPerDay: 500 });
+    expect(await authenticate(withKey('unlimited'), testEnv)).toMatchObject({ tokensPerDay: 0 });
+    expect(await authenticate(withKey('defaults'), testEnv)).toMatchObject({ tokensPerDay: 1000 });
+  });
+
+  it('falls back to the default for invalid token budgets', async () => {
+    const testEnv = keysEnv({ bad: { tokensPerDay: 'lots' }, negative: { tokensPerDay: -1 } }, { RATE_LIMIT_TOKENS_PER_DAY: '1000' });
+    expect(await authenticate(withKey('bad'), testEnv)).toMatchObject({ tokensPerDay: 1000 });
+    expect(await authenticate(withKey('negative'), testEnv)).toMatchObject({ tokensPerDay: 1000 });
+  });
+});
+
+describe('extractApiKey', () => {
+  it('reads a bearer token or X-API-Key', () => {
+    expect(extractApiKey(new Request('https://worker.test/', { headers: { Authorization: 'Bearer abc' } }))).toBe('abc');
+    expect(extractApiKey(withKey(' xyz '))).toBe('xyz');
+  });
+});
+
+describe('RateLimiter', () => {
+  const limiter = () => env.RATE_LIMITER.getByName(crypto.randomUUID());
+
+  it('allows `rpm` requests per minute, then asks to retry at the next minute', async () => {
+    const stub = limiter();
+    expect(await stub.check(2, 0)).toMatchObject({ allowed: true, remaining: 1 });
+    expect(await stub.check(2, 0)).toMatchObject({ allowed: true, remaining: 0 });
+
+    const limited = await stub.check(2, 0);
+    expect(limited).toMatchObject({ allowed: false, reason: 'requests', remaining: 0 });
+    expect(limited.retryAfter).toBeGreaterThanOrEqual(1);
+    expect(limited.retryAfter).toBeLessThanOrEqual(60);
+    expect(limited.reset * 1000 - Date.now()).toBeLessThanOrEqual(60_000);
+  });
+
+  it('stops requests once the daily tokens are spent, until the next UTC day', async () => {
+    const stub = limiter();
+    await stub.addTokens(100);
+    expect(await stub.check(10, 150)).toMatchObject({ allowed: true, tokensRemaining: 50 });
+
+    await stub.addTokens(60);
+    const limited = await stub.check(10, 150);
+    expect(limited).toMatchObject({ allowed: false, reason: 'tokens', tokensRemaining: 0 });
+    const midnight = Date.parse(`${new Date().toISOString().slice(0, 10)}T00:00:00Z`) + 86_400_000;
+    expect(limited.retryAfter).toBe(Math.ceil((midnight - Date.now()) / 1000));
+
+    // A budget of 0 is unlimited
+    expect((await stub.check(10, 0)).allowed).toBe(true);
+  });
+
+  it('starts new windows when the minute and the day roll over', async () => {
+    const stub = limiter();
+    await runInDurableObject(stub, async (_instance: RateLimiter, state) => {
+      await state.storage.put('counters', { minute: Date.now() - 120_000, requests: 5, day: '2000-01-01', tokens: 1000 });
+    });
+    expect(await stub.check(5, 1000)).toMatchObject({ allowed: true, remaining: 4, tokensRemaining: 1000 });
+  });
+});
+
+describe('rate-limited requests', () => {
+  it('answers 429 with Retry-After once a key runs out of requests', async () => {
+    const key = `key-${crypto.randomUUID()}`;
+    const testEnv = keysEnv({ [key]: { rpm: 1 } });
+    const request = () =>
+      worker.fetch(
+        new Request('https://worker.test/', { headers: { 'X-API-Key': key } }) as Request<unknown, IncomingRequestCfProperties>,
+        testEnv,
+        createExecutionContext(),
+      );
+
+    const allowed = await request();
+    expect(allowed.status).toBe(200);
+    expect(allowed.headers.get('X-RateLimit-Remaining')).toBe('0');
+
+    const limited = await request();
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThanOrEqual(1);
+    expect(await limited.json()).toMatchObject({ error: 'Rate limit exceeded.' });
+  });
+});
@@ -0,0 +1,61 @@
+import { createExecutionContext } from 'cloudflare:test';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { convertBatch, summarizeBatch } from '../src/batch';
+import { htmlPage, stubToMarkdown, stubUpstream, withAi } from './helpers';
+
+const pages: Record<string, string> = {
+  'https://example.com/a': htmlPage('A', 'Page text. '.repeat(20)),
+  'https://example.com/b': htmlPage('B', 'Page text. '.repeat(20)),
+};
+
+const toMarkdown = stubToMarkdown(3);
+const testEnv = withAi(toMarkdown);
+let requests: Request[] = [];
+
+beforeEach(() => {
+  requests = stubUpstream(pages);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  toMarkdown.mockClear();
+});
+
+describe('convertBatch', () => {
+  it('converts URL and content items, reporting failures per item', async () => {
+    const results = await convertBatch(
+      [{ url: 'https://example.com/a', images: 'keep' }, { content: '<p>Direct</p>', contentType: 'text/html' }, { url: 'not a url' }],
+      testEnv,
+      createExecutionContext(),
+    );
+    expect(summarizeBatch(results)).toMatchObject({ total: 3, succeeded: 2, failed: 1 });
+    expect(results[2]).toMatchObject({ success: false, index: 2, error: 'Invalid URL provided.' });
+  });
+
+  it("sends each item's fetch settings with that item only", async () => {
+    await convertBatch(
+      [
+        { url: 'https://example.com/a', images: 'keep', headers: { 'X-Token': 'abc' }, cookies: { session: '1' }, userAgent: 'MyBot/1.0' },
+        { url: 'https://example.com/b', images: 'keep' },
+      ],
+      testEnv,
+      createExecutionContext(),
+    );
+    const sent = (path: string) => requests.find((request) => request.url.endsWith(path))?.headers;
+    expect(sent('/a')?.get('X-Token')).toBe('abc');
+    expect(sent('/a')?.get('Cookie')).toBe('session=1');
+    expect(sent('/a')?.get('User-Agent')).toBe('MyBot/1.0');
+    expect(sent('/b')?.get('X-Token')).toBeNull();
+    expect(sent('/b')?.get('Cookie')).toBeNull();
+  });
+
+  it('fails an item with invalid fetch settings without fetching it', async () => {
+    const results = await convertBatch(
+      [{ url: 'https://example.com/a', referer: 'javascript:alert(1)' }],
+      testEnv,
+      createExecutionContext(),
+    );
+    expect(results[0]).toMatchObject({ success: false, code: 'invalid_header' });
+    expect(requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,103 @@
+import { env } from 'cloudflare:test';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { type CachedConversion, cacheAge, contentCacheKey, getConversionCache, isFresh, normalizeUrl, urlCacheKey } from '../src/cache';
+
+const HOUR = 60 * 60_000;
+
+const entry = (overrides: Partial<CachedConversion> = {}): CachedConversion => ({
+  name: 'page.md',
+  mimeType: 'text/html',
+  tokens: 3,
+  markdown: '# Page',
+  createdAt: Date.now(),
+  validatedAt: Date.now(),
+  ...overrides,
+});
+
+/** In-memory KV namespace recording the options of each write */
+function memoryKv() {
+  const values = new Map<string, string>();
+  const puts: { key: string; options: unknown }[] = [];
+  const kv = {
+    async get(key: string, type: string) {
+      const value = values.get(key);
+      return value === undefined ? null : type === 'json' ? JSON.parse(value) : value;
+    },
+    async put(key: string, value: string, options: unknown) {
+      values.set(key, value);
+      puts.push({ key, options });
+    },
+  };
+  return { kv: kv as unknown as KVNamespace, puts };
+}
+
+const withVars = (vars: Record<string, unknown>) => ({ ...env, ...vars }) as unknown as Env;
+
+afterEach(() => vi.restoreAllMocks());
+
+describe('cache keys', () => {
+  it('ignores fragments, query order and option order', async () => {
+    expect(normalizeUrl('https://Example.com:443/a?b=2&a=1#top')).toBe('https://example.com/a?a=1&b=2');
+    expect(await urlCacheKey('https://example.com/a?b=2&a=1#x', { extract: 'main', clean: 'true' })).toBe(
+      await urlCacheKey('https://example.com/a?a=1&b=2', { clean: 'true', extract: 'main', converter: undefined }),
+    );
+  });
+
+  it('separates URLs, options and content', async () => {
+    const key = await urlCacheKey('https://example.com/a');
+    expect(key).toMatch(/^url:[0-9a-f]{64}$/);
+    expect(await urlCacheKey('https://example.com/a', { extract: 'main' })).not.toBe(key);
+    expect(await contentCacheKey('<p>Hi</p>')).toMatch(/^content:[0-9a-f]{64}$/);
+    expect(await contentCacheKey('<p>Hi</p>', { extract: 'main' })).not.toBe(await contentCacheKey('<p>Hi</p>'));
+  });
+});
+
+describe('freshness', () => {
+  it('serves entries validated within CACHE_TTL_HOURS without revalidation', () => {
+    const testEnv = withVars({ CACHE_TTL_HOURS: '2' });
+    expect(isFresh(entry({ validatedAt: Date.now() - HOUR }), testEnv)).toBe(true);
+    expect(isFresh(entry({ validatedAt: Date.now() - 3 * HOUR }), testEnv)).toBe(false);
+  });
+
+  it('reports the age since conversion, not since revalidation', () => {
+    expect(cacheAge(entry({ createdAt: Date.now() - 90_000, validatedAt: Date.now() }))).toBe(90);
+    expect(cacheAge(entry({ createdAt: Date.now() + 5_000 }))).toBe(0);
+  });
+});
+
+describe('getConversionCache', () => {
+  it('is disabled without a backend', () => {
+    expect(getConversionCache(withVars({ CACHE_BACKEND: 'none' }))).toBeNull();
+    expect(getConversionCache(withVars({ CACHE_BACKEND: 'kv', CACHE_KV: undefined }))).toBeNull();
+  });
+
+  it('stores entries in KV for two TTL periods', async () => {
+    const { kv, puts } = memoryKv();
+    const cache = getConversionCache(withVars({ CACHE_KV: kv, CACHE_TTL_HOURS: '1' }));
+    await cache?.put('url:abc', entry());
+
+    expect(await cache?.get('url:abc')).toMatchObject({ markdown: '# Page' });
+    expect(await cache?.get('url:missing')).toBeNull();
+    expect(puts).toEqual([{ key: 'url:abc', options: { expirationTtl: 2 * 60 * 60 } }]);
+  });
+
+  it('stores entries in R2 under cache/ with an expiry for the cleanup sweep', async () => {
+    const cache = getConversionCache(withVars({ CACHE_BACKEND: 'r2', CACHE_TTL_HOURS: '1' }));
+    await cache?.put('url:abc', entry());
+
+    expect(await cache?.get('url:abc')).toMatchObject({ markdown: '# Page' });
+    const object = await env.IMAGES_BUCKET.head('cache/url:abc');
+    const expiresAt = Date.parse(object?.customMetadata?.expiresAt ?? '');
+    expect(expiresAt).toBeGreaterThan(Date.now() + 1.9 * HOUR);
+    expect(expiresAt).toBeLessThanOrEqual(Date.now() + 2 * HOUR);
+  });
+
+  it('turns storage errors into misses', async () => {
+    vi.spyOn(env.IMAGES_BUCKET, 'get').mockRejectedValue(new Error('R2 unavailable'));
+    vi.spyOn(env.IMAGES_BUCKET, 'put').mockRejectedValue(new Error('R2 unavailable'));
+    const cache = getConversionCache(withVars({ CACHE_BACKEND: 'r2' }));
+
+    await expect(cache?.put('url:abc', entry())).resolves.toBeUndefined();
+    expect(await cache?.get('url:abc')).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { decodeHtml, detectCharset } from '../src/charset';
+
+/** ASCII markup around legacy-encoded body bytes */
+const html = (body: number[], head = '') =>
+  new Uint8Array([
+    ...new TextEncoder().encode(`<html><head>${head}</head><body><p>`),
+    ...body,
+    ...new TextEncoder().encode('</p></body></html>'),
+  ]);
+
+const repeat = (bytes: number[], times: number) => Array.from({ length: times }, () => bytes).flat();
+
+/** 中文测试 in GBK */
+const GBK = [0xd6, 0xd0, 0xce, 0xc4, 0xb2, 0xe2, 0xca, 0xd4];
+/** こんにちは in Shift_JIS */
+const SHIFT_JIS = [0x82, 0xb1, 0x82, 0xf1, 0x82, 0xc9, 0x82, 0xbf, 0x82, 0xcd];
+/** 안녕하세요 in EUC-KR */
+const EUC_KR = [0xbe, 0xc8, 0xb3, 0xe7, 0xc7, 0xcf, 0xbc, 0xbc, 0xbf, 0xe4];
+/** café in Windows-1252 */
+const LATIN = [0x63, 0x61, 0x66, 0xe9];
+
+describe('detectCharset', () => {
+  it('trusts the Content-Type charset first, resolving aliases', () => {
+    const bytes = html(GBK, '<meta charset="shift_jis">');
+    expect(detectCharset(bytes, 'text/html; charset="GB2312"')).toEqual({ charset: 'gbk', source: 'header' });
+  });
+
+  it('ignores unknown header charsets and falls through to the BOM', () => {
+    const bytes = new Uint8Array([0xef, 0xbb, 0xbf, ...html([], '<meta charset="gbk">')]);
+    expect(detectCharset(bytes, 'text/html; charset=bogus')).toEqual({ charset: 'utf-8', source: 'bom' });
+    expect(detectCharset(new Uint8Array([0xff, 0xfe, 0x3c, 0x00]))).toEqual({ charset: 'utf-16le', source: 'bom' });
+  });
+
+  it('reads <meta charset> and http-equiv declarations', () => {
+    // Aliases resolve to the runtime's canonical name
+    const shiftJis = new TextDecoder('shift_jis').encoding;
+    expect(detectCharset(html(SHIFT_JIS, '<meta charset="x-sjis">'))).toEqual({ charset: shiftJis, source: 'meta' });
+    expect(detectCharset(html(GBK, '<meta http-equiv="Content-Type" content="text/html; charset=gb2312">'))).toEqual({
+      charset: 'gbk',
+      source: 'meta',
+    });
+  });
+
+  it('only scans the first 1024 bytes for a meta declaration', () => {
+    const bytes = html([], `${' '.repeat(1100)}<meta charset="gbk">`);
+    expect(detectCharset(bytes)).toEqual({ charset: 'utf-8', source: 'heuristic' });
+  });
+
+  it('treats a UTF-16 meta declaration as UTF-8', () => {
+    expect(detectCharset(html([], '<meta charset="utf-16">'))).toEqual({ charset: 'utf-8', source: 'meta' });
+  });
+
+  it('guesses undeclared encodings from the bytes', () => {
+    expect(detectCharset(html([...new TextEncoder().encode('中文测试')]))).toEqual({ charset: 'utf-8', source: 'heuristic' });
+    expect(detectCharset(html(repeat(GBK, 20))).charset).toBe('gbk');
+    expect(detectCharset(html(repeat(SHIFT_JIS, 20))).charset).toBe('shift_jis');
+    expect(detectCharset(html(repeat(EUC_KR, 20))).charset).toBe('euc-kr');
+    expect(detectCharset(html(LATIN)).charset).toBe('windows-1252');
+  });
+});
+
+describe('decodeHtml', () => {
+  it('decodes with the detected charset', () => {
+    expect(decodeHtml(html(GBK), 'text/html; charset=gbk')).toEqual({
+      text: '<html><head></head><body><p>中文测试</p></body></html>',
+      charset: 'gbk',
+    });
+    expect(decodeHtml(html(LATIN)).text).toContain('café');
+  });
+
+  it('drops the byte order mark', () => {
+    expect(decodeHtml(new Uint8Array([0xef, 0xbb, 0xbf, 0x3c, 0x70, 0x3e])).text).toBe('<p>');
+  });
+});
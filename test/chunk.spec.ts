@@ -0,0 +1,51 @@
+import { env } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+import { chunkMarkdown, estimateTokens, parseChunkOptions } from '../src/chunk';
+
+describe('estimateTokens', () => {
+  it('counts CJK characters as one token and other text as ~4 characters per token', () => {
+    expect(estimateTokens('abcdefgh')).toBe(2);
+    expect(estimateTokens('你好世界')).toBe(4);
+  });
+});
+
+describe('parseChunkOptions', () => {
+  it('clamps the budget and caps the overlap at half of it', () => {
+    expect(parseChunkOptions(env, '1', '0')).toEqual({ maxTokens: 32, overlap: 0 });
+    expect(parseChunkOptions(env, '100', '80')).toEqual({ maxTokens: 100, overlap: 50 });
+    expect(parseChunkOptions(env, null, null).maxTokens).toBe(512);
+  });
+});
+
+describe('chunkMarkdown', () => {
+  const paragraph = (word: string) => `${`${word} `.repeat(60).trim()}.`;
+  const markdown = `# Guide\n\n${paragraph('intro')}\n\n## Setup\n\n${paragraph('setup')}\n\n${paragraph('more')}\n`;
+
+  it('keeps sections whole when they fit and records their headings', () => {
+    const chunks = chunkMarkdown(markdown, { maxTokens: 512, overlap: 0 }, 'https://example.com/');
+    expect(chunks.map((c) => c.headings)).toEqual([['Guide'], ['Guide', 'Setup']]);
+    expect(chunks.every((c) => c.url === 'https://example.com/')).toBe(true);
+  });
+
+  it('splits long sections under the budget, with offsets into the Markdown', () => {
+    const chunks = chunkMarkdown(markdown, { maxTokens: 100, overlap: 0 });
+    expect(chunks.length).toBeGreaterThan(2);
+    for (const [i, chunk] of chunks.entries()) {
+      expect(chunk.index).toBe(i);
+      expect(chunk.tokens).toBeLessThanOrEqual(100);
+      expect(markdown.slice(chunk.start, chunk.end)).toBe(chunk.text);
+    }
+  });
+
+  it('keeps a fenced code block that fits the budget whole', () => {
+    const code = `# Code\n\n${paragraph('before')}\n\n\`\`\`js\n${'const x = 1;\n\n'.repeat(10)}\`\`\`\n\n${paragraph('after')}\n`;
+    const chunks = chunkMarkdown(code, { maxTokens: 100, overlap: 0 });
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.map((c) => (c.text.match(/```/g) ?? []).length).every((n) => n % 2 === 0)).toBe(true);
+  });
+
+  it('repeats the tail of the previous chunk as overlap', () => {
+    const [first, second] = chunkMarkdown(markdown.slice(markdown.indexOf('## Setup')), { maxTokens: 100, overlap: 20 });
+    expect(second.start).toBeLessThan(first.end);
+  });
+});
@@ -0,0 +1,56 @@
+import { env } from 'cloudflare:test';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { handleAdminCleanup, sweepExpiredObjects } from '../src/cleanup';
+
+const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 60 * 60_000).toISOString();
+
+/** Two expired objects, one live one and one without `expiresAt` */
+beforeEach(async () => {
+  await env.IMAGES_BUCKET.put('img/expired-a', 'a', { customMetadata: { expiresAt: hoursFromNow(-1) } });
+  await env.IMAGES_BUCKET.put('img/expired-b', 'b', { customMetadata: { expiresAt: hoursFromNow(-24) } });
+  await env.IMAGES_BUCKET.put('img/live', 'c', { customMetadata: { expiresAt: hoursFromNow(1) } });
+  await env.IMAGES_BUCKET.put('img/untracked', 'd');
+});
+
+const keys = async () => (await env.IMAGES_BUCKET.list()).objects.map((object) => object.key).sort();
+
+describe('sweepExpiredObjects', () => {
+  it('deletes only expired objects', async () => {
+    expect(await sweepExpiredObjects(env.IMAGES_BUCKET)).toEqual({ deleted: 2, skipped: 2, failed: 0 });
+    expect(await keys()).toEqual(['img/live', 'img/untracked']);
+  });
+
+  it('counts expired objects without deleting them in a dry run', async () => {
+    expect(await sweepExpiredObjects(env.IMAGES_BUCKET, true)).toEqual({ deleted: 2, skipped: 2, failed: 0 });
+    expect(await keys()).toHaveLength(4);
+  });
+});
+
+describe('handleAdminCleanup', () => {
+  const adminEnv = { ...env, ADMIN_TOKEN: 'admin-secret' } as unknown as Env;
+  const cleanup = (token?: string, query = '') =>
+    new Request(`https://worker.test/admin/cleanup${query}`, {
+      method: 'POST',
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    });
+
+  it('rejects missing and wrong tokens without deleting anything', async () => {
+    expect((await handleAdminCleanup(cleanup(), adminEnv)).status).toBe(401);
+    expect((await handleAdminCleanup(cleanup('wrong-secret'), adminEnv)).status).toBe(401);
+    expect(await keys()).toHaveLength(4);
+  });
+
+  it('does not exist without ADMIN_TOKEN', async () => {
+    expect((await handleAdminCleanup(cleanup('admin-secret'), env)).status).toBe(404);
+  });
+
+  it('sweeps the bucket with the admin token', async () => {
+    const dryRun = await handleAdminCleanup(cleanup('admin-secret', '?dryRun=true'), adminEnv);
+    expect(await dryRun.json()).toEqual({ success: true, dryRun: true, deleted: 2, skipped: 2, failed: 0 });
+    expect(await keys()).toHaveLength(4);
+
+    const res = await handleAdminCleanup(cleanup('admin-secret'), adminEnv);
+    expect(await res.json()).toEqual({ success: true, dryRun: false, deleted: 2, skipped: 2, failed: 0 });
+    expect(await keys()).toEqual(['img/live', 'img/untracked']);
+  });
+});
@@ -0,0 +1,77 @@
+import { createExecutionContext } from 'cloudflare:test';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { crawlSite, parseCrawlRequest } from '../src/crawl';
+import { CRAWLER_USER_AGENT, ROBOTS_AGENT } from '../src/robots';
+import { htmlPage, stubToMarkdown, stubUpstream, withAi } from './helpers';
+
+const page = (title: string, links: string) => htmlPage(title, `${title} text. `.repeat(20), links);
+
+/** Pages served by the stubbed upstream */
+const pages: Record<string, string> = {
+  'https://example.com/': page(
+    'Home',
+    '<a href="/a">A</a> <a href="http://[broken">Broken</a> <a href="https://other.example/">Other</a> <a href="/logo.png">Logo</a>',
+  ),
+  'https://example.com/a': page('A', '<a href="/">Home</a> <a href="/b#top">B</a>'),
+  'https://example.com/b': page('B', ''),
+};
+
+const toMarkdown = stubToMarkdown(1);
+const testEnv = withAi(toMarkdown);
+let requests: Request[] = [];
+
+beforeEach(() => {
+  requests = stubUpstream(pages);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  toMarkdown.mockClear();
+});
+
+describe('crawlSite', () => {
+  it('follows same-origin page links breadth first', async () => {
+    const crawl = parseCrawlRequest({ url: 'https://example.com/', robots: false, images: 'keep' }, testEnv);
+    const manifest = await crawlSite(crawl, testEnv, createExecutionContext());
+
+    expect(manifest).toMatchObject({ seed: 'https://example.com/', total: 3, succeeded: 3, failed: 0, truncated: false });
+    expect(manifest.pages.map((p) => [p.url, p.depth])).toEqual([
+      ['https://example.com/', 0],
+      ['https://example.com/a', 1],
+      ['https://example.com/b', 2],
+    ]);
+    expect(manifest.links['https://example.com/']).toEqual(['https://example.com/a']);
+  });
+
+  it('sends the fetch settings with every page', async () => {
+    const crawl = parseCrawlRequest({ url: 'https://example.com/', robots: false, images: 'keep', cookies: { session: 'abc' } }, testEnv);
+    await crawlSite(crawl, testEnv, createExecutionContext());
+    expect(requests.map((request) => request.headers.get('Cookie'))).toEqual(['session=abc', 'session=abc', 'session=abc']);
+  });
+
+  it('identifies as the robots.txt product token unless a user agent is given', async () => {
+    await crawlSite(
+      parseCrawlRequest({ url: 'https://example.com/', maxPages: 2, images: 'keep' }, testEnv),
+      testEnv,
+      createExecutionContext(),
+    );
+    expect(requests.map((request) => [request.url, request.headers.get('User-Agent')])).toEqual([
+      ['https://example.com/robots.txt', CRAWLER_USER_AGENT],
+      ['https://example.com/', CRAWLER_USER_AGENT],
+      ['https://example.com/a', CRAWLER_USER_AGENT],
+    ]);
+    expect(CRAWLER_USER_AGENT).toContain(ROBOTS_AGENT);
+
+    requests.length = 0;
+    const custom = parseCrawlRequest({ url: 'https://example.com/', maxPages: 1, images: 'keep', userAgent: 'MyBot/2.0' }, testEnv);
+    await crawlSite(custom, testEnv, createExecutionContext());
+    expect(requests.map((request) => request.headers.get('User-Agent'))).toEqual([CRAWLER_USER_AGENT, 'MyBot/2.0']);
+  });
+});
+
+describe('parseCrawlRequest', () => {
+  it('rejects invalid seeds and fetch settings', () => {
+    expect(() => parseCrawlRequest({ url: 'not a url' }, testEnv)).toThrow('Invalid URL provided.');
+    expect(() => parseCrawlRequest({ url: 'https://example.com/', referer: 'javascript:alert(1)' }, testEnv)).toThrow(/referer/);
+  });
+});
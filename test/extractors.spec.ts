@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { registerExtractor, runExtractors } from '../src/extractors';
+
+const page = (body: string, head = '') =>
+  `<html><head>${head}</head><body><nav>Site menu</nav>${body}<footer>Footer</footer></body></html>`;
+
+describe('runExtractors', () => {
+  it('matches sites by URL and strips their chrome', () => {
+    const html = page(
+      '<div class="Post-RichText"><p>Answer text</p><div class="ContentItem-actions">Like · Share</div><script>track()</script></div>',
+    );
+    const result = runExtractors(html, 'https://zhuanlan.zhihu.com/p/123');
+    expect(result.extractor).toBe('zhihu');
+    expect(result.html).toContain('Answer text');
+    expect(result.html).not.toContain('Like · Share');
+    expect(result.html).not.toContain('track()');
+    expect(result.html).not.toContain('Site menu');
+  });
+
+  it('recognises sites from the HTML when there is no URL', () => {
+    const html = page(
+      '<div id="content_views"><p>Blog post</p><ul class="pre-numbering"><li>1</li></ul></div>',
+      '<link rel="stylesheet" href="https://csdnimg.cn/release/blogv2/dist/pc/css/detail.css">',
+    );
+    const result = runExtractors(html, null);
+    expect(result.extractor).toBe('csdn');
+    expect(result.html).toContain('Blog post');
+    expect(result.html).not.toContain('pre-numbering');
+  });
+
+  it('tries the content selectors in order', () => {
+    const html = page('<div class="markdown-body"><p>Fallback body</p></div>');
+    expect(runExtractors(html, 'https://juejin.cn/post/1')).toMatchObject({ extractor: 'juejin' });
+    expect(runExtractors(html, 'https://juejin.cn/post/1').html).toContain('Fallback body');
+  });
+
+  it('requires the host or one of its subdomains', () => {
+    const html = page('<article class="markdown-body"><p>Readme</p></article>');
+    expect(runExtractors(html, 'https://gist.github.com/u/1').extractor).toBe('github');
+    expect(runExtractors(html, 'https://notgithub.com/u/1').extractor).toBeNull();
+  });
+
+  it('keeps the full page when the matching site has no content', () => {
+    const html = page('<p>Profile page</p>');
+    expect(runExtractors(html, 'https://www.zhihu.com/people/someone')).toEqual({ html, extractor: null });
+  });
+
+  it('keeps the full page for unknown sites and unparseable URLs', () => {
+    const html = page('<p>Hello</p>');
+    expect(runExtractors(html, 'https://example.com/')).toEqual({ html, extractor: null });
+    expect(runExtractors(html, 'not a url')).toEqual({ html, extractor: null });
+  });
+
+  it('tries registered extractors before the built-in ones', () => {
+    registerExtractor({
+      name: 'custom',
+      match: (_url, html) => html.includes('data-custom-site'),
+      extract: () => '<p>Custom content</p>',
+    });
+    const html = page('<div class="markdown-body" data-custom-site><p>Readme</p></div>');
+    expect(runExtractors(html, 'https://github.com/u/r')).toEqual({ html: '<p>Custom content</p>', extractor: 'custom' });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { detectFeed, parseFeed } from '../src/feeds';
+
+const rss = `<?xml version="1.0"?>
+<rss version="2.0"><channel>
+  <title>Example Blog</title><link>https://example.com/</link>
+  <item>
+    <title><![CDATA[First & best]]></title>
+    <link>/posts/1</link>
+    <pubDate>Mon, 06 Jan 2025 10:00:00 GMT</pubDate>
+    <description>&lt;p&gt;Hello &lt;b&gt;world&lt;/b&gt;&lt;/p&gt;</description>
+  </item>
+  <item><guid isPermaLink="true">https://example.com/posts/2</guid><title>Second</title></item>
+</channel></rss>`;
+
+const atom = `<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>Atom Feed</title>
+  <link rel="alternate" href="https://example.org/"/>
+  <entry>
+    <title>Entry</title>
+    <link rel="self" href="https://example.org/self"/>
+    <link rel="alternate" href="https://example.org/entry"/>
+    <updated>2025-01-02T03:04:05Z</updated>
+    <summary>Plain summary</summary>
+  </entry>
+</feed>`;
+
+const sitemap = `<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <url><loc>https://example.com/a</loc><lastmod>2025-01-01</lastmod></url>
+  <url><loc>https://example.com/b</loc></url>
+</urlset>`;
+
+describe('detectFeed', () => {
+  it('recognises feeds by their root element', () => {
+    expect(detectFeed(rss)).toBe('rss');
+    expect(detectFeed(atom)).toBe('atom');
+    expect(detectFeed(sitemap)).toBe('sitemap');
+    expect(detectFeed('<sitemapindex><sitemap><loc>x</loc></sitemap></sitemapindex>')).toBe('sitemapindex');
+    expect(detectFeed('<html><body>not a feed</body></html>')).toBeNull();
+  });
+});
+
+describe('parseFeed', () => {
+  it('parses RSS items, resolving links and converting HTML summaries', () => {
+    const feed = parseFeed(rss, 'https://example.com/feed.xml');
+    expect(feed?.title).toBe('Example Blog');
+    expect(feed?.entries).toEqual([
+      { title: 'First & best', link: 'https://example.com/posts/1', date: '2025-01-06T10:00:00.000Z', summary: 'Hello **world**' },
+      { title: 'Second', link: 'https://example.com/posts/2', date: null, summary: null },
+    ]);
+  });
+
+  it('parses Atom entries using their alternate link', () => {
+    const feed = parseFeed(atom);
+    expect(feed?.kind).toBe('atom');
+    expect(feed?.entries[0]).toMatchObject({
+      link: 'https://example.org/entry',
+      date: '2025-01-02T03:04:05.000Z',
+      summary: 'Plain summary',
+    });
+  });
+
+  it('parses sitemaps', () => {
+    const feed = parseFeed(sitemap);
+    expect(feed?.entries.map((entry) => entry.link)).toEqual(['https://example.com/a', 'https://example.com/b']);
+  });
+
+  it('returns null for other documents', () => {
+    expect(parseFeed('<root/>')).toBeNull();
+  });
+});
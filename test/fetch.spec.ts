@@ -0,0 +1,69 @@
+import { env } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+import { type FetchOverrideInput, hasRequestIdentity, overrideHeaders, parseFetchOverrides } from '../src/fetch';
+
+const withVars = (vars: Partial<Record<keyof Env, string>>) => ({ ...env, ...vars }) as unknown as Env;
+
+/** The error code thrown for the input, or null when it parses */
+function errorCode(input: FetchOverrideInput, testEnv: Env = env): string | null {
+  try {
+    parseFetchOverrides(input, testEnv);
+    return null;
+  } catch (error) {
+    return (error as { code?: string }).code ?? 'unknown';
+  }
+}
+
+describe('parseFetchOverrides', () => {
+  it('returns nothing for empty input', () => {
+    expect(parseFetchOverrides({}, env)).toEqual({ headers: undefined, referer: undefined, timeout: undefined, maxAttempts: undefined });
+  });
+
+  it('accepts headers as an object or "Name: value" lines', () => {
+    expect(parseFetchOverrides({ headers: { 'X-Token': 'abc' } }, env).headers).toEqual({ 'X-Token': 'abc' });
+    expect(parseFetchOverrides({ headers: ['X-Token: abc', 'Accept-Language: fr'] }, env).headers).toEqual({
+      'X-Token': 'abc',
+      'Accept-Language': 'fr',
+    });
+  });
+
+  it('turns cookies and userAgent into headers', () => {
+    const { headers } = parseFetchOverrides({ headers: { Cookie: 'a=1' }, cookies: { b: '2' }, userAgent: 'MyBot/1.0' }, env);
+    expect(headers).toEqual({ Cookie: 'a=1; b=2', 'User-Agent': 'MyBot/1.0' });
+    expect(errorCode({ cookies: { session: 'a;b' } })).toBe('invalid_header');
+  });
+
+  it('rejects denied, malformed and multi-line headers', () => {
+    expect(errorCode({ headers: { Host: 'evil.example' } })).toBe('header_not_allowed');
+    expect(errorCode({ headers: { 'X-Forwarded-For': '127.0.0.1' } })).toBe('header_not_allowed');
+    expect(errorCode({ headers: { 'Bad Name': 'x' } })).toBe('invalid_header');
+    expect(errorCode({ headers: { 'X-Token': 'a\r\nHost: evil' } })).toBe('invalid_header');
+    expect(errorCode({ headers: { 'X-Token': 'a\u0000b' } })).toBe('invalid_header');
+    expect(errorCode({ headers: { 'X-Token': 'a\u007fb' } })).toBe('invalid_header');
+    expect(parseFetchOverrides({ headers: { 'X-Token': 'a\tb' } }, env).headers).toEqual({ 'X-Token': 'a\tb' });
+    expect(errorCode({ headers: { 'X-Secret': '1' } }, withVars({ FETCH_DENY_HEADERS: 'x-secret' }))).toBe('header_not_allowed');
+  });
+
+  it('accepts only absolute http(s) referers', () => {
+    expect(parseFetchOverrides({ referer: 'https://example.com/from' }, env).referer).toBe('https://example.com/from');
+    for (const referer of ['javascript:alert(1)', 'file:///etc/passwd', 'data:text/html,hi', '/relative']) {
+      expect(errorCode({ referer }), referer).toBe('invalid_header');
+      expect(errorCode({ headers: { Referer: referer } }), referer).toBe('invalid_header');
+    }
+  });
+
+  it('clamps timeout and maxAttempts to the configured limits', () => {
+    expect(parseFetchOverrides({ timeout: '999999', maxAttempts: 0 }, env)).toMatchObject({ timeout: 60_000, maxAttempts: 1 });
+    expect(parseFetchOverrides({ timeout: 10 }, env).timeout).toBe(1000);
+    expect(() => parseFetchOverrides({ timeout: 'soon' }, env)).toThrow(/expected a number/);
+  });
+});
+
+describe('overrideHeaders', () => {
+  it('merges the referer into the headers', () => {
+    const overrides = parseFetchOverrides({ headers: { 'X-Token': 'abc' }, referer: 'https://example.com/' }, env);
+    expect(hasRequestIdentity(overrides)).toBe(true);
+    expect(overrideHeaders(overrides)).toEqual({ 'X-Token': 'abc', Referer: 'https://example.com/' });
+    expect(hasRequestIdentity(parseFetchOverrides({ timeout: 5000 }, env))).toBe(false);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { isSafeUrl, parseResponseFormat, renderMarkdown, toHtml } from '../src/formats';
+
+describe('isSafeUrl', () => {
+  it('allows relative, http(s) and mailto links', () => {
+    expect(isSafeUrl('/docs/page', false)).toBe(true);
+    expect(isSafeUrl('#section', false)).toBe(true);
+    expect(isSafeUrl('https://example.com/', false)).toBe(true);
+    expect(isSafeUrl('mailto:someone@example.com', false)).toBe(true);
+    expect(isSafeUrl('mailto:someone@example.com', true)).toBe(false);
+  });
+
+  it('allows raster data: URIs for images only', () => {
+    expect(isSafeUrl('data:image/png;base64,AAAA', true)).toBe(true);
+    expect(isSafeUrl('data:image/png;base64,AAAA', false)).toBe(false);
+    expect(isSafeUrl('data:image/svg+xml,<svg onload=alert(1)>', true)).toBe(false);
+    expect(isSafeUrl('data:text/html,<script>alert(1)</script>', true)).toBe(false);
+  });
+
+  it('rejects script schemes however they are disguised', () => {
+    for (const url of [
+      'javascript:alert(1)',
+      'JavaScript:alert(1)',
+      '  javascript:alert(1)',
+      '\u0001javascript:alert(1)',
+      'java\tscript:alert(1)',
+      'java\nscript:alert(1)',
+      'java&#x09;script:alert(1)',
+      'java&Tab;script:alert(1)',
+      '&#106;avascript:alert(1)',
+      'vbscript:msgbox(1)',
+      'file:///etc/passwd',
+    ]) {
+      expect(isSafeUrl(url, false), url).toBe(false);
+      expect(isSafeUrl(url, true), url).toBe(false);
+    }
+  });
+});
+
+describe('toHtml', () => {
+  it('drops unsafe link targets but keeps the link text', () => {
+    const html = toHtml('[click](javascript:alert(1)) and [ok](https://example.com/)');
+    expect(html).not.toContain('javascript:');
+    expect(html).toContain('click');
+    expect(html).toContain('<a href="https://example.com/"');
+  });
+
+  it('escapes text and drops raw HTML other than safe inline tags', () => {
+    const html = toHtml('a <script>alert(1)</script> <b>bold</b> <img src=x onerror=alert(1)> 1 < 2');
+    expect(html).not.toContain('<script>');
+    expect(html).not.toContain('onerror');
+    expect(html).toContain('<b>bold</b>');
+    expect(html).toContain('1 &lt; 2');
+  });
+
+  it('drops entity-obfuscated, autolinked and reference-style script links', () => {
+    const html = toHtml(
+      [
+        '[a](&#106;avascript:alert(1)) [b](java&#x09;script:alert(1)) [c](<javascript:alert(1)>)',
+        '<javascript:alert(2)> [d][x]',
+        '',
+        '[x]: JAVASCRIPT:alert(3)',
+      ].join('\n'),
+    );
+    expect(html).not.toContain('href');
+    expect(html).toBe('<p>a b c\njavascript:alert(2) d</p>\n');
+  });
+
+  it('drops safe tags that carry attributes and HTML blocks entirely', () => {
+    const html = toHtml(
+      'Hi <b onclick="alert(1)">x</b> <i style="x">y</i> <a href="javascript:alert(1)">z</a> <br/>\n\n<div onmouseover="alert(1)">block</div>',
+    );
+    expect(html).toBe('<p>Hi x</b> y</i> z <br></p>\n');
+  });
+
+  it('limits images to safe URLs and raster data: URIs', () => {
+    expect(toHtml('![ok](data:image/png;base64,AAAA)')).toContain('<img src="data:image/png;base64,AAAA" alt="ok"');
+    expect(toHtml('![svg](data:image/svg+xml;base64,PHN2Zz4=)')).toBe('<p>svg</p>\n');
+    expect(toHtml('![page](data:text/html;base64,PHA+)')).toBe('<p>page</p>\n');
+    expect(toHtml('![x](javascript:alert(1))')).toBe('<p>x</p>\n');
+  });
+
+  it('escapes attribute values so they cannot break out of quotes', () => {
+    expect(toHtml('[a](https://example.com/ "x\\" onmouseover=\\"alert(1)")')).toContain('title="x&quot; onmouseover=&quot;alert(1)"');
+    expect(toHtml('![a" onerror="alert(1)](https://example.com/i.png)')).toContain('alt="a&quot; onerror=&quot;alert(1)"');
+    expect(toHtml('```x"><script>\ncode\n```')).toContain('<code class="language-x&quot;&gt;&lt;script&gt;">');
+  });
+});
+
+describe('renderMarkdown', () => {
+  it('serves HTML with a restrictive Content-Security-Policy', () => {
+    const { headers } = renderMarkdown('# Hi', 'html');
+    expect(headers['Content-Type']).toBe('text/html; charset=utf-8');
+    expect(headers['Content-Security-Policy']).toContain("default-src 'none'");
+    expect(headers['Content-Security-Policy']).toContain('sandbox');
+  });
+});
+
+describe('parseResponseFormat', () => {
+  it('prefers the format parameter, then the best Accept match', () => {
+    expect(parseResponseFormat('raw', 'text/html')).toBe('raw');
+    expect(parseResponseFormat('nope')).toBe('json');
+    expect(parseResponseFormat(null, 'text/html;q=0.5, text/markdown')).toBe('raw');
+    expect(parseResponseFormat(null, 'image/png')).toBe('json');
+  });
+
+  it('skips refused, malformed and unknown ranges and breaks ties by order', () => {
+    expect(parseResponseFormat(null, 'text/html;q=0, text/plain')).toBe('text');
+    expect(parseResponseFormat(null, 'text/html;q=abc, text/markdown;q=0.1')).toBe('raw');
+    expect(parseResponseFormat(null, 'text/*, */*;q=0.8')).toBe('json');
+    expect(parseResponseFormat(null, 'text/plain;q=0.8, text/html;q=0.8')).toBe('text');
+    expect(parseResponseFormat(null, 'Text/HTML; charset=utf-8')).toBe('html');
+    expect(parseResponseFormat('', 'text/html')).toBe('html');
+  });
+});
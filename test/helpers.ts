@@ -0,0 +1,53 @@
+/**
+ * Shared test stubs
+ *
+ * Specs never reach Workers AI, Browser Rendering or the network: the AI
+ * binding, the browser renderer and `fetch` are replaced by the stubs here.
+ */
+
+import { env } from 'cloudflare:test';
+import { vi } from 'vitest';
+import type { Renderer } from '../src/render';
+
+/** Workers AI `toMarkdown` stub: echoes each document's body as its Markdown, spending `tokens` per document */
+export function stubToMarkdown(tokens = 7) {
+  return vi.fn(async (docs: { name: string; blob: Blob }[]) =>
+    Promise.all(
+      docs.map(async (doc) => ({ name: doc.name, mimeType: doc.blob.type, format: 'markdown', tokens, data: await doc.blob.text() })),
+    ),
+  );
+}
+
+/** Browser renderer stub: a page titled "Rendered" whose H1 names the URL */
+export function stubRender() {
+  return vi.fn<Renderer['render']>(async (_env, url) => ({
+    status: 200,
+    html: `<html><head><title>Rendered</title></head><body><h1>Rendered ${url}</h1></body></html>`,
+  }));
+}
+
+/**
+ * Serve `pages` (URL → HTML) from a stubbed `fetch`; other URLs get a 404.
+ *
+ * @returns The requests sent, in order
+ */
+export function stubUpstream(pages: Record<string, string>): Request[] {
+  const requests: Request[] = [];
+  vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+    const request = new Request(input, init);
+    requests.push(request);
+    const html = pages[request.url];
+    return html ? new Response(html, { headers: { 'content-type': 'text/html' } }) : new Response('Not found', { status: 404 });
+  });
+  return requests;
+}
+
+/** The test env with the AI binding replaced by `toMarkdown` and `vars` set */
+export function withAi(toMarkdown: ReturnType<typeof stubToMarkdown>, vars: Partial<Record<keyof Env, string>> = {}): Env {
+  return { ...env, AI: { toMarkdown }, ...vars } as unknown as Env;
+}
+
+/** A minimal HTML page with a title, some body text and optional extra markup */
+export function htmlPage(title: string, text: string, extra = ''): string {
+  return `<html><head><title>${title}</title></head><body><p>${text}</p>${extra}</body></html>`;
+}
@@ -0,0 +1,74 @@
+import { env } from 'cloudflare:test';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { inlineImages, parseImageMode, stripImages } from '../src/images';
+
+const PNG_MAGIC = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/** A PNG-sniffing body of the given size */
+function png(size: number): Uint8Array {
+  const bytes = new Uint8Array(size);
+  bytes.set(PNG_MAGIC);
+  return bytes;
+}
+
+/** Serve `https://img.example.com/<size>.png` as a PNG of that many bytes */
+function stubImages() {
+  return vi.spyOn(globalThis, 'fetch').mockImplementation(async (input) => {
+    const url = input instanceof Request ? input.url : String(input);
+    const size = Number(url.match(/\/(\d+)(?:-\w+)?\.png$/)?.[1]);
+    return new Response(png(size), { headers: { 'content-type': 'image/png' } });
+  });
+}
+
+const withVars = (vars: Partial<Record<keyof Env, string>>) => ({ ...env, ...vars }) as unknown as Env;
+
+/** How many images in the Markdown were embedded */
+const inlined = (markdown: string) => markdown.match(/data:image\/png;base64,/g)?.length ?? 0;
+
+describe('inlineImages', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('embeds images as data: URIs', async () => {
+    stubImages();
+    const markdown = await inlineImages('![a](https://img.example.com/100.png)', null, env);
+    expect(markdown).toMatch(/^!\[a\]\(data:image\/png;base64,/);
+  });
+
+  it('keeps the URL of images past the image count', async () => {
+    stubImages();
+    const source = [
+      '![a](https://img.example.com/10-a.png)',
+      '![b](https://img.example.com/10-b.png)',
+      '![c](https://img.example.com/10-c.png)',
+    ].join('\n\n');
+    const markdown = await inlineImages(source, null, withVars({ IMAGE_INLINE_MAX_COUNT: '2' }));
+    expect(inlined(markdown)).toBe(2);
+    expect(markdown).toContain('![c](https://img.example.com/10-c.png)');
+  });
+
+  it('keeps the URL of images past the total size budget', async () => {
+    stubImages();
+    const source = [
+      '![a](https://img.example.com/600.png)',
+      '![b](https://img.example.com/700.png)',
+      '![c](https://img.example.com/300.png)',
+    ].join('\n\n');
+    const markdown = await inlineImages(source, null, withVars({ IMAGE_INLINE_MAX_TOTAL_KB: '1' }));
+    expect(inlined(markdown)).toBe(2);
+    expect(markdown).toContain('![b](https://img.example.com/700.png)');
+  });
+});
+
+describe('stripImages', () => {
+  it('keeps alt text', () => {
+    expect(stripImages('Logo: ![The logo](https://example.com/a.png) and <img src="b.png" alt="B">')).toBe('Logo: The logo and B');
+  });
+});
+
+describe('parseImageMode', () => {
+  it('defaults to proxy', () => {
+    expect(parseImageMode('inline')).toBe('inline');
+    expect(parseImageMode('bogus')).toBe('proxy');
+    expect(parseImageMode(null)).toBe('proxy');
+  });
+});
@@ -6,19 +6,31 @@ import worker from '../src/index';
 // `Request` to pass to `worker.fetch()`.
 const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
 
-describe('Hello World worker', () => {
-  it('responds with Hello World! (unit style)', async () => {
+describe('anything-md worker', () => {
+  it('describes its usage when no URL or content is given (unit style)', async () => {
     const request = new IncomingRequest('http://example.com');
-    // Create an empty context to pass to `worker.fetch()`.
     const ctx = createExecutionContext();
     const response = await worker.fetch(request, env, ctx);
-    // Wait for all `Promise`s passed to `ctx.waitUntil()` to settle before running test assertions
     await waitOnExecutionContext(ctx);
-    expect(await response.text()).toMatchInlineSnapshot(`"Hello World!"`);
+
+    expect(response.status).toBe(200);
+    const body = (await response.json()) as { success: boolean; usage: Record<string, string> };
+    expect(body.success).toBe(true);
+    expect(body.usage.GET).toBe('/?url=https://example.com');
+  });
+
+  it('answers CORS preflights (integration style)', async () => {
+    const response = await SELF.fetch('https://example.com', { method: 'OPTIONS' });
+    expect(response.headers.get('access-control-allow-origin')).toBe('*');
+  });
+
+  it('rejects unsupported methods', async () => {
+    const response = await SELF.fetch('https://example.com', { method: 'PUT' });
+    expect(response.status).toBe(405);
   });
 
-  it('responds with Hello World! (integration style)', async () => {
-    const response = await SELF.fetch('https://example.com');
-    expect(await response.text()).toMatchInlineSnapshot(`"Hello World!"`);
+  it('rejects invalid URLs', async () => {
+    const response = await SELF.fetch('https://example.com/?url=not-a-url');
+    expect(response.status).toBe(400);
   });
 });
@@ -0,0 +1,169 @@
+import { createExecutionContext, env } from 'cloudflare:test';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { handleJobs, type JobMessage, processJobs } from '../src/jobs';
+import { decodeBase64 } from '../src/upload';
+import { stubToMarkdown, withAi } from './helpers';
+
+const send = vi.fn(async () => undefined);
+const testEnv = { ...withAi(stubToMarkdown(), { JOBS_WEBHOOK_SECRET: 'webhook-secret' }), JOBS_QUEUE: { send } } as unknown as Env;
+
+afterEach(() => vi.restoreAllMocks());
+
+async function call(path: string, init: RequestInit = {}) {
+  const response = await handleJobs(new Request(`https://worker.test${path}`, init), testEnv, null);
+  return { status: response.status, body: (await response.json()) as Record<string, unknown> };
+}
+
+const submit = (body: unknown) => call('/jobs', { method: 'POST', body: JSON.stringify(body) });
+
+const storedInput = async (id: unknown) =>
+  (await env.IMAGES_BUCKET.get(`jobs/${id}/input.json`))?.json<{ items: Record<string, string>[] }>();
+
+/** Deliver a job's queue message as delivery number `attempts` */
+async function deliver(id: unknown, attempts = 1) {
+  const message = { body: { id }, attempts, ack: vi.fn(), retry: vi.fn() };
+  await processJobs({ messages: [message] } as unknown as MessageBatch<JobMessage>, testEnv, createExecutionContext());
+  return message;
+}
+
+describe('POST /jobs', () => {
+  it('queues a document with its batch item fields', async () => {
+    const { status, body } = await submit({ url: 'https://example.com/report.pdf', clean: true, cookies: { session: 'abc' } });
+    expect(status).toBe(202);
+    expect(body).toMatchObject({ success: true, status: 'queued' });
+    expect(send).toHaveBeenCalledWith({ id: body.id });
+
+    expect(await storedInput(body.id)).toEqual({
+      items: [{ url: 'https://example.com/report.pdf', clean: true, cookies: { session: 'abc' } }],
+    });
+  });
+
+  it('rejects fields a job would drop', async () => {
+    for (const body of [
+      { url: 'https://example.com/feed.xml', mode: 'entries' },
+      { url: 'https://example.com/', format: 'html' },
+      { url: 'https://example.com/', cache: 'bypass' },
+      { items: [{ url: 'https://example.com/' }, { url: 'https://example.com/feed.xml', expand: true }] },
+    ]) {
+      const response = await submit(body);
+      expect(response.status, JSON.stringify(body)).toBe(400);
+      expect(response.body.code).toBe('unsupported_field');
+    }
+  });
+
+  it('rejects bodies without input', async () => {
+    expect((await submit({ webhook: 'https://example.com/hook' })).status).toBe(400);
+    expect((await submit({ items: [] })).status).toBe(400);
+  });
+});
+
+describe('POST /jobs uploads', () => {
+  it('queues each uploaded file as a base64 item with the form options', async () => {
+    const form = new FormData();
+    form.append('clean', 'true');
+    form.append('frontmatter', 'true');
+    form.append('files', new File(['a,b\n1,2'], 'one.csv', { type: 'text/csv' }));
+    form.append('files', new File(['c,d\n3,4'], 'two.csv', { type: 'text/csv' }));
+
+    const { status, body } = await call('/jobs', { method: 'POST', body: form });
+    expect(status).toBe(202);
+    const input = await storedInput(body.id);
+    expect(input?.items).toHaveLength(2);
+    expect(input?.items[0]).toMatchObject({ encoding: 'base64', fileName: 'one.csv', clean: 'true', frontmatter: true });
+    expect(new TextDecoder().decode(decodeBase64(input?.items[1].content ?? ''))).toBe('c,d\n3,4');
+  });
+
+  it('queues a raw body as one document', async () => {
+    const { status, body } = await call('/jobs?fileName=table.csv', {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/csv' },
+      body: 'a,b\n1,2',
+    });
+    expect(status).toBe(202);
+    expect((await storedInput(body.id))?.items).toEqual([
+      expect.objectContaining({ fileName: 'table.csv', content: btoa('a,b\n1,2'), encoding: 'base64' }),
+    ]);
+  });
+
+  it('rejects upload parameters a job would drop', async () => {
+    const { status, body } = await call('/jobs?format=html', {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/csv' },
+      body: 'a,b\n1,2',
+    });
+    expect(status).toBe(400);
+    expect(body.code).toBe('unsupported_field');
+  });
+});
+
+describe('DELETE /jobs/:id', () => {
+  it('cancels a queued job once', async () => {
+    const { body } = await submit({ content: 'Hello' });
+
+    const cancelled = await call(`/jobs/${body.id}`, { method: 'DELETE' });
+    expect(cancelled).toMatchObject({ status: 200, body: { status: 'cancelled' } });
+    expect(await storedInput(body.id)).toBeUndefined();
+
+    const again = await call(`/jobs/${body.id}`, { method: 'DELETE' });
+    expect(again).toMatchObject({ status: 409, body: { code: 'job_finished' } });
+  });
+
+  it('does not find unknown jobs', async () => {
+    expect((await call(`/jobs/${crypto.randomUUID()}`, { method: 'DELETE' })).status).toBe(404);
+    expect((await call('/jobs/not-a-job', { method: 'DELETE' })).status).toBe(404);
+  });
+});
+
+describe('processJobs', () => {
+  /** Record webhook deliveries */
+  function stubWebhook() {
+    const deliveries: Request[] = [];
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+      deliveries.push(new Request(input, init));
+      return new Response('ok');
+    });
+    return deliveries;
+  }
+
+  it('runs a job and signs its webhook over `<timestamp>.<body>`', async () => {
+    const deliveries = stubWebhook();
+    const { body } = await submit({ content: 'Hello', webhook: 'https://hooks.example.com/done' });
+
+    const message = await deliver(body.id);
+    expect(message.ack).toHaveBeenCalled();
+    expect((await call(`/jobs/${body.id}`)).body).toMatchObject({ status: 'succeeded', result: { success: true } });
+
+    expect(deliveries).toHaveLength(1);
+    const [delivery] = deliveries;
+    const payload = await delivery.text();
+    expect(JSON.parse(payload)).toMatchObject({ id: body.id, status: 'succeeded' });
+
+    const timestamp = delivery.headers.get('X-Webhook-Timestamp');
+    const key = await crypto.subtle.importKey('raw', new TextEncoder().encode('webhook-secret'), { name: 'HMAC', hash: 'SHA-256' }, false, [
+      'sign',
+    ]);
+    const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${timestamp}.${payload}`));
+    const hex = [...new Uint8Array(signature)].map((b) => b.toString(16).padStart(2, '0')).join('');
+    expect(delivery.headers.get('X-Webhook-Signature')).toBe(`sha256=${hex}`);
+    expect(delivery.headers.get('X-Webhook-Id')).toBe(body.id);
+  });
+
+  it('retries unexpected errors and fails the job on the last attempt', async () => {
+    const deliveries = stubWebhook();
+    const { body } = await submit({ content: 'Hello', webhook: 'https://hooks.example.com/done' });
+    vi.spyOn(env.IMAGES_BUCKET, 'get').mockRejectedValue(new Error('R2 unavailable'));
+
+    for (const attempts of [1, 2]) {
+      const message = await deliver(body.id, attempts);
+      expect(message.retry).toHaveBeenCalled();
+      expect(message.ack).not.toHaveBeenCalled();
+    }
+    expect(deliveries).toHaveLength(0);
+
+    const last = await deliver(body.id, 3);
+    expect(last.retry).not.toHaveBeenCalled();
+    expect(last.ack).toHaveBeenCalled();
+    expect(deliveries).toHaveLength(1);
+    expect(await deliveries[0].json()).toMatchObject({ status: 'failed', error: 'Internal error: R2 unavailable' });
+  });
+});
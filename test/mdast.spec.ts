@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { type MdNode, nodeText, parseMarkdown } from '../src/mdast';
+
+/** Children of the first block */
+const inline = (markdown: string) => (parseMarkdown(markdown).children?.[0].children ?? []) as MdNode[];
+
+describe('parseMarkdown', () => {
+  it('decodes escapes and entities in link destinations and titles', () => {
+    expect(inline('[a](&#106;avascript:alert\\(1\\) "&quot;t&quot;")')).toEqual([
+      { type: 'link', url: 'javascript:alert(1)', title: '"t"', children: [{ type: 'text', value: 'a' }] },
+    ]);
+  });
+
+  it('resolves reference links once every definition is known', () => {
+    expect(inline('[Docs][ref] and [ref]\n\n[REF]: <https://example.com/a b> (Title)')).toEqual([
+      { type: 'link', url: 'https://example.com/a b', title: 'Title', children: [{ type: 'text', value: 'Docs' }] },
+      { type: 'text', value: ' and ' },
+      { type: 'link', url: 'https://example.com/a b', title: 'Title', children: [{ type: 'text', value: 'ref' }] },
+    ]);
+    expect(inline('[missing][nope]')).toEqual([{ type: 'text', value: '[missing][nope]' }]);
+  });
+
+  it('turns URL and email autolinks into links', () => {
+    expect(inline('<https://example.com> <me@example.com>')).toEqual([
+      { type: 'link', url: 'https://example.com', title: null, children: [{ type: 'text', value: 'https://example.com' }] },
+      { type: 'text', value: ' ' },
+      { type: 'link', url: 'mailto:me@example.com', title: null, children: [{ type: 'text', value: 'me@example.com' }] },
+    ]);
+  });
+
+  it('keeps raw HTML verbatim as inline and block html nodes', () => {
+    expect(inline('a <b onclick="x">b</b>')).toEqual([
+      { type: 'text', value: 'a ' },
+      { type: 'html', value: '<b onclick="x">' },
+      { type: 'text', value: 'b' },
+      { type: 'html', value: '</b>' },
+    ]);
+    expect(parseMarkdown('<div>\n<script>alert(1)</script>\n</div>\n\ntext').children).toEqual([
+      { type: 'html', value: '<div>\n<script>alert(1)</script>\n</div>' },
+      { type: 'paragraph', children: [{ type: 'text', value: 'text' }] },
+    ]);
+  });
+
+  it('does not parse markup inside code', () => {
+    expect(inline('`<script>` [a](b)')).toEqual([
+      { type: 'inlineCode', value: '<script>' },
+      { type: 'text', value: ' ' },
+      { type: 'link', url: 'b', title: null, children: [{ type: 'text', value: 'a' }] },
+    ]);
+    expect(parseMarkdown('```html\n<b>[a](b)</b>\n```').children).toEqual([{ type: 'code', lang: 'html', value: '<b>[a](b)</b>' }]);
+  });
+
+  it('separates leading YAML frontmatter', () => {
+    expect(parseMarkdown('---\ntitle: T\n---\n# Hi').children).toEqual([
+      { type: 'yaml', value: 'title: T' },
+      { type: 'heading', depth: 1, children: [{ type: 'text', value: 'Hi' }] },
+    ]);
+  });
+});
+
+describe('nodeText', () => {
+  it('keeps text and image alt text and drops markup', () => {
+    expect(nodeText(parseMarkdown('**Bold** ![logo](x.png) <i>raw</i> `code`'))).toBe('Bold logo raw code');
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { extractMetadata, toFrontmatter, withFrontmatter } from '../src/metadata';
+
+const jsonLd = (value: unknown) => `<script type="application/ld+json">${JSON.stringify(value)}</script>`;
+
+describe('extractMetadata', () => {
+  it('prefers JSON-LD, then Open Graph, then standard tags', () => {
+    const html = `<html lang="en-GB"><head>
+      <title>Title tag</title>
+      <meta property="og:title" content="OG title">
+      <meta name="description" content="Meta description">
+      <meta property="og:description" content="OG description">
+      ${jsonLd({ '@type': 'NewsArticle', headline: 'LD headline', author: [{ name: 'Ada' }, { name: 'Grace' }] })}
+    </head><body></body></html>`;
+
+    expect(extractMetadata(html)).toEqual({
+      title: 'LD headline',
+      description: 'OG description',
+      author: 'Ada, Grace',
+      language: 'en-GB',
+    });
+  });
+
+  it('finds the article in a JSON-LD @graph', () => {
+    const html = jsonLd({
+      '@context': 'https://schema.org',
+      '@graph': [
+        { '@type': 'WebSite', name: 'Site' },
+        { '@type': 'BlogPosting', headline: 'Post', datePublished: '2024-03-01T10:00:00+02:00', keywords: 'rivers, floods' },
+      ],
+    });
+    expect(extractMetadata(html)).toMatchObject({ title: 'Post', publishedAt: '2024-03-01T08:00:00.000Z', keywords: ['rivers', 'floods'] });
+  });
+
+  it('ignores malformed JSON-LD', () => {
+    const html = `<script type="application/ld+json">{ not json</script><meta property="og:title" content="Fallback">`;
+    expect(extractMetadata(html)).toEqual({ title: 'Fallback' });
+  });
+
+  it('resolves relative URLs against the page and keeps unparseable dates', () => {
+    const html = `<link rel="canonical" href="/articles/1"><meta property="og:image" content="img/lead.png">
+      <meta property="article:published_time" content="last Tuesday">`;
+    expect(extractMetadata(html, 'https://example.com/blog/post')).toEqual({
+      canonicalUrl: 'https://example.com/articles/1',
+      image: 'https://example.com/blog/img/lead.png',
+      publishedAt: 'last Tuesday',
+    });
+  });
+
+  it('merges keywords from every source without duplicates', () => {
+    const html = `<meta property="article:tag" content="news"><meta property="article:tag" content="rivers">
+      <meta name="keywords" content="rivers，weather">`;
+    expect(extractMetadata(html).keywords).toEqual(['news', 'rivers', 'weather']);
+  });
+
+  it('turns Open Graph locales into language tags', () => {
+    expect(extractMetadata('<meta property="og:locale" content="zh_CN">').language).toBe('zh-CN');
+  });
+});
+
+describe('toFrontmatter', () => {
+  it('renders Hugo-style keys with quoted values', () => {
+    const frontmatter = toFrontmatter(
+      {
+        title: 'Floods: "the worst" in years',
+        publishedAt: '2024-03-01T08:00:00.000Z',
+        canonicalUrl: 'https://example.com/a',
+        keywords: ['news', 'rivers'],
+      },
+      'https://example.com/a?utm=1',
+    );
+    expect(frontmatter).toBe(
+      [
+        '---',
+        'title: "Floods: \\"the worst\\" in years"',
+        'date: "2024-03-01T08:00:00.000Z"',
+        'url: "https://example.com/a"',
+        'source: "https://example.com/a?utm=1"',
+        'tags:',
+        '  - "news"',
+        '  - "rivers"',
+        '---',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('renders an empty block when nothing is known', () => {
+    expect(toFrontmatter({})).toBe('---\n---\n');
+  });
+
+  it('is prepended to the Markdown', () => {
+    expect(withFrontmatter('# Body', { title: 'T' })).toBe('---\ntitle: "T"\n---\n\n# Body');
+  });
+});
@@ -0,0 +1,114 @@
+import { createExecutionContext } from 'cloudflare:test';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Usage } from '../src/auth';
+import { handleConvert } from '../src/convert';
+import { renderers } from '../src/render';
+import { htmlPage, stubRender, stubToMarkdown, stubUpstream, withAi } from './helpers';
+
+const article = `<p>${'Hydrated article text. '.repeat(40)}</p>`;
+
+/** Pages served by the stubbed upstream */
+const pages: Record<string, string> = {
+  'https://example.com/static': htmlPage('Static', 'Server-rendered text. '.repeat(20)),
+  'https://example.com/next': `<html><head><title>Next</title></head><body><div id="__next"></div><script id="__NEXT_DATA__" type="application/json">${JSON.stringify({ props: { pageProps: { post: { title: 'From state', content: article } } } })}</script></body></html>`,
+  'https://example.com/shell':
+    '<html><body><noscript>You need to enable JavaScript to run this app.</noscript><div id="root"></div></body></html>',
+};
+
+const toMarkdown = stubToMarkdown();
+const render = stubRender();
+const original = renderers.browser;
+const testEnv = withAi(toMarkdown, { URL_BLOCK_PRIVATE_IPS: 'false' });
+
+async function convert(query: string, overrides: Partial<Env> = {}) {
+  const request = new Request(`https://worker.test/?format=json&cache=bypass&images=keep&${query}`);
+  const usage: Usage = { tokens: 0 };
+  const response = await handleConvert(request, { ...testEnv, ...overrides } as Env, createExecutionContext(), usage);
+  return { status: response.status, body: (await response.json()) as Record<string, unknown>, usage };
+}
+
+beforeEach(() => {
+  renderers.browser = { render };
+  stubUpstream(pages);
+});
+
+afterEach(() => {
+  renderers.browser = original;
+  vi.restoreAllMocks();
+  toMarkdown.mockClear();
+  render.mockClear();
+});
+
+describe('URL conversion', () => {
+  it('converts a fetched page with Workers AI', async () => {
+    const { status, body, usage } = await convert('url=https://example.com/static');
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ success: true, converter: 'ai', strategy: 'static', tokens: 7 });
+    expect(body.markdown).toContain('Server-rendered text.');
+    expect(usage.tokens).toBe(7);
+    expect(render).not.toHaveBeenCalled();
+  });
+
+  it('reports upstream errors as 502', async () => {
+    const { status } = await convert('url=https://example.com/missing');
+    expect(status).toBe(502);
+  });
+
+  it('falls back to the local converter when Workers AI fails', async () => {
+    toMarkdown.mockRejectedValueOnce(new Error('AI unavailable'));
+    const { body } = await convert('url=https://example.com/static');
+    expect(body).toMatchObject({ success: true, converter: 'local' });
+    expect(body.markdown).toContain('Server-rendered text.');
+  });
+});
+
+describe('render=true', () => {
+  it('loads the page through the renderer', async () => {
+    const { body } = await convert('url=https://example.com/static&render=true&waitFor=%23app', { BROWSER: {} as Fetcher });
+    expect(render).toHaveBeenCalledWith(expect.anything(), 'https://example.com/static', expect.objectContaining({ waitFor: '#app' }));
+    expect(body).toMatchObject({ success: true, strategy: 'render' });
+    expect(body.markdown).toContain('Rendered https://example.com/static');
+  });
+
+  it('is not available without a BROWSER binding', async () => {
+    renderers.browser = original;
+    const { status, body } = await convert('url=https://example.com/static&render=true');
+    expect(status).toBe(501);
+    expect(body.code).toBe('render_disabled');
+  });
+
+  it('applies the URL policy before rendering', async () => {
+    const { status } = await convert('url=http://127.0.0.1/&render=true', { BROWSER: {} as Fetcher, URL_BLOCK_PRIVATE_IPS: 'true' });
+    expect(status).toBe(403);
+    expect(render).not.toHaveBeenCalled();
+  });
+
+  it('fails with 502 when the rendered page has an error status', async () => {
+    render.mockResolvedValueOnce({ status: 500, html: '' });
+    const { status } = await convert('url=https://example.com/static&render=true', { BROWSER: {} as Fetcher });
+    expect(status).toBe(502);
+  });
+});
+
+describe('SPA shells', () => {
+  it('rebuilds the article from embedded state without rendering', async () => {
+    const { body } = await convert('url=https://example.com/next', { BROWSER: {} as Fetcher });
+    expect(body).toMatchObject({ success: true, strategy: 'embedded' });
+    expect(body.markdown).toContain('From state');
+    expect(body.markdown).toContain('Hydrated article text.');
+    expect(render).not.toHaveBeenCalled();
+  });
+
+  it('renders a shell without embedded state when a browser is configured', async () => {
+    const { body } = await convert('url=https://example.com/shell', { BROWSER: {} as Fetcher });
+    expect(render).toHaveBeenCalledOnce();
+    expect(body).toMatchObject({ success: true, strategy: 'render' });
+  });
+
+  it('keeps the fetched shell without a browser, with render=false, or when rendering fails', async () => {
+    expect((await convert('url=https://example.com/shell')).body.strategy).toBe('static');
+    expect((await convert('url=https://example.com/shell&render=false', { BROWSER: {} as Fetcher })).body.strategy).toBe('static');
+    render.mockRejectedValueOnce(new Error('boom'));
+    expect((await convert('url=https://example.com/shell', { BROWSER: {} as Fetcher })).body.strategy).toBe('static');
+  });
+});
@@ -0,0 +1,92 @@
+import { env } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+import { assertUrlAllowed, isPrivateAddress, matchHost } from '../src/policy';
+
+const withVars = (vars: Partial<Record<keyof Env, string>>) => ({ ...env, ...vars }) as unknown as Env;
+
+/** The policy code thrown for a URL, or null when it is allowed */
+function policyCode(url: string, testEnv: Env = env): string | null {
+  try {
+    assertUrlAllowed(url, testEnv);
+    return null;
+  } catch (error) {
+    return (error as { code?: string }).code ?? 'unknown';
+  }
+}
+
+describe('assertUrlAllowed', () => {
+  it('allows public http(s) URLs', () => {
+    expect(policyCode('https://example.com/page')).toBeNull();
+    expect(policyCode('http://93.184.216.34/')).toBeNull();
+    expect(policyCode('http://[2606:4700::1111]/')).toBeNull();
+  });
+
+  it('rejects malformed URLs and other schemes', () => {
+    expect(policyCode('not a url')).toBe('invalid_url');
+    expect(policyCode('file:///etc/passwd')).toBe('scheme_not_allowed');
+    expect(policyCode('ftp://example.com/')).toBe('scheme_not_allowed');
+  });
+
+  it('denies hosts regardless of case or a trailing dot', () => {
+    expect(policyCode('http://localhost/')).toBe('host_denied');
+    expect(policyCode('http://LOCALHOST./')).toBe('host_denied');
+    expect(policyCode('http://metadata.google.internal./')).toBe('host_denied');
+    expect(policyCode('http://printer.local../')).toBe('host_denied');
+  });
+
+  it('applies the allowlist to normalised hosts', () => {
+    const testEnv = withVars({ URL_ALLOW_HOSTS: 'example.com' });
+    expect(policyCode('https://docs.example.com./', testEnv)).toBeNull();
+    expect(policyCode('https://example.org/', testEnv)).toBe('host_not_allowed');
+  });
+
+  it('blocks private and reserved IPv4 addresses', () => {
+    for (const host of ['127.0.0.1', '127.0.0.1.', '10.1.2.3', '169.254.169.254', '192.168.1.1', '192.0.0.170', '0x7f.1']) {
+      expect(policyCode(`http://${host}/`), host).toBe('private_address');
+    }
+  });
+
+  it('blocks documentation, benchmarking, reserved and broadcast IPv4 ranges', () => {
+    for (const host of ['192.0.2.1', '198.51.100.7', '203.0.113.255', '198.18.0.1', '198.19.255.254', '240.0.0.1', '255.255.255.255']) {
+      expect(policyCode(`http://${host}/`), host).toBe('private_address');
+    }
+    for (const host of ['192.0.3.1', '198.51.101.1', '203.0.114.1', '198.20.0.1', '223.255.255.255']) {
+      expect(policyCode(`http://${host}/`), host).toBeNull();
+    }
+  });
+
+  it('blocks IPv6 addresses that embed a private IPv4 address', () => {
+    for (const host of ['::1', '::ffff:127.0.0.1', '::7f00:1', '::127.0.0.1', '64:ff9b::a9fe:a9fe', '2002:7f00:1::', '2002:c0a8:101::1']) {
+      expect(policyCode(`http://[${host}]/`), host).toBe('private_address');
+    }
+    expect(policyCode('http://[64:ff9b::808:808]/')).toBeNull();
+    expect(policyCode('http://[2002:808:808::1]/')).toBeNull();
+  });
+
+  it('skips the address check when URL_BLOCK_PRIVATE_IPS is false', () => {
+    expect(policyCode('http://[::7f00:1]/', withVars({ URL_BLOCK_PRIVATE_IPS: 'false' }))).toBeNull();
+  });
+});
+
+describe('isPrivateAddress', () => {
+  it('recognises private IPv6 ranges', () => {
+    expect(isPrivateAddress('[fd00::1]')).toBe(true);
+    expect(isPrivateAddress('[fe80::1]')).toBe(true);
+    expect(isPrivateAddress('[ff02::1]')).toBe(true);
+    expect(isPrivateAddress('[::]')).toBe(true);
+    expect(isPrivateAddress('[2606:4700::1111]')).toBe(false);
+  });
+
+  it('treats host names as public', () => {
+    expect(isPrivateAddress('example.com')).toBe(false);
+  });
+});
+
+describe('matchHost', () => {
+  it('matches suffixes and globs', () => {
+    expect(matchHost('a.example.com', 'example.com')).toBe(true);
+    expect(matchHost('badexample.com', 'example.com')).toBe(false);
+    expect(matchHost('a.example.com', '*.example.com')).toBe(true);
+    expect(matchHost('example.com.', '.EXAMPLE.com')).toBe(true);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { cleanMarkdown, demoteHeadings, parseCleanSteps } from '../src/postprocess';
+
+/** The heading lines of the Markdown after the `headings` step */
+function headings(markdown: string): string[] {
+  return cleanMarkdown(markdown, ['headings'])
+    .split('\n')
+    .filter((line) => line.startsWith('#'));
+}
+
+describe('normalizeHeadings', () => {
+  it('promotes the highest level to H1', () => {
+    expect(headings('## Title\n\n### Section\n\n#### Detail')).toEqual(['# Title', '## Section', '### Detail']);
+  });
+
+  it('keeps each demoted H1 subtree nested', () => {
+    expect(headings('# A\n\n## B\n\n# C\n\n## D')).toEqual(['# A', '## B', '## C', '### D']);
+  });
+
+  it('closes up skipped levels', () => {
+    expect(headings('# A\n\n### B\n\n#### C\n\n### D\n\n# E\n\n#### F')).toEqual(['# A', '## B', '### C', '## D', '## E', '### F']);
+  });
+
+  it('keeps headings before the title below it', () => {
+    expect(headings('## Intro\n\n# Title\n\n## Body')).toEqual(['## Intro', '# Title', '## Body']);
+  });
+
+  it('caps levels at H6', () => {
+    expect(headings('# A\n\n# B\n\n## C\n\n### D\n\n#### E\n\n##### F\n\n###### G').at(-1)).toBe('###### G');
+  });
+
+  it('leaves code blocks alone', () => {
+    expect(cleanMarkdown('### Title\n\n```sh\n# comment\n```', ['headings'])).toBe('# Title\n\n```sh\n# comment\n```');
+  });
+});
+
+describe('demoteHeadings', () => {
+  it('demotes headings outside code', () => {
+    expect(demoteHeadings('# A\n\n```\n# code\n```\n\n###### B', 2)).toBe('### A\n\n```\n# code\n```\n\n###### B');
+  });
+});
+
+describe('parseCleanSteps', () => {
+  it('ignores unknown steps', () => {
+    expect(parseCleanSteps('headings,bogus')).toEqual(['headings']);
+  });
+});
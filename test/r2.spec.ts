@@ -0,0 +1,135 @@
+import { createExecutionContext, env, waitOnExecutionContext } from 'cloudflare:test';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { proxyImages } from '../src/pipeline';
+import { type ImageRef, toR2Key, uploadImages } from '../src/r2';
+
+const PNG_MAGIC = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/** A PNG-sniffing body whose last byte is `variant` */
+function png(variant: number): ArrayBuffer {
+  const buffer = new ArrayBuffer(64);
+  const bytes = new Uint8Array(buffer);
+  bytes.set(PNG_MAGIC);
+  bytes[63] = variant;
+  return buffer;
+}
+
+/** `https://img.example.com/<variant>/<name>.png` serves PNG `variant`; anything else is a 404 */
+beforeEach(() => {
+  vi.spyOn(globalThis, 'fetch').mockImplementation(async (input) => {
+    const url = input instanceof Request ? input.url : String(input);
+    const variant = url.match(/^https:\/\/img\.example\.com\/(\d+)\//)?.[1];
+    return variant ? new Response(png(Number(variant))) : new Response('Not found', { status: 404 });
+  });
+});
+
+afterEach(() => vi.restoreAllMocks());
+
+const testEnv = { ...env, IMAGE_UPLOAD_CONCURRENCY: '1' } as unknown as Env;
+const refs = (...urls: string[]): ImageRef[] => urls.map((url) => ({ source: url, url }));
+
+describe('toR2Key', () => {
+  it('hashes the bytes', async () => {
+    expect(await toR2Key(png(1))).toBe(await toR2Key(png(1)));
+    expect(await toR2Key(png(1))).not.toBe(await toR2Key(png(2)));
+    expect(await toR2Key(png(1))).toMatch(/^img\/[0-9a-f]{40}$/);
+  });
+});
+
+describe('uploadImages', () => {
+  it('stores identical images found under different URLs once', async () => {
+    const result = await uploadImages(
+      refs('https://img.example.com/3/a.png', 'https://img.example.com/3/b.png', 'https://img.example.com/4/c.png'),
+      env.IMAGES_BUCKET,
+      testEnv,
+    );
+    expect(result).toMatchObject({ uploaded: 2, skipped: 1, failed: 0 });
+    const [a, b, c] = result.images;
+    expect(a.r2Url).toBe(b.r2Url);
+    expect(c.r2Url).not.toBe(a.r2Url);
+
+    const key = await toR2Key(png(3));
+    expect(a.r2Url).toBe(`${env.R2_PUBLIC_URL}/${key}`);
+    expect((await env.IMAGES_BUCKET.head(key))?.customMetadata?.originalUrl).toBe('https://img.example.com/3/a.png');
+  });
+
+  it('rewrites images already in R2 past half their TTL to extend their expiry', async () => {
+    const key = await toR2Key(png(6));
+    await env.IMAGES_BUCKET.put(key, png(6), {
+      customMetadata: { expiresAt: new Date(Date.now() + 60_000).toISOString(), originalUrl: 'https://old' },
+    });
+
+    const put = vi.spyOn(env.IMAGES_BUCKET, 'put');
+    const result = await uploadImages(refs('https://img.example.com/6/a.png'), env.IMAGES_BUCKET, testEnv);
+    expect(result).toMatchObject({ uploaded: 0, refreshed: 1, skipped: 0 });
+    expect(result.images[0].status).toBe('refreshed');
+    expect(put).toHaveBeenCalledOnce();
+
+    const stored = await env.IMAGES_BUCKET.head(key);
+    expect(Date.parse(stored?.customMetadata?.expiresAt ?? '')).toBeGreaterThan(Date.now() + 60 * 60_000);
+    expect(stored?.customMetadata?.originalUrl).toBe('https://old');
+  });
+
+  it('leaves images in R2 with more than half their TTL alone', async () => {
+    const key = await toR2Key(png(6));
+    const expiresAt = new Date(Date.now() + 7 * 60 * 60_000).toISOString();
+    await env.IMAGES_BUCKET.put(key, png(6), { customMetadata: { expiresAt } });
+
+    const put = vi.spyOn(env.IMAGES_BUCKET, 'put');
+    const result = await uploadImages(refs('https://img.example.com/6/a.png'), env.IMAGES_BUCKET, testEnv);
+    expect(result).toMatchObject({ uploaded: 0, refreshed: 0, skipped: 1 });
+    expect(put).not.toHaveBeenCalled();
+    expect((await env.IMAGES_BUCKET.head(key))?.customMetadata?.expiresAt).toBe(expiresAt);
+  });
+
+  it('reports failed downloads without an R2 URL', async () => {
+    const result = await uploadImages(refs('https://img.example.com/missing.png'), env.IMAGES_BUCKET, testEnv);
+    expect(result.images[0]).toMatchObject({ status: 'failed', r2Url: null, error: 'Image download failed (404)' });
+  });
+
+  it('writes identical images once when uploading in parallel', async () => {
+    const put = vi.spyOn(env.IMAGES_BUCKET, 'put');
+    const result = await uploadImages(
+      refs('https://img.example.com/7/a.png', 'https://img.example.com/7/b.png', 'https://img.example.com/7/c.png'),
+      env.IMAGES_BUCKET,
+      { ...env, IMAGE_UPLOAD_CONCURRENCY: '3' } as unknown as Env,
+    );
+    expect(result).toMatchObject({ uploaded: 1, skipped: 2, failed: 0 });
+    expect(put).toHaveBeenCalledOnce();
+  });
+
+  it('reports each R2 URL through `onKey` as soon as it is known', async () => {
+    const keys = new Map<string, string>();
+    const result = await uploadImages(refs('https://img.example.com/5/a.png'), env.IMAGES_BUCKET, testEnv, null, undefined, (url, r2Url) =>
+      keys.set(url, r2Url),
+    );
+    expect(keys.get('https://img.example.com/5/a.png')).toBe(result.images[0].r2Url);
+    expect(await env.IMAGES_BUCKET.head(await toR2Key(png(5)))).not.toBeNull();
+  });
+});
+
+describe('proxyImages', () => {
+  it('rewrites the images downloaded within IMAGE_PROXY_WAIT_MS and uploads the rest in the background', async () => {
+    const serve = vi.mocked(globalThis.fetch).getMockImplementation();
+    vi.mocked(globalThis.fetch).mockImplementation(async (input, init) => {
+      const url = input instanceof Request ? input.url : String(input);
+      if (url.includes('/9/')) await new Promise((resolve) => setTimeout(resolve, 300));
+      return serve?.(input, init) as Promise<Response>;
+    });
+
+    const ctx = createExecutionContext();
+    const markdown = '![fast](https://img.example.com/8/a.png) ![slow](https://img.example.com/9/b.png)';
+    const proxied = await proxyImages(
+      markdown,
+      '',
+      null,
+      { ...env, IMAGE_PROXY_HOSTS: 'img.example.com', IMAGE_PROXY_WAIT_MS: '50' } as unknown as Env,
+      ctx,
+    );
+    expect(proxied.markdown).toBe(`![fast](${env.R2_PUBLIC_URL}/${await toR2Key(png(8))}) ![slow](https://img.example.com/9/b.png)`);
+    expect(proxied.images).toBeNull();
+
+    await waitOnExecutionContext(ctx);
+    expect(await env.IMAGES_BUCKET.head(await toR2Key(png(9)))).not.toBeNull();
+  });
+});
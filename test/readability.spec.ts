@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { extractMainContent, parseExtractMode } from '../src/readability';
+
+const paragraph = (text: string) => `<p>${`${text} `.repeat(6).trim()}</p>`;
+
+const article = [
+  paragraph('The river rose overnight and flooded the lower town, forcing families to move uphill.'),
+  paragraph('Volunteers filled sandbags along the embankment while the council opened the school as a shelter.'),
+  paragraph('By morning the water had started to fall, leaving mud across the market square.'),
+].join('');
+
+const links = (count: number) =>
+  Array.from({ length: count }, (_, i) => `<li><a href="/story/${i}">Another related story number ${i} you might like</a></li>`).join('');
+
+describe('extractMainContent', () => {
+  it('keeps the densest text block and drops the page chrome', () => {
+    const html = `<html><head><title>Flood update</title></head><body>
+      <nav><ul>${links(5)}</ul></nav>
+      <div class="sidebar"><p>Subscribe to our newsletter for more news and updates every single day.</p></div>
+      <div class="article-body">${article}</div>
+      <div class="comments"><p>First comment, this is a very long comment about the article above.</p></div>
+      <footer>Copyright</footer>
+    </body></html>`;
+
+    const extracted = extractMainContent(html) ?? '';
+    expect(extracted).toContain('The river rose overnight');
+    expect(extracted).toContain('mud across the market square');
+    expect(extracted).not.toContain('Another related story');
+    expect(extracted).not.toContain('Subscribe to our newsletter');
+    expect(extracted).not.toContain('First comment');
+    expect(extracted).not.toContain('Copyright');
+  });
+
+  it('scales scores down by link density', () => {
+    const html = `<html><body>
+      <div class="list"><ul>${links(30)}</ul></div>
+      <div>${article}</div>
+    </body></html>`;
+    const extracted = extractMainContent(html) ?? '';
+    expect(extracted).toContain('The river rose overnight');
+    expect(extracted).not.toContain('Another related story');
+  });
+
+  it('keeps clean sibling paragraphs of the best block', () => {
+    const html = `<html><body><main>
+      <div class="content">${article}</div>
+      <p>A short closing sentence.</p>
+      <p><a href="/share">Share</a></p>
+    </main></body></html>`;
+    const extracted = extractMainContent(html) ?? '';
+    expect(extracted).toContain('A short closing sentence.');
+    expect(extracted).not.toContain('Share');
+  });
+
+  it('rebuilds the header from the page metadata', () => {
+    const html = `<html><head>
+      <meta property="og:title" content="Flood update">
+      <meta name="author" content="Ada Reporter">
+      <meta property="og:image" content="https://example.com/flood.jpg">
+    </head><body><div class="story">${article}</div></body></html>`;
+    const extracted = extractMainContent(html) ?? '';
+    expect(extracted).toContain('<h1>Flood update</h1>');
+    expect(extracted).toContain('<p class="byline">Ada Reporter</p>');
+    expect(extracted).toContain('<img src="https://example.com/flood.jpg" alt="">');
+    expect(extracted.indexOf('<h1>')).toBeLessThan(extracted.indexOf('The river rose'));
+  });
+
+  it('does not repeat a title the body already starts with', () => {
+    const html = `<html><head><title>Flood update</title></head><body><article><h2>Flood update</h2>${article}</article></body></html>`;
+    expect(extractMainContent(html)).not.toContain('<h1>Flood update</h1>');
+  });
+
+  it('returns null when nothing scores well enough', () => {
+    expect(extractMainContent(`<html><body><p>Too short.</p><nav><ul>${links(3)}</ul></nav></body></html>`)).toBeNull();
+  });
+});
+
+describe('parseExtractMode', () => {
+  it('only selects readability for `main`', () => {
+    expect(parseExtractMode('main')).toBe('main');
+    expect(parseExtractMode('MAIN')).toBe('auto');
+    expect(parseExtractMode(null)).toBe('auto');
+  });
+});
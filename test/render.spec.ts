@@ -0,0 +1,76 @@
+import { env } from 'cloudflare:test';
+import puppeteer from '@cloudflare/puppeteer';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { PolicyError } from '../src/policy';
+import { renderPage } from '../src/render';
+
+/** An intercepted request, recording how the renderer settled it */
+function fakeRequest(url: string, resourceType = 'script', navigation = false) {
+  return {
+    url: () => url,
+    resourceType: () => resourceType,
+    isNavigationRequest: () => navigation,
+    headers: () => ({}),
+    outcome: null as string | null,
+    async abort(reason = 'failed') {
+      this.outcome = `abort:${reason}`;
+    },
+    async continue() {
+      this.outcome = 'continue';
+    },
+  };
+}
+
+type FakeRequest = ReturnType<typeof fakeRequest>;
+
+/** Stub the browser: `goto` replays `requests` through the interception handler */
+function stubBrowser(requests: FakeRequest[]) {
+  let onRequest: (request: FakeRequest) => void = () => {};
+  const page = {
+    setRequestInterception: async () => {},
+    on: (_event: string, handler: typeof onRequest) => {
+      onRequest = handler;
+    },
+    goto: async () => {
+      for (const request of requests) onRequest(request);
+      const blocked = requests.find((request) => request.isNavigationRequest() && request.outcome?.startsWith('abort'));
+      if (blocked) throw new Error('net::ERR_BLOCKED_BY_CLIENT');
+      return { status: () => 200 };
+    },
+    content: async () => '<html><body><h1>Rendered</h1></body></html>',
+  };
+  const browser = { newPage: async () => page, close: async () => {} };
+  vi.spyOn(puppeteer, 'launch').mockResolvedValue(browser as unknown as Awaited<ReturnType<typeof puppeteer.launch>>);
+}
+
+const renderEnv = { ...env, BROWSER: {} as Fetcher, URL_BLOCK_PRIVATE_IPS: 'true' } as unknown as Env;
+
+describe('browser renderer', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('aborts subresources the URL policy rejects and keeps the page', async () => {
+    const requests = [
+      fakeRequest('https://example.com/', 'document', true),
+      fakeRequest('https://cdn.example.com/app.js'),
+      fakeRequest('http://169.254.169.254/latest/meta-data/', 'xhr'),
+      fakeRequest('http://127.0.0.1:8080/api', 'fetch'),
+      fakeRequest('https://example.com/hero.png', 'image'),
+    ];
+    stubBrowser(requests);
+
+    const page = await renderPage('https://example.com/', renderEnv);
+    expect(page.html).toContain('Rendered');
+    expect(requests.map((request) => request.outcome)).toEqual([
+      'continue',
+      'continue',
+      'abort:blockedbyclient',
+      'abort:blockedbyclient',
+      'abort:failed',
+    ]);
+  });
+
+  it('fails the render when a navigation is rejected', async () => {
+    stubBrowser([fakeRequest('https://example.com/', 'document', true), fakeRequest('http://10.0.0.1/', 'document', true)]);
+    await expect(renderPage('https://example.com/', renderEnv)).rejects.toBeInstanceOf(PolicyError);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { matchesPathPattern, parseRobots } from '../src/robots';
+
+describe('matchesPathPattern', () => {
+  it('matches prefixes, wildcards and end anchors', () => {
+    expect(matchesPathPattern('/docs/', '/docs/intro')).toBe(true);
+    expect(matchesPathPattern('/docs/', '/blog/')).toBe(false);
+    expect(matchesPathPattern('/*.pdf$', '/files/a.pdf')).toBe(true);
+    expect(matchesPathPattern('/*.pdf$', '/files/a.pdf?x=1')).toBe(false);
+    expect(matchesPathPattern('/a.b', '/axb')).toBe(false);
+  });
+});
+
+describe('parseRobots', () => {
+  const text = [
+    'User-agent: *',
+    'Disallow: /private/',
+    'Allow: /private/public',
+    '',
+    'User-agent: OtherBot',
+    'Disallow: /',
+    '',
+    'Sitemap: https://example.com/sitemap.xml # comment',
+  ].join('\n');
+
+  it('applies the longest matching rule, allow winning ties', () => {
+    const robots = parseRobots(text);
+    expect(robots.isAllowed('/')).toBe(true);
+    expect(robots.isAllowed('/private/secret')).toBe(false);
+    expect(robots.isAllowed('/private/public/page')).toBe(true);
+    expect(robots.isAllowed('/robots.txt')).toBe(true);
+    expect(parseRobots('User-agent: *\nDisallow: /a\nAllow: /a').isAllowed('/a')).toBe(true);
+  });
+
+  it('prefers the group for its own agent and collects sitemaps', () => {
+    expect(parseRobots(text, 'OtherBot').isAllowed('/')).toBe(false);
+    expect(parseRobots(text).sitemaps).toEqual(['https://example.com/sitemap.xml']);
+  });
+
+  it('shares rules between consecutive user-agent lines', () => {
+    const robots = parseRobots('User-agent: foo\nUser-agent: anything-md\nDisallow: /x');
+    expect(robots.isAllowed('/x/y')).toBe(false);
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, expect, it } from 'vitest';
+import { contentDispositionFileName } from '../src/pipeline';
+import { imageExtension, resolveDocumentType, sniffBinaryType, sniffImageType, sniffTextType, withExtension } from '../src/sniff';
+
+const bytes = (...parts: (string | number[])[]) =>
+  new Uint8Array(parts.flatMap((part) => (typeof part === 'string' ? [...new TextEncoder().encode(part)] : part)));
+
+const u16 = (n: number) => [n & 0xff, (n >> 8) & 0xff];
+const u32 = (n: number) => [...u16(n & 0xffff), ...u16(n >>> 16)];
+
+/** A stored (uncompressed) ZIP archive with a central directory */
+function zip(files: [name: string, content: string][]): Uint8Array {
+  const local: number[] = [];
+  const central: number[] = [];
+  for (const [fileName, content] of files) {
+    const offset = local.length;
+    const name = [...bytes(fileName)];
+    const data = [...bytes(content)];
+    const sizes = [...u32(0), ...u32(data.length), ...u32(data.length)];
+    local.push(
+      0x50,
+      0x4b,
+      0x03,
+      0x04,
+      ...u16(20),
+      ...u16(0),
+      ...u16(0),
+      ...u32(0),
+      ...sizes,
+      ...u16(name.length),
+      ...u16(0),
+      ...name,
+      ...data,
+    );
+    central.push(0x50, 0x4b, 0x01, 0x02, ...u16(20), ...u16(20), ...u16(0), ...u16(0), ...u32(0), ...sizes);
+    central.push(...u16(name.length), ...u16(0), ...u16(0), ...u16(0), ...u16(0), ...u32(0), ...u32(offset), ...name);
+  }
+  const end = [0x50, 0x4b, 0x05, 0x06, ...u16(0), ...u16(0), ...u16(files.length), ...u16(files.length)];
+  return new Uint8Array([...local, ...central, ...end, ...u32(central.length), ...u32(local.length), ...u16(0)]);
+}
+
+/** An OLE compound file header followed by a UTF-16LE directory entry name */
+const ole = (stream: string) =>
+  bytes(
+    [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1],
+    new Array(56).fill(0),
+    [...stream].flatMap((c) => [c.charCodeAt(0), 0]),
+  );
+
+describe('sniffImageType', () => {
+  it('recognises image signatures', () => {
+    expect(sniffImageType(bytes([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))).toBe('image/png');
+    expect(sniffImageType(bytes([0xff, 0xd8, 0xff, 0xe0]))).toBe('image/jpeg');
+    expect(sniffImageType(bytes('GIF89a'))).toBe('image/gif');
+    expect(sniffImageType(bytes('RIFF', [0, 0, 0, 0], 'WEBPVP8 '))).toBe('image/webp');
+    expect(sniffImageType(bytes([0, 0, 0, 0x1c], 'ftypavif'))).toBe('image/avif');
+    expect(sniffImageType(bytes([0, 0, 0, 0x18], 'ftypheic'))).toBe('image/heic');
+    expect(sniffImageType(bytes('BM'))).toBe('image/bmp');
+    expect(sniffImageType(bytes([0x00, 0x00, 0x01, 0x00]))).toBe('image/x-icon');
+    expect(sniffImageType(bytes([0x4d, 0x4d, 0x00, 0x2a]))).toBe('image/tiff');
+  });
+
+  it('recognises SVG after an XML prolog, comments and a doctype', () => {
+    const svg =
+      '<?xml version="1.0"?>\n<!-- logo -->\n<!DOCTYPE svg PUBLIC "-//W3C//DTD SVG 1.1//EN" "x">\n<svg xmlns="http://www.w3.org/2000/svg">';
+    expect(sniffImageType(bytes(svg))).toBe('image/svg+xml');
+    expect(sniffImageType(bytes('<html><svg></svg></html>'))).toBeNull();
+  });
+
+  it('rejects other bytes', () => {
+    expect(sniffImageType(bytes('%PDF-1.7'))).toBeNull();
+    expect(sniffImageType(bytes([0x89, 0x50]))).toBeNull();
+  });
+});
+
+describe('sniffBinaryType', () => {
+  it('recognises PDFs', () => {
+    expect(sniffBinaryType(bytes('%PDF-1.7\n'))).toBe('application/pdf');
+  });
+
+  it('tells ZIP-based documents apart by their entries', () => {
+    expect(
+      sniffBinaryType(
+        zip([
+          ['[Content_Types].xml', ''],
+          ['word/document.xml', ''],
+        ]),
+      ),
+    ).toBe('application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+    expect(
+      sniffBinaryType(
+        zip([
+          ['[Content_Types].xml', ''],
+          ['xl/workbook.xml', ''],
+        ]),
+      ),
+    ).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    expect(
+      sniffBinaryType(
+        zip([
+          ['[Content_Types].xml', ''],
+          ['xl/workbook.xml', ''],
+          ['xl/vbaProject.bin', ''],
+        ]),
+      ),
+    ).toBe('application/vnd.ms-excel.sheet.macroenabled.12');
+    expect(
+      sniffBinaryType(
+        zip([
+          ['mimetype', 'application/vnd.oasis.opendocument.text'],
+          ['content.xml', ''],
+        ]),
+      ),
+    ).toBe('application/vnd.oasis.opendocument.text');
+    expect(sniffBinaryType(zip([['Index/Document.iwa', '']]))).toBe('application/vnd.apple.numbers');
+    expect(sniffBinaryType(zip([['notes.txt', 'hello']]))).toBe('application/zip');
+  });
+
+  it('tells legacy Office files apart by their main stream', () => {
+    expect(sniffBinaryType(ole('Workbook'))).toBe('application/vnd.ms-excel');
+    expect(sniffBinaryType(ole('WordDocument'))).toBe('application/msword');
+  });
+
+  it('returns null for text', () => {
+    expect(sniffBinaryType(bytes('<html></html>'))).toBeNull();
+  });
+});
+
+describe('sniffTextType', () => {
+  it('recognises HTML documents and fragments, XML and feeds', () => {
+    expect(sniffTextType(bytes('<!-- generated -->\n<!DOCTYPE html><html>'))).toBe('text/html');
+    expect(sniffTextType(bytes('<div class="post">Hi</div>'))).toBe('text/html');
+    expect(sniffTextType(bytes('<?xml version="1.0"?><!DOCTYPE html><html>'))).toBe('text/html');
+    expect(sniffTextType(bytes('<?xml version="1.0"?><note/>'))).toBe('application/xml');
+    expect(sniffTextType(bytes('<rss version="2.0">'))).toBe('application/xml');
+    expect(sniffTextType(bytes('Just some text'))).toBeNull();
+  });
+});
+
+describe('resolveDocumentType', () => {
+  it('trusts binary signatures over the declared type and filename', () => {
+    expect(resolveDocumentType(bytes('%PDF-1.4'), 'text/html', 'page.html')).toBe('application/pdf');
+  });
+
+  it('uses a specific declared type, unless HTML is served as a binary format', () => {
+    expect(resolveDocumentType(bytes('a,b\n1,2'), 'text/csv; charset=utf-8', 'data.txt')).toBe('text/csv');
+    expect(resolveDocumentType(bytes('<html><body>Log in</body></html>'), 'application/pdf', 'report.pdf')).toBe('text/html');
+    expect(resolveDocumentType(bytes('<html>'), 'application/xhtml+xml', null)).toBe('text/html');
+  });
+
+  it('falls back to the extension, then text heuristics, for generic types', () => {
+    expect(resolveDocumentType(bytes('a,b\n1,2'), 'application/octet-stream', 'data.csv')).toBe('text/csv');
+    expect(resolveDocumentType(bytes('<html></html>'), 'text/plain', 'download')).toBe('text/html');
+    expect(resolveDocumentType(bytes('plain words'), null, null)).toBe('application/octet-stream');
+  });
+});
+
+describe('file names', () => {
+  it('gives names the extension of their type', () => {
+    expect(withExtension('report.pdf', 'application/pdf')).toBe('report.pdf');
+    expect(withExtension('download.php', 'application/pdf')).toBe('download.pdf');
+    expect(withExtension('archive.tar.gz', 'application/pdf')).toBe('archive.tar.pdf');
+    expect(withExtension('page.htm', 'text/html')).toBe('page.htm');
+    expect(withExtension('data', 'application/zip')).toBe('data');
+    expect(imageExtension('image/jpeg')).toBe('jpg');
+    expect(imageExtension('image/x-unknown')).toBe('bin');
+  });
+});
+
+describe('contentDispositionFileName', () => {
+  it('prefers the RFC 6266 filename* parameter', () => {
+    expect(contentDispositionFileName(`attachment; filename="fallback.pdf"; filename*=UTF-8''%E6%8A%A5%E5%91%8A.pdf`)).toBe('报告.pdf');
+  });
+
+  it('reads quoted and bare filenames', () => {
+    expect(contentDispositionFileName('attachment; filename="Q1 \\"final\\".pdf"')).toBe('Q1 "final".pdf');
+    expect(contentDispositionFileName('inline; filename=report.pdf')).toBe('report.pdf');
+  });
+
+  it('decodes raw UTF-8 bytes and drops directories', () => {
+    expect(contentDispositionFileName('attachment; filename="rÃ©sumÃ©.pdf"')).toBe('résumé.pdf');
+    expect(contentDispositionFileName('attachment; filename="C:\\\\Users\\\\me\\\\notes.docx"')).toBe('notes.docx');
+    expect(contentDispositionFileName('attachment; filename="../../etc/passwd"')).toBe('passwd');
+  });
+
+  it('returns null without a filename', () => {
+    expect(contentDispositionFileName(null)).toBeNull();
+    expect(contentDispositionFileName('inline')).toBeNull();
+  });
+});
@@ -0,0 +1,88 @@
+import { createExecutionContext, env } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+import { parseStreamMode, streamResponse } from '../src/stream';
+
+const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status });
+
+describe('parseStreamMode', () => {
+  it('picks the encoding from the parameter or the Accept header', () => {
+    expect(parseStreamMode('sse')).toBe('sse');
+    expect(parseStreamMode('ndjson', 'text/event-stream')).toBe('ndjson');
+    expect(parseStreamMode(true, 'text/event-stream, */*')).toBe('sse');
+    expect(parseStreamMode('true', 'application/json')).toBe('ndjson');
+    expect(parseStreamMode('false')).toBeNull();
+    expect(parseStreamMode(null)).toBeNull();
+  });
+});
+
+describe('streamResponse', () => {
+  it('frames events as NDJSON lines ending with the result', async () => {
+    const { response } = streamResponse(env, createExecutionContext(), 'ndjson', async (emit) => {
+      emit({ type: 'cache', hit: false });
+      emit({ type: 'convert', stage: 'done', tokens: 3 });
+      return json({ success: true, markdown: '# Hi' });
+    });
+
+    expect(response.headers.get('content-type')).toBe('application/x-ndjson; charset=utf-8');
+    const lines = (await response.text()).split('\n');
+    expect(lines.pop()).toBe('');
+    expect(lines.map((line) => JSON.parse(line))).toEqual([
+      { type: 'cache', hit: false },
+      { type: 'convert', stage: 'done', tokens: 3 },
+      { type: 'result', success: true, markdown: '# Hi' },
+    ]);
+  });
+
+  it('frames events as Server-Sent Events named by type', async () => {
+    const { response } = streamResponse(env, createExecutionContext(), 'sse', async (emit) => {
+      emit({ type: 'cache', hit: true });
+      return json({ success: true });
+    });
+
+    expect(response.headers.get('content-type')).toBe('text/event-stream; charset=utf-8');
+    expect(await response.text()).toBe(
+      'event: cache\ndata: {"type":"cache","hit":true}\n\nevent: result\ndata: {"type":"result","success":true}\n\n',
+    );
+  });
+
+  it('turns error responses into a terminal error event with their status', async () => {
+    const { response } = streamResponse(env, createExecutionContext(), 'ndjson', async () =>
+      json({ success: false, error: 'Unsupported format: application/zip.', code: 'unsupported_format' }, 415),
+    );
+    expect(response.status).toBe(200);
+    expect(JSON.parse(await response.text())).toEqual({
+      type: 'error',
+      status: 415,
+      error: 'Unsupported format: application/zip.',
+      code: 'unsupported_format',
+    });
+  });
+
+  it('reports thrown errors as a 500 error event', async () => {
+    const { response, done } = streamResponse(env, createExecutionContext(), 'ndjson', async () => {
+      throw new Error('boom');
+    });
+    expect(JSON.parse(await response.text())).toEqual({ type: 'error', status: 500, error: 'Internal error: boom' });
+    await expect(done).resolves.toBeUndefined();
+  });
+
+  it('waits for background work before the terminal event', async () => {
+    const { response } = streamResponse(env, createExecutionContext(), 'ndjson', async (emit, ctx) => {
+      ctx.waitUntil(
+        new Promise<void>((resolve) =>
+          setTimeout(() => {
+            emit({ type: 'image', done: 1, total: 1, url: 'https://example.com/a.png', status: 'uploaded', size: 10 });
+            resolve();
+          }, 20),
+        ),
+      );
+      return json({ success: true });
+    });
+
+    const types = (await response.text())
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line).type);
+    expect(types).toEqual(['image', 'result']);
+  });
+});
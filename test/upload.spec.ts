@@ -0,0 +1,102 @@
+import { createExecutionContext } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+import { handleConvert } from '../src/convert';
+import { decodeBase64, encodeBase64, isUploadRequest, readParameters, readUploads } from '../src/upload';
+import { stubToMarkdown, withAi } from './helpers';
+
+const post = (body: BodyInit, contentType?: string, query = '') =>
+  new Request(`https://worker.test/${query}`, { method: 'POST', body, headers: contentType ? { 'Content-Type': contentType } : {} });
+
+const text = (body: ArrayBuffer) => new TextDecoder().decode(body);
+
+describe('isUploadRequest', () => {
+  it('treats parameter bodies as parameters and anything else as a document', () => {
+    expect(isUploadRequest(post('{}', 'application/json; charset=utf-8'))).toBe(false);
+    expect(isUploadRequest(post('url=x', 'application/x-www-form-urlencoded'))).toBe(false);
+    expect(isUploadRequest(post('{}', 'text/plain'))).toBe(false);
+    expect(isUploadRequest(post('%PDF', 'application/pdf'))).toBe(true);
+    expect(isUploadRequest(post(new FormData()))).toBe(true);
+  });
+});
+
+describe('decodeBase64', () => {
+  it('decodes plain base64, data: URIs and wrapped lines', () => {
+    expect(text(decodeBase64(btoa('hello')))).toBe('hello');
+    expect(text(decodeBase64(`data:text/plain;base64,${btoa('hello')}`))).toBe('hello');
+    expect(text(decodeBase64('aGVs\n bG8='))).toBe('hello');
+  });
+
+  it('round-trips binary through encodeBase64', () => {
+    const bytes = Uint8Array.from({ length: 70_000 }, (_, i) => i % 256);
+    expect(new Uint8Array(decodeBase64(encodeBase64(bytes.buffer)))).toEqual(bytes);
+  });
+
+  it('rejects invalid base64', () => {
+    expect(() => decodeBase64('not base64!')).toThrow('Invalid base64 content.');
+  });
+});
+
+describe('readUploads', () => {
+  it('reads every file of a multipart body, with string fields as parameters', async () => {
+    const form = new FormData();
+    form.append('file', new File(['a,b\n1,2'], 'one.csv', { type: 'text/csv' }));
+    form.append('file', new File(['<h1>Two</h1>'], 'two.html', { type: 'text/html' }));
+    form.append('format', 'raw');
+
+    const { docs, params } = await readUploads(post(form, undefined, '?converter=local'));
+    expect(params).toEqual({ converter: 'local', format: 'raw' });
+    expect(docs.map((doc) => [doc.fileName, doc.contentType])).toEqual([
+      ['one.csv', 'text/csv'],
+      ['two.html', 'text/html; charset=utf-8'],
+    ]);
+  });
+
+  it('reads a raw body as one document named by `fileName`', async () => {
+    const { docs } = await readUploads(post('a,b\n1,2', 'text/csv', '?fileName=table'));
+    expect(docs).toHaveLength(1);
+    expect(docs[0]).toMatchObject({ fileName: 'table.csv', contentType: 'text/csv' });
+    expect(text(docs[0].body)).toBe('a,b\n1,2');
+  });
+
+  it('rejects empty bodies and forms without files', async () => {
+    await expect(readUploads(post('', 'application/pdf'))).rejects.toThrow('Empty request body.');
+
+    const form = new FormData();
+    form.append('format', 'raw');
+    await expect(readUploads(post(form))).rejects.toThrow('No files found');
+  });
+});
+
+describe('readParameters', () => {
+  it('reads form fields as strings', async () => {
+    const body = new URLSearchParams({ content: '<p>Hi & bye</p>', frontmatter: 'true' });
+    expect(await readParameters(post(body.toString(), 'application/x-www-form-urlencoded'))).toEqual({
+      content: '<p>Hi & bye</p>',
+      frontmatter: 'true',
+    });
+  });
+
+  it('reads JSON sent as text/plain or as a form (`curl -d` without a Content-Type)', async () => {
+    expect(await readParameters(post('{"url":"https://example.com/"}', 'text/plain;charset=UTF-8'))).toEqual({
+      url: 'https://example.com/',
+    });
+    expect(await readParameters(post('{"url":"https://example.com/"}', 'application/x-www-form-urlencoded'))).toEqual({
+      url: 'https://example.com/',
+    });
+  });
+
+  it('explains how text/plain bodies are read when they are not JSON', async () => {
+    await expect(readParameters(post('Some notes', 'text/plain'))).rejects.toThrow('text/plain bodies are read as JSON parameters');
+    await expect(readParameters(post('[1, 2]', 'application/json'))).rejects.toThrow('Invalid JSON body.');
+  });
+});
+
+describe('POST / with form fields', () => {
+  it('converts the posted content', async () => {
+    const body = new URLSearchParams({ content: '<h1>Hello</h1><p>From a form.</p>', contentType: 'text/html' });
+    const request = post(body.toString(), 'application/x-www-form-urlencoded', '?format=json&cache=bypass');
+    const response = await handleConvert(request, withAi(stubToMarkdown()), createExecutionContext(), { tokens: 0 });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ success: true, markdown: expect.stringContaining('From a form.') });
+  });
+});
@@ -5,6 +5,8 @@ export default defineWorkersConfig({
     poolOptions: {
       workers: {
         wrangler: { configPath: './wrangler.jsonc' },
+        // Tests stub `AI.toMarkdown` and the renderer; no remote session for the AI binding
+        remoteBindings: false,
       },
     },
   },
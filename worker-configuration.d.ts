@@ -4,17 +4,46 @@
 declare namespace Cloudflare {
   interface GlobalProps {
     mainModule: typeof import('./src/index');
+    durableNamespaces: 'RateLimiter' | 'JobTracker';
   }
   interface Env {
+    RATE_LIMITER: DurableObjectNamespace<import('./src/index').RateLimiter>;
+    JOBS: DurableObjectNamespace<import('./src/index').JobTracker>;
     IMAGES_BUCKET: R2Bucket;
     AI: Ai;
     R2_PUBLIC_URL: 'https://anything-md-images.doocs.org';
-    IMAGE_PROXY_HOSTS: 'qpic.cn';
+    IMAGE_PROXY_HOSTS: 'qpic.cn,zhimg.com,jianshu.io,csdnimg.cn';
     IMAGE_TTL_HOURS: '8';
     IMAGE_UPLOAD_CONCURRENCY: '5';
+    IMAGE_PROXY_WAIT_MS: '2000';
+    IMAGE_INLINE_MAX_KB: '512';
+    IMAGE_INLINE_MAX_TOTAL_KB: '2048';
+    IMAGE_INLINE_MAX_COUNT: '20';
     FETCH_TIMEOUT_MS: '15000';
     FETCH_MAX_ATTEMPTS: '3';
     CORS_ORIGIN: '*';
+    BATCH_MAX_ITEMS: '50';
+    BATCH_FETCH_CONCURRENCY: '5';
+    BATCH_CHUNK_SIZE: '10';
+    CHUNK_MAX_TOKENS: '512';
+    CACHE_TTL_HOURS: '24';
+    RATE_LIMIT_RPM: '60';
+    RATE_LIMIT_TOKENS_PER_DAY: '0';
+    FETCH_MAX_REDIRECTS: '5';
+    FETCH_MAX_MB: '20';
+    URL_ALLOWED_SCHEMES: 'http,https';
+    URL_ALLOW_HOSTS: '';
+    URL_DENY_HOSTS: 'localhost,*.localhost,*.local,*.internal';
+    URL_BLOCK_PRIVATE_IPS: 'true';
+    JOB_TTL_HOURS: '24';
+    CRAWL_MAX_PAGES: '100';
+    CRAWL_MAX_DEPTH: '5';
+    CRAWL_SYNC_MAX_PAGES: '10';
+    FEED_MAX_ITEMS: '20';
+    RENDER_TIMEOUT_MS: '30000';
+    FETCH_TIMEOUT_LIMIT_MS: '60000';
+    FETCH_ATTEMPTS_LIMIT: '5';
+    FETCH_DENY_HEADERS: '';
   }
 }
 interface Env extends Cloudflare.Env {}
@@ -30,9 +59,35 @@ declare namespace NodeJS {
         | 'IMAGE_PROXY_HOSTS'
         | 'IMAGE_TTL_HOURS'
         | 'IMAGE_UPLOAD_CONCURRENCY'
+        | 'IMAGE_PROXY_WAIT_MS'
+        | 'IMAGE_INLINE_MAX_KB'
+        | 'IMAGE_INLINE_MAX_TOTAL_KB'
+        | 'IMAGE_INLINE_MAX_COUNT'
         | 'FETCH_TIMEOUT_MS'
         | 'FETCH_MAX_ATTEMPTS'
         | 'CORS_ORIGIN'
+        | 'BATCH_MAX_ITEMS'
+        | 'BATCH_FETCH_CONCURRENCY'
+        | 'BATCH_CHUNK_SIZE'
+        | 'CHUNK_MAX_TOKENS'
+        | 'CACHE_TTL_HOURS'
+        | 'RATE_LIMIT_RPM'
+        | 'RATE_LIMIT_TOKENS_PER_DAY'
+        | 'FETCH_MAX_REDIRECTS'
+        | 'FETCH_MAX_MB'
+        | 'URL_ALLOWED_SCHEMES'
+        | 'URL_ALLOW_HOSTS'
+        | 'URL_DENY_HOSTS'
+        | 'URL_BLOCK_PRIVATE_IPS'
+        | 'JOB_TTL_HOURS'
+        | 'CRAWL_MAX_PAGES'
+        | 'CRAWL_MAX_DEPTH'
+        | 'CRAWL_SYNC_MAX_PAGES'
+        | 'FEED_MAX_ITEMS'
+        | 'RENDER_TIMEOUT_MS'
+        | 'FETCH_TIMEOUT_LIMIT_MS'
+        | 'FETCH_ATTEMPTS_LIMIT'
+        | 'FETCH_DENY_HEADERS'
       >
     > {}
 }